@@ -5,9 +5,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { RateLockDialog } from '@/components/RateLockDialog';
+import { PrequalDialog } from '@/components/PrequalDialog';
+import { AffordabilityCalculator } from '@/components/AffordabilityCalculator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { trpc } from '@/utils/trpc';
 import { useState, useEffect, useCallback } from 'react';
-import type { CreateMortgageQuoteRequestInput, MortgageQuote, Lender } from '../../server/src/schema';
+import type { AffordabilityOption, ArmPaymentPathEntry, BuydownYear, CreateMortgageQuoteRequestInput, GetAffordabilityInput, SavedQuote, Lender, LoanPurpose, PriceAdjustment, QuotePriceOption, RateType, TemporaryBuydown } from '../../server/src/schema';
+
+type QuoteRanking = 'apr' | 'horizon_cost';
+
+const RATE_TYPE_LABELS: Record<RateType, string> = {
+  fixed: 'Fixed',
+  arm_5_1: '5/1 ARM',
+  arm_7_1: '7/1 ARM',
+  arm_10_1: '10/1 ARM'
+};
 
 function App() {
   const [formData, setFormData] = useState<CreateMortgageQuoteRequestInput>({
@@ -19,14 +32,31 @@ function App() {
     loan_term: '30',
     property_type: 'single_family',
     occupancy_type: 'primary',
+    number_of_units: 1,
     zip_code: '',
-    debt_to_income_ratio: null
+    debt_to_income_ratio: null,
+    gross_monthly_income: null,
+    monthly_debts: null,
+    loan_purpose: 'purchase',
+    current_loan_balance: null,
+    current_interest_rate: null,
+    current_remaining_term_months: null,
+    current_mortgage_insurance_monthly: null,
+    cash_out_amount: null,
+    temporary_buydown: null,
+    horizon_years: null
   });
 
-  const [quotes, setQuotes] = useState<MortgageQuote[]>([]);
+  const [quotes, setQuotes] = useState<SavedQuote[]>([]);
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [lockQuote, setLockQuote] = useState<SavedQuote | null>(null);
+  const [prequalQuote, setPrequalQuote] = useState<SavedQuote | null>(null);
+  const [formTab, setFormTab] = useState('rates');
   const [lenders, setLenders] = useState<Lender[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
+  const [rankBy, setRankBy] = useState<QuoteRanking>('apr');
 
   // Load lenders on mount
   const loadLenders = useCallback(async () => {
@@ -42,18 +72,104 @@ function App() {
     loadLenders();
   }, [loadLenders]);
 
+  // Reopen saved quotes from a shared ?quote=<token> link
+  const loadSavedQuotes = useCallback(async (token: string) => {
+    setIsLoading(true);
+    setHasSearched(true);
+    try {
+      const saved = await trpc.getSavedQuotes.query({ share_token: token });
+      const request = saved.quote_request;
+      setFormData({
+        loan_amount: request.loan_amount,
+        property_value: request.property_value,
+        down_payment: request.down_payment,
+        credit_score: request.credit_score,
+        loan_type: request.loan_type,
+        loan_term: request.loan_term,
+        property_type: request.property_type,
+        occupancy_type: request.occupancy_type,
+        number_of_units: request.number_of_units,
+        zip_code: request.zip_code,
+        debt_to_income_ratio: request.debt_to_income_ratio,
+        gross_monthly_income: request.gross_monthly_income,
+        monthly_debts: request.monthly_debts,
+        loan_purpose: request.loan_purpose,
+        current_loan_balance: request.current_loan_balance,
+        current_interest_rate: request.current_interest_rate,
+        current_remaining_term_months: request.current_remaining_term_months,
+        current_mortgage_insurance_monthly: request.current_mortgage_insurance_monthly,
+        cash_out_amount: request.cash_out_amount,
+        temporary_buydown: request.temporary_buydown,
+        horizon_years: request.horizon_years
+      });
+      setQuotes(saved.quotes);
+      setRankBy(request.horizon_years ? 'horizon_cost' : 'apr');
+      setShareToken(request.share_token);
+    } catch (error) {
+      console.error('Failed to load saved quotes:', error);
+      setQuotes([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('quote');
+    if (token) {
+      loadSavedQuotes(token);
+    }
+  }, [loadSavedQuotes]);
+
+  const handleCopyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setLinkCopied(true);
+  };
+
+  // Start a quote from an affordability result, priced as the calculator assumed
+  const handleUseAffordability = (option: AffordabilityOption, input: GetAffordabilityInput) => {
+    setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+      ...prev,
+      loan_amount: option.loan_amount,
+      property_value: option.max_purchase_price,
+      down_payment: option.down_payment,
+      credit_score: input.credit_score,
+      loan_type: option.loan_type,
+      loan_term: option.loan_term,
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: input.zip_code,
+      gross_monthly_income: input.gross_monthly_income,
+      monthly_debts: input.monthly_debts,
+      loan_purpose: 'purchase'
+    }));
+    setFormTab('rates');
+  };
+
+  // Best rates first, or the lowest total cost over the borrower's horizon
+  const rankedQuotes = [...quotes].sort((a, b) =>
+    rankBy === 'horizon_cost'
+      ? (a.horizon_cost?.total_cost ?? 0) - (b.horizon_cost?.total_cost ?? 0)
+      : a.apr - b.apr
+  );
+  const horizonYears = quotes.find((quote: SavedQuote) => quote.horizon_cost)?.horizon_cost?.horizon_years ?? null;
+
+  const isRefinance = formData.loan_purpose === 'refinance' || formData.loan_purpose === 'cash_out_refinance';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setHasSearched(true);
     
     try {
-      // Make API call to get mortgage quotes
-      const fetchedQuotes = await trpc.getMortgageQuotes.query(formData);
+      // Save the request and its quotes so they can be reopened later
+      const saved = await trpc.requestQuotes.mutate(formData);
       
-      // Sort by APR for best rates first
-      const sortedQuotes = fetchedQuotes.sort((a, b) => a.apr - b.apr);
-      setQuotes(sortedQuotes);
+      setQuotes(saved.quotes);
+      // Borrowers who gave a horizon see the cheapest loan over it first
+      setRankBy(formData.horizon_years ? 'horizon_cost' : 'apr');
+      setShareToken(saved.quote_request.share_token);
+      setLinkCopied(false);
+      window.history.replaceState(null, '', `?quote=${saved.quote_request.share_token}`);
     } catch (error) {
       console.error('Failed to get quotes:', error);
       // Set empty array on error to show "no rates found" message
@@ -88,8 +204,9 @@ function App() {
               </div>
               <h1 className="text-xl font-semibold text-slate-900">FAIRM</h1>
             </div>
-            <div className="text-sm text-slate-600">
-              AI-Powered Mortgage Platform
+            <div className="flex items-center gap-6 text-sm text-slate-600">
+              <span>AI-Powered Mortgage Platform</span>
+              <a href="/lender" className="text-blue-600 hover:text-blue-700">For Lenders</a>
             </div>
           </div>
         </div>
@@ -110,213 +227,465 @@ function App() {
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           {/* Quote Form */}
           <div className="lg:col-span-5">
-            <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
-              <CardHeader className="pb-6">
-                <CardTitle className="text-2xl">Get Your Rates</CardTitle>
-                <CardDescription>
-                  Tell us about your loan needs and we'll find the best rates
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-6">
-                <form onSubmit={handleSubmit} className="space-y-6">
-                  {/* Loan Amount & Property Value */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="loan_amount">Loan Amount</Label>
-                      <Input
-                        id="loan_amount"
-                        type="number"
-                        value={formData.loan_amount}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            loan_amount: parseInt(e.target.value) || 0 
-                          }))
-                        }
-                        className="text-lg"
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="property_value">Property Value</Label>
-                      <Input
-                        id="property_value"
-                        type="number"
-                        value={formData.property_value}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            property_value: parseInt(e.target.value) || 0 
-                          }))
-                        }
-                        className="text-lg"
-                        required
-                      />
-                    </div>
-                  </div>
-
-                  {/* Down Payment & Credit Score */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="down_payment">Down Payment</Label>
-                      <Input
-                        id="down_payment"
-                        type="number"
-                        value={formData.down_payment}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            down_payment: parseInt(e.target.value) || 0 
-                          }))
-                        }
-                        className="text-lg"
-                        required
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label htmlFor="credit_score">Credit Score</Label>
-                      <Input
-                        id="credit_score"
-                        type="number"
-                        min="300"
-                        max="850"
-                        value={formData.credit_score}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            credit_score: parseInt(e.target.value) || 0 
-                          }))
-                        }
-                        className="text-lg"
-                        required
-                      />
-                    </div>
-                  </div>
-
-                  {/* Loan Type & Term */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Loan Type</Label>
-                      <Select
-                        value={formData.loan_type}
-                        onValueChange={(value: 'conventional' | 'fha' | 'va' | 'usda' | 'jumbo') =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            loan_type: value 
-                          }))
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="conventional">Conventional</SelectItem>
-                          <SelectItem value="fha">FHA</SelectItem>
-                          <SelectItem value="va">VA</SelectItem>
-                          <SelectItem value="usda">USDA</SelectItem>
-                          <SelectItem value="jumbo">Jumbo</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Loan Term</Label>
-                      <Select
-                        value={formData.loan_term}
-                        onValueChange={(value: '15' | '20' | '25' | '30') =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            loan_term: value 
-                          }))
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="15">15 years</SelectItem>
-                          <SelectItem value="20">20 years</SelectItem>
-                          <SelectItem value="25">25 years</SelectItem>
-                          <SelectItem value="30">30 years</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-
-                  {/* Property & Occupancy Type */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Property Type</Label>
-                      <Select
-                        value={formData.property_type}
-                        onValueChange={(value: 'single_family' | 'condo' | 'townhouse' | 'multi_family') =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            property_type: value 
-                          }))
-                        }
-                      >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="single_family">Single Family</SelectItem>
-                          <SelectItem value="condo">Condo</SelectItem>
-                          <SelectItem value="townhouse">Townhouse</SelectItem>
-                          <SelectItem value="multi_family">Multi Family</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Occupancy</Label>
-                      <Select
-                        value={formData.occupancy_type}
-                        onValueChange={(value: 'primary' | 'secondary' | 'investment') =>
-                          setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                            ...prev, 
-                            occupancy_type: value 
-                          }))
-                        }
+            <Tabs value={formTab} onValueChange={setFormTab} className="space-y-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="rates">Get Rates</TabsTrigger>
+                <TabsTrigger value="affordability">Affordability</TabsTrigger>
+              </TabsList>
+              <TabsContent value="rates">
+                <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="pb-6">
+                    <CardTitle className="text-2xl">Get Your Rates</CardTitle>
+                    <CardDescription>
+                      Tell us about your loan needs and we'll find the best rates
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <form onSubmit={handleSubmit} className="space-y-6">
+                      <div className="space-y-2">
+                        <Label>Loan Purpose</Label>
+                        <Select
+                          value={formData.loan_purpose || 'purchase'}
+                          onValueChange={(value: LoanPurpose) =>
+                            setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                              ...prev,
+                              loan_purpose: value,
+                              // Buydowns are seller-paid, so refinances cannot carry one
+                              temporary_buydown: value === 'purchase' ? prev.temporary_buydown : null
+                            }))
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="purchase">Purchase</SelectItem>
+                            <SelectItem value="refinance">Refinance</SelectItem>
+                            <SelectItem value="cash_out_refinance">Cash-Out Refinance</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      {isRefinance ? (
+                        /* Existing loan & home value; the new loan pays off the current balance */
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="current_loan_balance">Current Loan Balance</Label>
+                            <Input
+                              id="current_loan_balance"
+                              type="number"
+                              value={formData.current_loan_balance ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                  ...prev,
+                                  current_loan_balance: parseFloat(e.target.value) || null
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="property_value">Estimated Home Value</Label>
+                            <Input
+                              id="property_value"
+                              type="number"
+                              value={formData.property_value}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                  ...prev,
+                                  property_value: parseInt(e.target.value) || 0
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="current_interest_rate">Current Rate (%)</Label>
+                            <Input
+                              id="current_interest_rate"
+                              type="number"
+                              step="0.001"
+                              value={formData.current_interest_rate ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                  ...prev,
+                                  current_interest_rate: parseFloat(e.target.value) || null
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="current_remaining_term_months">Months Remaining</Label>
+                            <Input
+                              id="current_remaining_term_months"
+                              type="number"
+                              min="1"
+                              max="480"
+                              value={formData.current_remaining_term_months ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                  ...prev,
+                                  current_remaining_term_months: parseInt(e.target.value) || null
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="current_mortgage_insurance_monthly">Current Mortgage Insurance /mo</Label>
+                            <Input
+                              id="current_mortgage_insurance_monthly"
+                              type="number"
+                              min="0"
+                              value={formData.current_mortgage_insurance_monthly ?? ''}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                  ...prev,
+                                  current_mortgage_insurance_monthly: parseFloat(e.target.value) || null
+                                }))
+                              }
+                              className="text-lg"
+                              placeholder="Optional"
+                            />
+                          </div>
+                          {formData.loan_purpose === 'cash_out_refinance' && (
+                            <div className="space-y-2">
+                              <Label htmlFor="cash_out_amount">Cash Out</Label>
+                              <Input
+                                id="cash_out_amount"
+                                type="number"
+                                value={formData.cash_out_amount ?? ''}
+                                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                  setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                    ...prev,
+                                    cash_out_amount: parseFloat(e.target.value) || null
+                                  }))
+                                }
+                                className="text-lg"
+                                required
+                              />
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        /* Loan Amount & Property Value */
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="loan_amount">Loan Amount</Label>
+                            <Input
+                              id="loan_amount"
+                              type="number"
+                              value={formData.loan_amount}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                  ...prev, 
+                                  loan_amount: parseInt(e.target.value) || 0 
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="property_value">Property Value</Label>
+                            <Input
+                              id="property_value"
+                              type="number"
+                              value={formData.property_value}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                  ...prev, 
+                                  property_value: parseInt(e.target.value) || 0 
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {/* Down Payment & Credit Score */}
+                      <div className="grid grid-cols-2 gap-4">
+                        {!isRefinance && (
+                          <div className="space-y-2">
+                            <Label htmlFor="down_payment">Down Payment</Label>
+                            <Input
+                              id="down_payment"
+                              type="number"
+                              value={formData.down_payment}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                  ...prev, 
+                                  down_payment: parseInt(e.target.value) || 0 
+                                }))
+                              }
+                              className="text-lg"
+                              required
+                            />
+                          </div>
+                        )}
+                        <div className="space-y-2">
+                          <Label htmlFor="credit_score">Credit Score</Label>
+                          <Input
+                            id="credit_score"
+                            type="number"
+                            min="300"
+                            max="850"
+                            value={formData.credit_score}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                credit_score: parseInt(e.target.value) || 0 
+                              }))
+                            }
+                            className="text-lg"
+                            required
+                          />
+                        </div>
+                      </div>
+
+                      {/* Loan Type & Term */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Loan Type</Label>
+                          <Select
+                            value={formData.loan_type}
+                            onValueChange={(value: 'conventional' | 'fha' | 'va' | 'usda' | 'jumbo') =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                loan_type: value 
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="conventional">Conventional</SelectItem>
+                              <SelectItem value="fha">FHA</SelectItem>
+                              <SelectItem value="va">VA</SelectItem>
+                              <SelectItem value="usda">USDA</SelectItem>
+                              <SelectItem value="jumbo">Jumbo</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Loan Term</Label>
+                          <Select
+                            value={formData.loan_term}
+                            onValueChange={(value: '15' | '20' | '25' | '30') =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                loan_term: value 
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="15">15 years</SelectItem>
+                              <SelectItem value="20">20 years</SelectItem>
+                              <SelectItem value="25">25 years</SelectItem>
+                              <SelectItem value="30">30 years</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      {/* Property & Occupancy Type */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label>Property Type</Label>
+                          <Select
+                            value={formData.property_type}
+                            onValueChange={(value: 'single_family' | 'condo' | 'townhouse' | 'multi_family') =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                property_type: value,
+                                number_of_units: value === 'multi_family' ? Math.max(prev.number_of_units ?? 2, 2) : 1
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="single_family">Single Family</SelectItem>
+                              <SelectItem value="condo">Condo</SelectItem>
+                              <SelectItem value="townhouse">Townhouse</SelectItem>
+                              <SelectItem value="multi_family">Multi Family</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Occupancy</Label>
+                          <Select
+                            value={formData.occupancy_type}
+                            onValueChange={(value: 'primary' | 'secondary' | 'investment') =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                occupancy_type: value 
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="primary">Primary Residence</SelectItem>
+                              <SelectItem value="secondary">Second Home</SelectItem>
+                              <SelectItem value="investment">Investment</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+
+                      {/* Number of Units */}
+                      {formData.property_type === 'multi_family' && (
+                        <div className="space-y-2">
+                          <Label>Number of Units</Label>
+                          <Select
+                            value={String(formData.number_of_units ?? 2)}
+                            onValueChange={(value: string) =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                number_of_units: parseInt(value) 
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="2">2 units</SelectItem>
+                              <SelectItem value="3">3 units</SelectItem>
+                              <SelectItem value="4">4 units</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {/* Temporary Buydown */}
+                      {!isRefinance && (
+                        <div className="space-y-2">
+                          <Label>Temporary Buydown</Label>
+                          <Select
+                            value={formData.temporary_buydown || 'none'}
+                            onValueChange={(value: string) =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                                ...prev,
+                                temporary_buydown: value === 'none' ? null : value as TemporaryBuydown
+                              }))
+                            }
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">None</SelectItem>
+                              <SelectItem value="1_0">1-0 Buydown</SelectItem>
+                              <SelectItem value="2_1">2-1 Buydown</SelectItem>
+                              <SelectItem value="3_2_1">3-2-1 Buydown</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
+                      {/* Ownership Horizon */}
+                      <div className="space-y-2">
+                        <Label htmlFor="horizon_years">Years You Expect to Keep the Loan</Label>
+                        <Input
+                          id="horizon_years"
+                          type="number"
+                          min="1"
+                          max="30"
+                          value={formData.horizon_years ?? ''}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setFormData((prev: CreateMortgageQuoteRequestInput) => ({
+                              ...prev,
+                              horizon_years: parseInt(e.target.value) || null
+                            }))
+                          }
+                          placeholder="Optional"
+                        />
+                      </div>
+
+                      {/* Income & Debts */}
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="gross_monthly_income">Gross Monthly Income</Label>
+                          <Input
+                            id="gross_monthly_income"
+                            type="number"
+                            min="0"
+                            value={formData.gross_monthly_income ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                gross_monthly_income: parseFloat(e.target.value) || null 
+                              }))
+                            }
+                            placeholder="Optional"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="monthly_debts">Monthly Debt Payments</Label>
+                          <Input
+                            id="monthly_debts"
+                            type="number"
+                            min="0"
+                            value={formData.monthly_debts ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                                ...prev, 
+                                monthly_debts: e.target.value === '' ? null : parseFloat(e.target.value) || 0 
+                              }))
+                            }
+                            placeholder="Optional"
+                          />
+                        </div>
+                      </div>
+
+                      {/* ZIP Code */}
+                      <div className="space-y-2">
+                        <Label htmlFor="zip_code">ZIP Code</Label>
+                        <Input
+                          id="zip_code"
+                          value={formData.zip_code}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
+                              ...prev, 
+                              zip_code: e.target.value 
+                            }))
+                          }
+                          placeholder="12345"
+                          pattern="\d{5}(-\d{4})?"
+                          required
+                        />
+                      </div>
+
+                      <Button 
+                        type="submit" 
+                        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-lg py-6"
+                        disabled={isLoading}
                       >
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="primary">Primary Residence</SelectItem>
-                          <SelectItem value="secondary">Second Home</SelectItem>
-                          <SelectItem value="investment">Investment</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
-
-                  {/* ZIP Code */}
-                  <div className="space-y-2">
-                    <Label htmlFor="zip_code">ZIP Code</Label>
-                    <Input
-                      id="zip_code"
-                      value={formData.zip_code}
-                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                        setFormData((prev: CreateMortgageQuoteRequestInput) => ({ 
-                          ...prev, 
-                          zip_code: e.target.value 
-                        }))
-                      }
-                      placeholder="12345"
-                      pattern="\d{5}(-\d{4})?"
-                      required
-                    />
-                  </div>
-
-                  <Button 
-                    type="submit" 
-                    className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-lg py-6"
-                    disabled={isLoading}
-                  >
-                    {isLoading ? 'Finding Rates...' : 'Get My Rates'}
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                        {isLoading ? 'Finding Rates...' : 'Get My Rates'}
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+              <TabsContent value="affordability">
+                <AffordabilityCalculator onUseOption={handleUseAffordability} />
+              </TabsContent>
+            </Tabs>
           </div>
 
           {/* Results */}
@@ -343,14 +712,32 @@ function App() {
                       <h3 className="text-2xl font-bold text-slate-900">
                         Your Mortgage Quotes
                       </h3>
-                      <Badge className="bg-green-100 text-green-800 border-green-200">
-                        {quotes.length} rates found
-                      </Badge>
+                      <div className="flex items-center gap-3">
+                        {horizonYears !== null && (
+                          <Select value={rankBy || 'apr'} onValueChange={(value: QuoteRanking) => setRankBy(value)}>
+                            <SelectTrigger className="w-48">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="apr">Lowest APR</SelectItem>
+                              <SelectItem value="horizon_cost">Lowest cost over {horizonYears} years</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        )}
+                        {shareToken && (
+                          <Button variant="outline" size="sm" onClick={handleCopyLink}>
+                            {linkCopied ? 'Link copied' : 'Copy share link'}
+                          </Button>
+                        )}
+                        <Badge className="bg-green-100 text-green-800 border-green-200">
+                          {quotes.length} rates found
+                        </Badge>
+                      </div>
                     </div>
                     
                     <div className="space-y-4">
-                      {quotes.map((quote: MortgageQuote) => (
-                        <Card key={quote.rate_id} className="shadow-lg border-0 bg-white/70 backdrop-blur-sm hover:shadow-xl transition-shadow">
+                      {rankedQuotes.map((quote: SavedQuote) => (
+                        <Card key={quote.quote_result_id} className="shadow-lg border-0 bg-white/70 backdrop-blur-sm hover:shadow-xl transition-shadow">
                           <CardHeader className="pb-4">
                             <div className="flex items-center justify-between">
                               <div className="flex items-center space-x-3">
@@ -364,8 +751,23 @@ function App() {
                                     {quote.lender_name}
                                   </h4>
                                   <p className="text-sm text-slate-600 capitalize">
-                                    {quote.loan_type.replace('_', ' ')} • {quote.loan_term} year
+                                    {quote.loan_type.replace('_', ' ')} • {quote.loan_term} year • {RATE_TYPE_LABELS[quote.rate_type]}
                                   </p>
+                                  <Badge
+                                    className={
+                                      quote.qualification.status === 'eligible'
+                                        ? 'mt-1 bg-green-100 text-green-800 border-green-200'
+                                        : quote.qualification.status === 'eligible_with_conditions'
+                                          ? 'mt-1 bg-amber-100 text-amber-800 border-amber-200'
+                                          : 'mt-1 bg-red-100 text-red-800 border-red-200'
+                                    }
+                                  >
+                                    {quote.qualification.status === 'eligible'
+                                      ? 'Eligible'
+                                      : quote.qualification.status === 'eligible_with_conditions'
+                                        ? 'Eligible with conditions'
+                                        : 'Ineligible'}
+                                  </Badge>
                                 </div>
                               </div>
                               <div className="text-right">
@@ -373,7 +775,7 @@ function App() {
                                   {formatRate(quote.interest_rate)}
                                 </div>
                                 <div className="text-sm text-slate-600">
-                                  APR {formatRate(quote.apr)}
+                                  APR {formatRate(quote.calculated_apr)}
                                 </div>
                               </div>
                             </div>
@@ -381,9 +783,12 @@ function App() {
                           <CardContent className="pt-0">
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
                               <div className="bg-slate-50 rounded-lg p-3">
-                                <div className="text-sm text-slate-600 mb-1">Monthly Payment</div>
+                                <div className="text-sm text-slate-600 mb-1">Est. Monthly (PITI)</div>
                                 <div className="text-lg font-semibold text-slate-900">
-                                  {formatCurrency(quote.monthly_payment)}
+                                  {formatCurrency(quote.piti_monthly.total)}
+                                </div>
+                                <div className="text-xs text-slate-500">
+                                  P&I {formatCurrency(quote.monthly_payment)}
                                 </div>
                               </div>
                               <div className="bg-slate-50 rounded-lg p-3">
@@ -406,16 +811,223 @@ function App() {
                               </div>
                             </div>
                             
+                            <div className="mt-4 grid grid-cols-3 md:grid-cols-6 gap-2 text-center text-xs text-slate-600">
+                              <div>
+                                <div>Principal</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.principal)}</div>
+                              </div>
+                              <div>
+                                <div>Interest</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.interest)}</div>
+                              </div>
+                              <div>
+                                <div>Taxes</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.taxes)}</div>
+                              </div>
+                              <div>
+                                <div>Insurance</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.insurance)}</div>
+                              </div>
+                              <div>
+                                <div>Mortgage Ins.</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.mortgage_insurance)}</div>
+                              </div>
+                              <div>
+                                <div>HOA</div>
+                                <div className="font-medium text-slate-900">{formatCurrency(quote.piti_monthly.hoa)}</div>
+                              </div>
+                            </div>
+
+                            {(quote.mortgage_insurance_monthly > 0 || quote.mortgage_insurance_upfront > 0) && (
+                              <div className="mt-4 text-sm text-slate-600 bg-amber-50 rounded-lg p-3">
+                                {quote.mortgage_insurance_monthly > 0 && (
+                                  <span>
+                                    Mortgage insurance {formatCurrency(quote.mortgage_insurance_monthly)}/mo{' '}
+                                    {quote.mortgage_insurance_drop_off_month
+                                      ? `until payment ${quote.mortgage_insurance_drop_off_month}`
+                                      : 'for the life of the loan'}
+                                    {' '}({formatCurrency(quote.total_mortgage_insurance)} total)
+                                  </span>
+                                )}
+                                {quote.mortgage_insurance_upfront > 0 && (
+                                  <span className="block">
+                                    Upfront {quote.loan_type === 'va' ? 'funding fee' : quote.loan_type === 'usda' ? 'guarantee fee' : 'premium'}:{' '}
+                                    {formatCurrency(quote.mortgage_insurance_upfront)}
+                                  </span>
+                                )}
+                              </div>
+                            )}
+
+                            {quote.arm_projection && (
+                              <div className="mt-4 text-sm text-slate-600 bg-blue-50 rounded-lg p-3 space-y-1">
+                                <div>
+                                  {formatCurrency(quote.arm_projection.initial_payment)}/mo for {quote.arm_projection.initial_period_years} years,
+                                  then {formatCurrency(quote.arm_projection.first_adjustment_payment)}/mo at{' '}
+                                  {formatRate(quote.arm_projection.first_adjustment_rate)} if the {quote.arm_projection.index === 'sofr' ? 'SOFR' : '1-year Treasury'} index holds
+                                </div>
+                                <div>
+                                  Worst case: {formatCurrency(quote.arm_projection.worst_case_payment)}/mo at {formatRate(quote.arm_projection.worst_case_rate)}
+                                  {' '}(margin {quote.arm_projection.margin}%, caps {quote.arm_projection.initial_cap}/{quote.arm_projection.periodic_cap}/{quote.arm_projection.lifetime_cap})
+                                </div>
+                                <div className="grid grid-cols-5 gap-2 pt-1">
+                                  {quote.arm_projection.payment_path
+                                    .slice(quote.arm_projection.initial_period_years, quote.arm_projection.initial_period_years + 5)
+                                    .map((entry: ArmPaymentPathEntry) => (
+                                      <div key={entry.year}>
+                                        <div className="text-xs text-slate-500">Year {entry.year}</div>
+                                        <div className="font-medium text-slate-900">{formatCurrency(entry.projected_payment)}</div>
+                                        <div className="text-xs text-slate-500">up to {formatCurrency(entry.worst_case_payment)}</div>
+                                      </div>
+                                    ))}
+                                </div>
+                              </div>
+                            )}
+
+                            {quote.horizon_cost && (
+                              <div className="mt-4 text-sm text-slate-600 bg-indigo-50 rounded-lg p-3 space-y-1">
+                                <div className="font-medium text-slate-900">
+                                  {formatCurrency(quote.horizon_cost.total_cost)} total cost over {quote.horizon_cost.horizon_years} years
+                                </div>
+                                <div>
+                                  {formatCurrency(quote.horizon_cost.upfront_costs)} upfront + {formatCurrency(quote.horizon_cost.interest_paid)} interest
+                                  {quote.horizon_cost.mortgage_insurance_paid > 0 && ` + ${formatCurrency(quote.horizon_cost.mortgage_insurance_paid)} mortgage insurance`}
+                                  {' '}• {formatCurrency(quote.horizon_cost.remaining_balance)} still owed
+                                </div>
+                              </div>
+                            )}
+
+                            {quote.price_options && quote.price_options.length > 1 && (
+                              <div className="mt-4 text-sm text-slate-600 bg-slate-50 rounded-lg p-3">
+                                <div className="grid grid-cols-5 gap-2 text-xs text-slate-500 pb-1">
+                                  <div>Rate</div>
+                                  <div>Points</div>
+                                  <div>Upfront</div>
+                                  <div>Payment</div>
+                                  <div>vs. Par</div>
+                                </div>
+                                {quote.price_options.map((option: QuotePriceOption) => (
+                                  <div
+                                    key={`${option.interest_rate}-${option.points}`}
+                                    className={`grid grid-cols-5 gap-2 ${option.interest_rate === quote.interest_rate && option.points === quote.points ? 'font-semibold text-slate-900' : ''}`}
+                                  >
+                                    <div>{formatRate(option.interest_rate)}</div>
+                                    <div>{option.points}</div>
+                                    <div>
+                                      {option.upfront_cost >= 0
+                                        ? formatCurrency(option.upfront_cost)
+                                        : `${formatCurrency(-option.upfront_cost)} credit`}
+                                    </div>
+                                    <div>{formatCurrency(option.monthly_payment)}/mo</div>
+                                    <div>
+                                      {option.is_par
+                                        ? 'Par'
+                                        : option.break_even_month !== null
+                                          ? `Breaks even in ${option.break_even_month} mo`
+                                          : 'Never breaks even'}
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+
+                            {quote.temporary_buydown && (
+                              <div className="mt-4 text-sm text-slate-600 bg-amber-50 rounded-lg p-3 space-y-1">
+                                <div>
+                                  {quote.temporary_buydown.type.split('_').join('-')} buydown: {formatCurrency(quote.temporary_buydown.effective_first_year_payment)}/mo
+                                  {' '}in year one, funded by a {formatCurrency(quote.temporary_buydown.subsidy_escrow)} subsidy escrow
+                                </div>
+                                <div className="grid grid-cols-4 gap-2 pt-1">
+                                  {quote.temporary_buydown.years.map((year: BuydownYear) => (
+                                    <div key={year.year}>
+                                      <div className="text-xs text-slate-500">
+                                        Year {year.year}{year.monthly_subsidy === 0 ? '+' : ''} • {formatRate(year.interest_rate)}
+                                      </div>
+                                      <div className="font-medium text-slate-900">{formatCurrency(year.monthly_payment)}</div>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            )}
+
+                            {quote.refinance && (
+                              <div className="mt-4 text-sm text-slate-600 bg-green-50 rounded-lg p-3 space-y-1">
+                                {quote.refinance.max_cash_out !== null && (
+                                  <div>
+                                    {formatCurrency(quote.refinance.cash_out)} cash out
+                                    {' '}(up to {formatCurrency(quote.refinance.max_cash_out)} available)
+                                  </div>
+                                )}
+                                <div>
+                                  {quote.refinance.monthly_savings >= 0
+                                    ? `Saves ${formatCurrency(quote.refinance.monthly_savings)}/mo`
+                                    : `Costs ${formatCurrency(-quote.refinance.monthly_savings)}/mo more`}
+                                  {' '}vs. your current {formatCurrency(quote.refinance.current_monthly_payment)}/mo principal, interest & mortgage insurance
+                                </div>
+                                <div>
+                                  {quote.refinance.break_even_month !== null
+                                    ? `Breaks even on ${formatCurrency(quote.refinance.refinance_costs)} in costs after ${quote.refinance.break_even_month} months`
+                                    : `Never recovers ${formatCurrency(quote.refinance.refinance_costs)} in costs`}
+                                </div>
+                                <div>
+                                  {quote.refinance.lifetime_interest_difference >= 0
+                                    ? `${formatCurrency(quote.refinance.lifetime_interest_difference)} less interest`
+                                    : `${formatCurrency(-quote.refinance.lifetime_interest_difference)} more interest`}
+                                  {' '}than keeping your current loan
+                                </div>
+                              </div>
+                            )}
+
+                            {quote.qualification.reasons.length > 0 && (
+                              <div className="mt-4 text-sm text-slate-600 space-y-1">
+                                {quote.qualification.back_end_dti !== null && (
+                                  <div>
+                                    DTI: {quote.qualification.front_end_dti !== null ? `${quote.qualification.front_end_dti.toFixed(1)}% / ` : ''}
+                                    {quote.qualification.back_end_dti.toFixed(1)}%
+                                  </div>
+                                )}
+                                {quote.qualification.reasons.map((reason: string) => (
+                                  <div key={reason}>• {reason}</div>
+                                ))}
+                              </div>
+                            )}
+
+                            {quote.price_adjustments.length > 0 && (
+                              <div className="mt-4 text-sm text-slate-600 bg-slate-50 rounded-lg p-3">
+                                <div className="font-medium text-slate-900 mb-1">
+                                  Price adjustments (base {formatRate(quote.base_interest_rate)}, {quote.base_points} pts)
+                                </div>
+                                {quote.price_adjustments.map((adjustment: PriceAdjustment) => (
+                                  <div key={adjustment.adjustment_id} className="flex justify-between">
+                                    <span>{adjustment.description}</span>
+                                    <span>
+                                      {adjustment.rate_adjustment >= 0 ? '+' : ''}{adjustment.rate_adjustment.toFixed(3)}% •{' '}
+                                      {adjustment.points_adjustment >= 0 ? '+' : ''}{adjustment.points_adjustment.toFixed(3)} pts
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+
                             <Separator className="my-4" />
                             
                             <div className="flex justify-between items-center">
                               <div className="text-sm text-slate-600">
                                 LTV: {quote.loan_to_value_ratio.toFixed(1)}% • 
-                                Down: {quote.down_payment_percent.toFixed(1)}%
+                                {quote.refinance ? 'Equity' : 'Down'}: {quote.down_payment_percent.toFixed(1)}%
+                              </div>
+                              <div className="flex gap-2">
+                                <Button variant="outline" onClick={() => setLockQuote(quote)}>
+                                  Lock Rate
+                                </Button>
+                                {!quote.refinance && (
+                                  <Button
+                                    onClick={() => setPrequalQuote(quote)}
+                                    className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                                  >
+                                    Get Pre-Qualified
+                                  </Button>
+                                )}
                               </div>
-                              <Button className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700">
-                                Get Pre-Qualified
-                              </Button>
                             </div>
                           </CardContent>
                         </Card>
@@ -496,6 +1108,9 @@ function App() {
           </div>
         </div>
       </main>
+
+      <RateLockDialog quote={lockQuote} shareToken={shareToken} onClose={() => setLockQuote(null)} />
+      <PrequalDialog quote={prequalQuote} shareToken={shareToken} onClose={() => setPrequalQuote(null)} />
     </div>
   );
 }
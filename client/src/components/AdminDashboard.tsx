@@ -0,0 +1,417 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoginForm } from '@/components/LoginForm';
+import { LenderDialog } from '@/components/LenderDialog';
+import { RateSheet } from '@/components/RateSheet';
+import { RateSheetImport } from '@/components/RateSheetImport';
+import { trpc } from '@/utils/trpc';
+import { useCurrentUser } from '@/utils/auth';
+import { formatDateTime } from '@/utils/dates';
+import { useCallback, useEffect, useState } from 'react';
+import type { AdminMortgageRate, Lender } from '../../../server/src/schema';
+
+export function AdminDashboard() {
+  const { user, setUser, isLoading: isUserLoading, signOut } = useCurrentUser();
+  const [lenders, setLenders] = useState<Lender[]>([]);
+  const [rates, setRates] = useState<AdminMortgageRate[]>([]);
+  const [allLenders, setAllLenders] = useState<Lender[]>([]);
+  const [lenderSearch, setLenderSearch] = useState('');
+  const [rateSearch, setRateSearch] = useState('');
+  const [rateStatus, setRateStatus] = useState<'all' | 'active' | 'inactive'>('all');
+  const [expiringRates, setExpiringRates] = useState<AdminMortgageRate[]>([]);
+  const [expiringHours, setExpiringHours] = useState(24);
+  const [lenderDialogOpen, setLenderDialogOpen] = useState(false);
+  const [editingLender, setEditingLender] = useState<Lender | null>(null);
+  const [rateSheetOpen, setRateSheetOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<AdminMortgageRate | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.role === 'platform_admin';
+
+  const loadLenders = useCallback(async () => {
+    try {
+      const search = lenderSearch.trim() || undefined;
+      setLenders(await trpc.listLenders.query({ search }));
+    } catch (error) {
+      console.error('Failed to load lenders:', error);
+    }
+  }, [lenderSearch]);
+
+  const rateStatusFilter = rateStatus === 'all' ? undefined : rateStatus === 'active';
+
+  const loadRates = useCallback(async () => {
+    try {
+      const search = rateSearch.trim() || undefined;
+      setRates(await trpc.listMortgageRates.query({ search, is_active: rateStatusFilter }));
+    } catch (error) {
+      console.error('Failed to load rates:', error);
+    }
+  }, [rateSearch, rateStatusFilter]);
+
+  const loadExpiringRates = useCallback(async () => {
+    try {
+      setExpiringRates(await trpc.getExpiringRates.query({ within_hours: expiringHours }));
+    } catch (error) {
+      console.error('Failed to load expiring rates:', error);
+    }
+  }, [expiringHours]);
+
+  // The rate sheet's lender picker lists every lender, regardless of the search
+  const loadAllLenders = useCallback(async () => {
+    try {
+      setAllLenders(await trpc.listLenders.query({}));
+    } catch (error) {
+      console.error('Failed to load lenders:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadLenders();
+    }
+  }, [isAdmin, loadLenders]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadRates();
+    }
+  }, [isAdmin, loadRates]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      loadAllLenders();
+    }
+  }, [isAdmin, loadAllLenders]);
+
+  useEffect(() => {
+    if (isAdmin && expiringHours > 0) {
+      loadExpiringRates();
+    }
+  }, [isAdmin, expiringHours, loadExpiringRates]);
+
+  const handleRatesChanged = async () => {
+    await Promise.all([loadRates(), loadExpiringRates()]);
+  };
+
+  const handleLenderSaved = async () => {
+    await Promise.all([loadLenders(), loadAllLenders(), handleRatesChanged()]);
+  };
+
+  const toggleLender = async (lender: Lender, isActive: boolean) => {
+    setError(null);
+    try {
+      await trpc.updateLender.mutate({ id: lender.id, is_active: isActive });
+      await handleLenderSaved();
+    } catch (error) {
+      console.error('Failed to update lender:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update lender');
+    }
+  };
+
+  const toggleRate = async (rate: AdminMortgageRate, isActive: boolean) => {
+    setError(null);
+    try {
+      await trpc.updateMortgageRate.mutate({ id: rate.id, is_active: isActive });
+      await handleRatesChanged();
+    } catch (error) {
+      console.error('Failed to update rate:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update rate');
+    }
+  };
+
+  // Exports cover every lender; the name search only narrows the table
+  const exportRates = async (format: 'csv' | 'json') => {
+    setError(null);
+    try {
+      const result = await trpc.exportRateSheet.query({ format, is_active: rateStatusFilter });
+      const blob = new Blob([result.content], { type: format === 'csv' ? 'text/csv' : 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export rates:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export rates');
+    }
+  };
+
+  const openLenderDialog = (lender: Lender | null) => {
+    setEditingLender(lender);
+    setLenderDialogOpen(true);
+  };
+
+  const openRateSheet = (rate: AdminMortgageRate | null) => {
+    setEditingRate(rate);
+    setRateSheetOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <header className="border-b border-slate-200 bg-white/80 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <a href="/" className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">F</span>
+              </div>
+              <h1 className="text-xl font-semibold text-slate-900">FAIRM Admin</h1>
+            </a>
+            {user && (
+              <div className="flex items-center gap-3 text-sm text-slate-600">
+                {user.name}
+                <Button variant="outline" size="sm" onClick={signOut}>Sign Out</Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {isUserLoading ? null : !user ? (
+          <LoginForm
+            title="Admin Sign In"
+            description="Manage lenders and published rates"
+            onLogin={setUser}
+          />
+        ) : !isAdmin ? (
+          <Alert>
+            <AlertDescription>The admin dashboard is only available to platform administrators.</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+            <Tabs defaultValue="lenders" className="space-y-6">
+              <TabsList>
+                <TabsTrigger value="lenders">Lenders</TabsTrigger>
+                <TabsTrigger value="rates">Rates</TabsTrigger>
+                <TabsTrigger value="expiring">Expiring</TabsTrigger>
+                <TabsTrigger value="import">Import</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="lenders">
+                <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                      <CardTitle className="text-slate-900">Lenders</CardTitle>
+                      <CardDescription>{lenders.length} lenders</CardDescription>
+                    </div>
+                    <div className="flex gap-3">
+                      <Input
+                        placeholder="Search by name"
+                        value={lenderSearch}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLenderSearch(e.target.value)}
+                        className="w-64"
+                      />
+                      <Button onClick={() => openLenderDialog(null)}>Add Lender</Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Website</TableHead>
+                          <TableHead>Phone</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Active</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {lenders.map((lender: Lender) => (
+                          <TableRow key={lender.id}>
+                            <TableCell className="font-medium">{lender.name}</TableCell>
+                            <TableCell>{lender.website_url ?? '—'}</TableCell>
+                            <TableCell>{lender.phone ?? '—'}</TableCell>
+                            <TableCell>{lender.email ?? '—'}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={lender.is_active}
+                                onCheckedChange={(checked: boolean) => toggleLender(lender, checked)}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="outline" size="sm" onClick={() => openLenderDialog(lender)}>Edit</Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="rates">
+                <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                      <CardTitle className="text-slate-900">Rates</CardTitle>
+                      <CardDescription>{rates.length} rates</CardDescription>
+                    </div>
+                    <div className="flex gap-3">
+                      <Input
+                        placeholder="Search by lender"
+                        value={rateSearch}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRateSearch(e.target.value)}
+                        className="w-64"
+                      />
+                      <Select
+                        value={rateStatus || 'all'}
+                        onValueChange={(value: 'all' | 'active' | 'inactive') => setRateStatus(value)}
+                      >
+                        <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All</SelectItem>
+                          <SelectItem value="active">Active</SelectItem>
+                          <SelectItem value="inactive">Inactive</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" onClick={() => exportRates('csv')}>Export CSV</Button>
+                      <Button variant="outline" onClick={() => exportRates('json')}>Export JSON</Button>
+                      <Button onClick={() => openRateSheet(null)} disabled={allLenders.length === 0}>Add Rate</Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Lender</TableHead>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Rate</TableHead>
+                          <TableHead>APR</TableHead>
+                          <TableHead>Points</TableHead>
+                          <TableHead>Min FICO</TableHead>
+                          <TableHead>Effective</TableHead>
+                          <TableHead>Expires</TableHead>
+                          <TableHead>Active</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rates.map((rate: AdminMortgageRate) => (
+                          <TableRow key={rate.id}>
+                            <TableCell className="font-medium">
+                              {rate.lender_name}
+                              {!rate.lender_is_active && <span className="ml-2 text-xs text-slate-500">(lender inactive)</span>}
+                            </TableCell>
+                            <TableCell className="capitalize">
+                              {rate.loan_type} {rate.loan_term}yr {rate.rate_type === 'fixed' ? 'fixed' : rate.rate_type.replace('arm_', '').replace('_', '/') + ' ARM'}
+                            </TableCell>
+                            <TableCell>{rate.interest_rate.toFixed(3)}%</TableCell>
+                            <TableCell>{rate.apr.toFixed(3)}%</TableCell>
+                            <TableCell>{rate.points}</TableCell>
+                            <TableCell>{rate.min_credit_score}</TableCell>
+                            <TableCell className="text-xs">{formatDateTime(rate.effective_at)}</TableCell>
+                            <TableCell className="text-xs">{formatDateTime(rate.expires_at)}</TableCell>
+                            <TableCell>
+                              <Switch
+                                checked={rate.is_active}
+                                onCheckedChange={(checked: boolean) => toggleRate(rate, checked)}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button variant="outline" size="sm" onClick={() => openRateSheet(rate)}>Edit</Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="expiring">
+                <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <div>
+                      <CardTitle className="text-slate-900">Expiring Rates</CardTitle>
+                      <CardDescription>
+                        {expiringRates.length} active rates expire within the next {expiringHours} hours
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-slate-600">
+                      Within
+                      <Input
+                        type="number"
+                        min="1"
+                        max="720"
+                        value={expiringHours}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExpiringHours(parseInt(e.target.value) || 0)}
+                        className="w-24"
+                      />
+                      hours
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {expiringRates.length === 0 ? (
+                      <p className="text-sm text-slate-600">No active rates expire in this window.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Expires</TableHead>
+                            <TableHead>Lender</TableHead>
+                            <TableHead>Product</TableHead>
+                            <TableHead>Rate</TableHead>
+                            <TableHead>APR</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {expiringRates.map((rate: AdminMortgageRate) => (
+                            <TableRow key={rate.id}>
+                              <TableCell className="font-medium">{formatDateTime(rate.expires_at)}</TableCell>
+                              <TableCell>{rate.lender_name}</TableCell>
+                              <TableCell className="capitalize">
+                                {rate.loan_type} {rate.loan_term}yr {rate.rate_type === 'fixed' ? 'fixed' : rate.rate_type.replace('arm_', '').replace('_', '/') + ' ARM'}
+                              </TableCell>
+                              <TableCell>{rate.interest_rate.toFixed(3)}%</TableCell>
+                              <TableCell>{rate.apr.toFixed(3)}%</TableCell>
+                              <TableCell className="text-right">
+                                <Button variant="outline" size="sm" onClick={() => openRateSheet(rate)}>Edit</Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="import">
+                <RateSheetImport lenders={allLenders} onImported={handleRatesChanged} />
+              </TabsContent>
+            </Tabs>
+
+            <LenderDialog
+              open={lenderDialogOpen}
+              lender={editingLender}
+              onOpenChange={setLenderDialogOpen}
+              onSaved={handleLenderSaved}
+            />
+            <RateSheet
+              open={rateSheetOpen}
+              rate={editingRate}
+              lenders={allLenders}
+              onOpenChange={setRateSheetOpen}
+              onSaved={handleRatesChanged}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { AffordabilityLimit, AffordabilityOption, GetAffordabilityInput, LoanType } from '../../../server/src/schema';
+
+interface AffordabilityCalculatorProps {
+  onUseOption: (option: AffordabilityOption, input: GetAffordabilityInput) => void; // Carry a result over to the quote form
+}
+
+const LIMIT_LABELS: Record<AffordabilityLimit, string> = {
+  dti: 'Limited by income',
+  down_payment: 'Limited by cash',
+  max_loan_amount: 'Limited by loan size'
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+export function AffordabilityCalculator({ onUseOption }: AffordabilityCalculatorProps) {
+  const [input, setInput] = useState<GetAffordabilityInput>({
+    gross_monthly_income: 8000,
+    monthly_debts: 500,
+    available_cash: 60000,
+    credit_score: 740,
+    zip_code: '',
+    loan_type: 'conventional'
+  });
+  const [options, setOptions] = useState<AffordabilityOption[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setOptions(await trpc.getAffordability.query(input));
+    } catch (error) {
+      console.error('Failed to calculate affordability:', error);
+      setError(error instanceof Error ? error.message : 'Failed to calculate affordability');
+      setOptions(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const numberField = (key: 'gross_monthly_income' | 'monthly_debts' | 'available_cash' | 'credit_score', label: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={`affordability-${key}`}>{label}</Label>
+      <Input
+        id={`affordability-${key}`}
+        type="number"
+        min="0"
+        value={input[key]}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          setInput((prev: GetAffordabilityInput) => ({ ...prev, [key]: parseFloat(e.target.value) || 0 }))
+        }
+        required
+      />
+    </div>
+  );
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl">How Much Can I Afford?</CardTitle>
+        <CardDescription>
+          Find your maximum home price from your income, debts and savings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {numberField('gross_monthly_income', 'Gross Monthly Income')}
+            {numberField('monthly_debts', 'Monthly Debt Payments')}
+            {numberField('available_cash', 'Cash for Down Payment & Closing')}
+            {numberField('credit_score', 'Credit Score')}
+            <div className="space-y-2">
+              <Label htmlFor="affordability-zip">ZIP Code</Label>
+              <Input
+                id="affordability-zip"
+                value={input.zip_code}
+                placeholder="90210"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setInput((prev: GetAffordabilityInput) => ({ ...prev, zip_code: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Loan Type</Label>
+              <Select
+                value={input.loan_type || 'conventional'}
+                onValueChange={(value: LoanType) => setInput((prev: GetAffordabilityInput) => ({ ...prev, loan_type: value }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="conventional">Conventional</SelectItem>
+                  <SelectItem value="fha">FHA</SelectItem>
+                  <SelectItem value="va">VA</SelectItem>
+                  <SelectItem value="usda">USDA</SelectItem>
+                  <SelectItem value="jumbo">Jumbo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button
+            type="submit"
+            className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            disabled={isLoading}
+          >
+            {isLoading ? 'Calculating...' : 'Calculate'}
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {options && options.length === 0 && (
+          <p className="text-sm text-slate-600">
+            No programs fit these numbers. Paying down debts or saving more for the down payment can help.
+          </p>
+        )}
+
+        {options && options.map((option: AffordabilityOption) => (
+          <div key={option.rate_id} className="rounded-lg border bg-white p-4 space-y-2">
+            <div className="flex justify-between items-start">
+              <div>
+                <div className="text-2xl font-bold text-slate-900">{formatCurrency(option.max_purchase_price)}</div>
+                <div className="text-sm text-slate-600">
+                  {option.lender_name} • {option.loan_term}-year • {option.interest_rate.toFixed(3)}%
+                </div>
+              </div>
+              <Badge variant="secondary">{LIMIT_LABELS[option.limited_by]}</Badge>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-sm text-slate-700">
+              <div>Loan: {formatCurrency(option.loan_amount)}</div>
+              <div>Down: {formatCurrency(option.down_payment)}</div>
+              <div>Payment: {formatCurrency(option.piti_monthly.total)}/mo</div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => onUseOption(option, input)}>
+              Get Rates at This Price
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { trpc } from '@/utils/trpc';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useEffect, useState } from 'react';
+import { createLenderInputSchema, type CreateLenderInput, type Lender } from '../../../server/src/schema';
+
+interface LenderDialogProps {
+  open: boolean;
+  lender: Lender | null; // Null to create a new lender
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const emptyLender: CreateLenderInput = {
+  name: '',
+  logo_url: null,
+  website_url: null,
+  phone: null,
+  email: null,
+  is_active: true
+};
+
+// Blank optional fields are stored as null rather than empty strings
+const nullable = (value: string): string | null => value === '' ? null : value;
+
+export function LenderDialog({ open, lender, onOpenChange, onSaved }: LenderDialogProps) {
+  const [error, setError] = useState<string | null>(null);
+  const form = useForm<CreateLenderInput>({
+    resolver: zodResolver(createLenderInputSchema),
+    defaultValues: emptyLender
+  });
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      form.reset(lender
+        ? {
+          name: lender.name,
+          logo_url: lender.logo_url,
+          website_url: lender.website_url,
+          phone: lender.phone,
+          email: lender.email,
+          is_active: lender.is_active
+        }
+        : emptyLender);
+    }
+  }, [open, lender, form]);
+
+  const onSubmit = async (values: CreateLenderInput) => {
+    try {
+      if (lender) {
+        await trpc.updateLender.mutate({ ...values, id: lender.id });
+      } else {
+        await trpc.createLender.mutate(values);
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save lender:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save lender');
+    }
+  };
+
+  const textFields = [
+    ['website_url', 'Website', 'https://example.com'],
+    ['logo_url', 'Logo URL', 'https://example.com/logo.png'],
+    ['phone', 'Phone', '555-0100'],
+    ['email', 'Email', 'rates@example.com']
+  ] as const;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{lender ? 'Edit Lender' : 'Add Lender'}</DialogTitle>
+          <DialogDescription>Lender details shown to borrowers alongside their rates</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {textFields.map(([name, label, placeholder]) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={placeholder}
+                        value={field.value ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(nullable(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Active</FormLabel>
+                </FormItem>
+              )}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
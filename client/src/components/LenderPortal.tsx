@@ -0,0 +1,596 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LoginForm } from '@/components/LoginForm';
+import { trpc } from '@/utils/trpc';
+import { useCurrentUser } from '@/utils/auth';
+import { formatDateTime, fromDateTimeInput, toDateTimeInput } from '@/utils/dates';
+import { useCallback, useEffect, useState } from 'react';
+import type { ArmIndex, CreateLenderRateInput, LoanTerm, LoanType, MortgageRate, RateLock, RatePriceOption, RateType } from '../../../server/src/schema';
+
+const emptyRate: CreateLenderRateInput = {
+  loan_type: 'conventional',
+  loan_term: '30',
+  interest_rate: 6.5,
+  apr: 6.75,
+  points: 0,
+  min_credit_score: 620,
+  max_loan_amount: 766550,
+  min_down_payment_percent: 5,
+  closing_costs: null,
+  rate_type: 'fixed',
+  price_options: [],
+  is_active: true
+};
+
+// Rate sheet fields a rep can edit after creation
+const toFormData = (rate: MortgageRate): CreateLenderRateInput => ({
+  loan_type: rate.loan_type,
+  loan_term: rate.loan_term,
+  interest_rate: rate.interest_rate,
+  apr: rate.apr,
+  points: rate.points,
+  min_credit_score: rate.min_credit_score,
+  max_loan_amount: rate.max_loan_amount,
+  min_down_payment_percent: rate.min_down_payment_percent,
+  closing_costs: rate.closing_costs,
+  rate_type: rate.rate_type,
+  arm_index: rate.arm_index,
+  arm_index_value: rate.arm_index_value,
+  arm_margin: rate.arm_margin,
+  arm_initial_cap: rate.arm_initial_cap,
+  arm_periodic_cap: rate.arm_periodic_cap,
+  arm_lifetime_cap: rate.arm_lifetime_cap,
+  effective_at: rate.effective_at,
+  expires_at: rate.expires_at,
+  price_options: rate.price_options,
+  is_active: rate.is_active
+});
+
+export function LenderPortal() {
+  const { user, setUser, isLoading: isUserLoading, signOut } = useCurrentUser();
+  const [rates, setRates] = useState<MortgageRate[]>([]);
+  const [locks, setLocks] = useState<RateLock[]>([]);
+  const [formData, setFormData] = useState<CreateLenderRateInput>(emptyRate);
+  const [editingRateId, setEditingRateId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isLenderRep = user?.role === 'lender_rep';
+
+  const loadRates = useCallback(async () => {
+    try {
+      setRates(await trpc.getLenderRates.query());
+    } catch (error) {
+      console.error('Failed to load rates:', error);
+    }
+  }, []);
+
+  const loadLocks = useCallback(async () => {
+    try {
+      setLocks(await trpc.getLenderRateLocks.query());
+    } catch (error) {
+      console.error('Failed to load rate locks:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isLenderRep) {
+      loadRates();
+      loadLocks();
+    }
+  }, [isLenderRep, loadRates, loadLocks]);
+
+  const handleLockAction = async (action: 'confirm' | 'extend' | 'cancel', lockId: number) => {
+    setError(null);
+    try {
+      if (action === 'confirm') {
+        await trpc.confirmRateLock.mutate({ id: lockId });
+      } else if (action === 'extend') {
+        await trpc.extendRateLock.mutate({ id: lockId, extension_days: 15 });
+      } else {
+        await trpc.cancelRateLock.mutate({ id: lockId });
+      }
+      await loadLocks();
+    } catch (error) {
+      console.error(`Failed to ${action} rate lock:`, error);
+      setError(error instanceof Error ? error.message : `Failed to ${action} rate lock`);
+    }
+  };
+
+  const numberField = (value: string): number | null => value === '' ? null : parseFloat(value);
+
+  const updatePriceOption = (index: number, change: Partial<RatePriceOption>) =>
+    setFormData((prev: CreateLenderRateInput) => ({
+      ...prev,
+      price_options: (prev.price_options ?? []).map((option: RatePriceOption, i: number) => i === index ? { ...option, ...change } : option)
+    }));
+
+  const resetForm = () => {
+    setFormData(emptyRate);
+    setEditingRateId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (editingRateId !== null) {
+        await trpc.updateLenderRate.mutate({ ...formData, id: editingRateId });
+      } else {
+        await trpc.createLenderRate.mutate(formData);
+      }
+      resetForm();
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to save rate:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (rateId: number) => {
+    try {
+      await trpc.deactivateLenderRate.mutate({ id: rateId });
+      await loadRates();
+    } catch (error) {
+      console.error('Failed to deactivate rate:', error);
+    }
+  };
+
+  const isArm = formData.rate_type !== undefined && formData.rate_type !== 'fixed';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
+      <header className="border-b border-slate-200 bg-white/80 backdrop-blur-sm">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <a href="/" className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-br from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">F</span>
+              </div>
+              <h1 className="text-xl font-semibold text-slate-900">FAIRM Lender Portal</h1>
+            </a>
+            {user && (
+              <div className="flex items-center gap-3 text-sm text-slate-600">
+                {user.name}
+                <Button variant="outline" size="sm" onClick={signOut}>Sign Out</Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {isUserLoading ? null : !user ? (
+          <LoginForm
+            title="Lender Sign In"
+            description="Manage your institution's rate sheet"
+            onLogin={setUser}
+          />
+        ) : !isLenderRep ? (
+          <Alert>
+            <AlertDescription>The lender portal is only available to lender representatives.</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-slate-900">{editingRateId !== null ? 'Edit Rate' : 'Add Rate'}</CardTitle>
+                <CardDescription>Rates are published to borrowers while active</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  {error && (
+                    <Alert variant="destructive">
+                      <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                  )}
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="space-y-2">
+                      <Label>Loan Type</Label>
+                      <Select
+                        value={formData.loan_type}
+                        onValueChange={(value: LoanType) => setFormData((prev: CreateLenderRateInput) => ({ ...prev, loan_type: value }))}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="conventional">Conventional</SelectItem>
+                          <SelectItem value="fha">FHA</SelectItem>
+                          <SelectItem value="va">VA</SelectItem>
+                          <SelectItem value="usda">USDA</SelectItem>
+                          <SelectItem value="jumbo">Jumbo</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Term</Label>
+                      <Select
+                        value={formData.loan_term}
+                        onValueChange={(value: LoanTerm) => setFormData((prev: CreateLenderRateInput) => ({ ...prev, loan_term: value }))}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="15">15 years</SelectItem>
+                          <SelectItem value="20">20 years</SelectItem>
+                          <SelectItem value="25">25 years</SelectItem>
+                          <SelectItem value="30">30 years</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Product</Label>
+                      <Select
+                        value={formData.rate_type ?? 'fixed'}
+                        onValueChange={(value: RateType) => setFormData((prev: CreateLenderRateInput) => ({ ...prev, rate_type: value }))}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="fixed">Fixed</SelectItem>
+                          <SelectItem value="arm_5_1">5/1 ARM</SelectItem>
+                          <SelectItem value="arm_7_1">7/1 ARM</SelectItem>
+                          <SelectItem value="arm_10_1">10/1 ARM</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="interest_rate">Rate (%)</Label>
+                      <Input
+                        id="interest_rate"
+                        type="number"
+                        step="0.001"
+                        value={formData.interest_rate}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, interest_rate: parseFloat(e.target.value) || 0 }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="apr">APR (%)</Label>
+                      <Input
+                        id="apr"
+                        type="number"
+                        step="0.001"
+                        value={formData.apr}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, apr: parseFloat(e.target.value) || 0 }))
+                        }
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="points">Points</Label>
+                      <Input
+                        id="points"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.points}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, points: parseFloat(e.target.value) || 0 }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="min_credit_score">Min Credit Score</Label>
+                      <Input
+                        id="min_credit_score"
+                        type="number"
+                        min="300"
+                        max="850"
+                        value={formData.min_credit_score}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, min_credit_score: parseInt(e.target.value) || 300 }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="max_loan_amount">Max Loan Amount</Label>
+                      <Input
+                        id="max_loan_amount"
+                        type="number"
+                        value={formData.max_loan_amount}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, max_loan_amount: parseFloat(e.target.value) || 0 }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="min_down_payment_percent">Min Down (%)</Label>
+                      <Input
+                        id="min_down_payment_percent"
+                        type="number"
+                        step="0.01"
+                        value={formData.min_down_payment_percent}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, min_down_payment_percent: parseFloat(e.target.value) || 0 }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="closing_costs">Closing Costs</Label>
+                      <Input
+                        id="closing_costs"
+                        type="number"
+                        value={formData.closing_costs ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, closing_costs: numberField(e.target.value) }))
+                        }
+                        placeholder="Optional"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="effective_at">Effective</Label>
+                      <Input
+                        id="effective_at"
+                        type="datetime-local"
+                        value={toDateTimeInput(formData.effective_at)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, effective_at: fromDateTimeInput(e.target.value) ?? undefined }))
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="expires_at">Expires</Label>
+                      <Input
+                        id="expires_at"
+                        type="datetime-local"
+                        value={toDateTimeInput(formData.expires_at)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setFormData((prev: CreateLenderRateInput) => ({ ...prev, expires_at: fromDateTimeInput(e.target.value) }))
+                        }
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    Leave Effective blank to publish immediately, or set tomorrow's date to schedule a rate sheet in advance.
+                  </p>
+
+                  {isArm && (
+                    <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+                      <div className="space-y-2">
+                        <Label>Index</Label>
+                        <Select
+                          value={formData.arm_index ?? ''}
+                          onValueChange={(value: ArmIndex) => setFormData((prev: CreateLenderRateInput) => ({ ...prev, arm_index: value }))}
+                        >
+                          <SelectTrigger><SelectValue placeholder="Select" /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="sofr">SOFR</SelectItem>
+                            <SelectItem value="treasury_1y">1-Year Treasury</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {([
+                        ['arm_index_value', 'Index Value (%)'],
+                        ['arm_margin', 'Margin (%)'],
+                        ['arm_initial_cap', 'Initial Cap'],
+                        ['arm_periodic_cap', 'Periodic Cap'],
+                        ['arm_lifetime_cap', 'Lifetime Cap']
+                      ] as const).map(([field, label]) => (
+                        <div key={field} className="space-y-2">
+                          <Label htmlFor={field}>{label}</Label>
+                          <Input
+                            id={field}
+                            type="number"
+                            step="0.001"
+                            value={formData[field] ?? ''}
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                              setFormData((prev: CreateLenderRateInput) => ({ ...prev, [field]: numberField(e.target.value) }))
+                            }
+                            required
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Other Price Options</Label>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          setFormData((prev: CreateLenderRateInput) => ({
+                            ...prev,
+                            price_options: [...(prev.price_options ?? []), { interest_rate: prev.interest_rate, points: 0 }]
+                          }))
+                        }
+                      >
+                        Add Option
+                      </Button>
+                    </div>
+                    {(formData.price_options ?? []).map((option: RatePriceOption, index: number) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-4 items-center">
+                        <Input
+                          type="number"
+                          step="0.001"
+                          aria-label="Option rate (%)"
+                          value={option.interest_rate}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePriceOption(index, { interest_rate: parseFloat(e.target.value) || 0 })}
+                          required
+                        />
+                        <Input
+                          type="number"
+                          step="0.125"
+                          aria-label="Option points"
+                          value={option.points}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => updatePriceOption(index, { points: parseFloat(e.target.value) || 0 })}
+                          required
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            setFormData((prev: CreateLenderRateInput) => ({
+                              ...prev,
+                              price_options: (prev.price_options ?? []).filter((_: RatePriceOption, i: number) => i !== index)
+                            }))
+                          }
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-slate-500">
+                      Rate and points pairs borrowers can choose instead of the rate above. Use negative points for a lender credit.
+                    </p>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <Button
+                      type="submit"
+                      disabled={isSaving}
+                      className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                    >
+                      {isSaving ? 'Saving...' : editingRateId !== null ? 'Save Changes' : 'Add Rate'}
+                    </Button>
+                    {editingRateId !== null && (
+                      <Button type="button" variant="outline" onClick={resetForm}>Cancel</Button>
+                    )}
+                  </div>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-slate-900">Your Rates</CardTitle>
+                <CardDescription>{rates.length} rates on your sheet</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {rates.length === 0 ? (
+                  <p className="text-sm text-slate-600">No rates yet. Add your first rate above.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>APR</TableHead>
+                        <TableHead>Points</TableHead>
+                        <TableHead>Min FICO</TableHead>
+                        <TableHead>Window</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rates.map((rate: MortgageRate) => (
+                        <TableRow key={rate.id}>
+                          <TableCell className="capitalize">
+                            {rate.loan_type} {rate.loan_term}yr {rate.rate_type === 'fixed' ? 'fixed' : rate.rate_type.replace('arm_', '').replace('_', '/') + ' ARM'}
+                          </TableCell>
+                          <TableCell>{rate.interest_rate.toFixed(3)}%</TableCell>
+                          <TableCell>{rate.apr.toFixed(3)}%</TableCell>
+                          <TableCell>{rate.points}</TableCell>
+                          <TableCell>{rate.min_credit_score}</TableCell>
+                          <TableCell className="text-xs text-slate-600">
+                            {formatDateTime(rate.effective_at)} – {rate.expires_at ? formatDateTime(rate.expires_at) : 'open'}
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={rate.is_active ? 'bg-green-100 text-green-800 border-green-200' : 'bg-slate-100 text-slate-600 border-slate-200'}>
+                              {rate.is_active ? 'Active' : 'Inactive'}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                setFormData(toFormData(rate));
+                                setEditingRateId(rate.id);
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            {rate.is_active && (
+                              <Button variant="outline" size="sm" onClick={() => handleDeactivate(rate.id)}>
+                                Deactivate
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-slate-900">Rate Locks</CardTitle>
+                <CardDescription>Borrower lock requests on your quotes; pricing is fixed when requested</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {locks.length === 0 ? (
+                  <p className="text-sm text-slate-600">No rate locks yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Loan</TableHead>
+                        <TableHead>Rate</TableHead>
+                        <TableHead>Points</TableHead>
+                        <TableHead>Period</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {locks.map((lock: RateLock) => (
+                        <TableRow key={lock.id}>
+                          <TableCell className="text-xs">{formatDateTime(lock.created_at)}</TableCell>
+                          <TableCell className="capitalize">{lock.loan_type} {lock.loan_term}yr</TableCell>
+                          <TableCell>${lock.loan_amount.toLocaleString()}</TableCell>
+                          <TableCell>{lock.interest_rate.toFixed(3)}%</TableCell>
+                          <TableCell>{lock.points}</TableCell>
+                          <TableCell>{lock.lock_period} days</TableCell>
+                          <TableCell className="capitalize">{lock.status}</TableCell>
+                          <TableCell className="text-xs">{formatDateTime(lock.expires_at)}</TableCell>
+                          <TableCell className="text-right space-x-2">
+                            {lock.status === 'requested' && (
+                              <Button variant="outline" size="sm" onClick={() => handleLockAction('confirm', lock.id)}>
+                                Confirm
+                              </Button>
+                            )}
+                            {(lock.status === 'locked' || lock.status === 'extended') && (
+                              <Button variant="outline" size="sm" onClick={() => handleLockAction('extend', lock.id)}>
+                                Extend 15 Days
+                              </Button>
+                            )}
+                            {(lock.status === 'requested' || lock.status === 'locked' || lock.status === 'extended') && (
+                              <Button variant="outline" size="sm" onClick={() => handleLockAction('cancel', lock.id)}>
+                                Cancel
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AUTH_TOKEN_STORAGE_KEY, trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { User } from '../../../server/src/schema';
+
+interface LoginFormProps {
+  title: string;
+  description: string;
+  onLogin: (user: User) => void;
+  allowRegister?: boolean; // Offer borrower sign up alongside sign in
+}
+
+export function LoginForm({ title, description, onLogin, allowRegister = false }: LoginFormProps) {
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const session = isRegistering
+        ? await trpc.register.mutate({ email, password, name })
+        : await trpc.login.mutate({ email, password });
+      localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, session.token);
+      onLogin(session.user);
+    } catch (error) {
+      console.error(isRegistering ? 'Registration failed:' : 'Login failed:', error);
+      setError(isRegistering
+        ? (error instanceof Error ? error.message : 'Registration failed')
+        : 'Invalid email or password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="max-w-md mx-auto shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-2xl text-slate-900">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+          {isRegistering && (
+            <div className="space-y-2">
+              <Label htmlFor="login_name">Name</Label>
+              <Input
+                id="login_name"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="login_email">Email</Label>
+            <Input
+              id="login_email"
+              type="email"
+              value={email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="login_password">Password</Label>
+            <Input
+              id="login_password"
+              type="password"
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              minLength={isRegistering ? 8 : undefined}
+              required
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={isLoading}
+            className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          >
+            {isLoading
+              ? (isRegistering ? 'Creating account...' : 'Signing in...')
+              : (isRegistering ? 'Create Account' : 'Sign In')}
+          </Button>
+          {allowRegister && (
+            <Button
+              type="button"
+              variant="link"
+              className="w-full"
+              onClick={() => {
+                setIsRegistering(!isRegistering);
+                setError(null);
+              }}
+            >
+              {isRegistering ? 'Already have an account? Sign in' : 'New here? Create an account'}
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,440 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoginForm } from '@/components/LoginForm';
+import { trpc } from '@/utils/trpc';
+import { useCurrentUser } from '@/utils/auth';
+import { formatDateTime } from '@/utils/dates';
+import { useEffect, useState } from 'react';
+import type {
+  AssetType,
+  IncomeType,
+  LiabilityType,
+  PrequalApplication,
+  PrequalAsset,
+  PrequalEmployment,
+  PrequalIncome,
+  PrequalLiability,
+  QualificationStatus,
+  SavedQuote
+} from '../../../server/src/schema';
+
+interface PrequalDialogProps {
+  quote: SavedQuote | null; // Dialog is closed while null
+  shareToken: string | null; // Share token of the saved quotes the quote belongs to
+  onClose: () => void;
+}
+
+const STEPS = ['Contact', 'Employment', 'Income', 'Assets', 'Liabilities'] as const;
+
+const INCOME_TYPE_LABELS: Record<IncomeType, string> = {
+  salary: 'Salary',
+  hourly: 'Hourly wages',
+  self_employment: 'Self-employment',
+  bonus_commission: 'Bonus / commission',
+  rental: 'Rental',
+  retirement: 'Retirement / pension',
+  other: 'Other'
+};
+
+const ASSET_TYPE_LABELS: Record<AssetType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  retirement: 'Retirement account',
+  investment: 'Investments',
+  gift: 'Gift funds',
+  other: 'Other'
+};
+
+const LIABILITY_TYPE_LABELS: Record<LiabilityType, string> = {
+  credit_card: 'Credit card',
+  auto_loan: 'Auto loan',
+  student_loan: 'Student loan',
+  personal_loan: 'Personal loan',
+  child_support: 'Child support / alimony',
+  other: 'Other'
+};
+
+const STATUS_LABELS: Record<QualificationStatus, string> = {
+  eligible: 'Pre-qualified',
+  eligible_with_conditions: 'Pre-qualified with conditions',
+  ineligible: 'Not pre-qualified'
+};
+
+const NEW_EMPLOYMENT: PrequalEmployment = { employer_name: '', job_title: null, years_employed: 0, is_current: true, is_self_employed: false };
+const NEW_INCOME: PrequalIncome = { income_type: 'salary', description: null, monthly_amount: 0 };
+const NEW_ASSET: PrequalAsset = { asset_type: 'checking', institution: null, balance: 0 };
+const NEW_LIABILITY: PrequalLiability = { liability_type: 'credit_card', creditor: null, monthly_payment: 0, balance: 0 };
+
+const updateAt = <T,>(rows: T[], index: number, changes: Partial<T>): T[] =>
+  rows.map((row, i) => (i === index ? { ...row, ...changes } : row));
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+export function PrequalDialog({ quote, shareToken, onClose }: PrequalDialogProps) {
+  const { user, setUser, isLoading: isUserLoading } = useCurrentUser();
+  const [step, setStep] = useState(0);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [employments, setEmployments] = useState<PrequalEmployment[]>([NEW_EMPLOYMENT]);
+  const [incomes, setIncomes] = useState<PrequalIncome[]>([NEW_INCOME]);
+  const [assets, setAssets] = useState<PrequalAsset[]>([NEW_ASSET]);
+  const [liabilities, setLiabilities] = useState<PrequalLiability[]>([]);
+  const [application, setApplication] = useState<PrequalApplication | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (quote) {
+      setStep(0);
+      setApplication(null);
+      setError(null);
+    }
+  }, [quote]);
+
+  // Start contact info from the signed-in account
+  useEffect(() => {
+    if (user) {
+      const [first, ...rest] = user.name.split(' ');
+      setFirstName((prev: string) => prev || first);
+      setLastName((prev: string) => prev || rest.join(' '));
+      setEmail((prev: string) => prev || user.email);
+    }
+  }, [user]);
+
+  const handleSubmit = async () => {
+    if (!quote || !shareToken) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setApplication(await trpc.submitPrequalApplication.mutate({
+        share_token: shareToken,
+        quote_result_id: quote.quote_result_id,
+        first_name: firstName,
+        last_name: lastName,
+        email,
+        phone: phone || null,
+        employments,
+        incomes,
+        assets,
+        liabilities
+      }));
+    } catch (error) {
+      console.error('Failed to submit pre-qualification:', error);
+      setError(error instanceof Error ? error.message : 'Failed to submit pre-qualification');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownloadLetter = async () => {
+    if (!application) return;
+
+    try {
+      const pdf = await trpc.getPrequalLetterPdf.query({ application_id: application.id });
+      const bytes = Uint8Array.from(atob(pdf.content), (char: string) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: pdf.content_type }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = pdf.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download letter:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download letter');
+    }
+  };
+
+  const canContinue = step !== 0 || (firstName.trim() !== '' && lastName.trim() !== '' && email.trim() !== '');
+
+  const renderStep = () => {
+    switch (STEPS[step]) {
+      case 'Contact':
+        return (
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="prequal-first-name">First Name</Label>
+              <Input id="prequal-first-name" value={firstName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFirstName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prequal-last-name">Last Name</Label>
+              <Input id="prequal-last-name" value={lastName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setLastName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prequal-email">Email</Label>
+              <Input id="prequal-email" type="email" value={email} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prequal-phone">Phone (Optional)</Label>
+              <Input id="prequal-phone" type="tel" value={phone} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPhone(e.target.value)} />
+            </div>
+          </div>
+        );
+      case 'Employment':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">List the last two years of employment. Leave this empty if you are retired or not employed.</p>
+            {employments.map((employment, index) => (
+              <div key={index} className="grid grid-cols-2 gap-3 rounded-md border p-3">
+                <Input
+                  placeholder="Employer"
+                  value={employment.employer_name}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setEmployments(updateAt(employments, index, { employer_name: e.target.value }))
+                  }
+                />
+                <Input
+                  placeholder="Job title"
+                  value={employment.job_title ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setEmployments(updateAt(employments, index, { job_title: e.target.value || null }))
+                  }
+                />
+                <div className="space-y-1">
+                  <Label className="text-xs">Years in position</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={employment.years_employed}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setEmployments(updateAt(employments, index, { years_employed: parseFloat(e.target.value) || 0 }))
+                    }
+                  />
+                </div>
+                <div className="flex flex-col justify-end gap-2 text-sm">
+                  <label className="flex items-center gap-2">
+                    <Switch
+                      checked={employment.is_current}
+                      onCheckedChange={(checked: boolean) => setEmployments(updateAt(employments, index, { is_current: checked }))}
+                    />
+                    Current job
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <Switch
+                      checked={employment.is_self_employed}
+                      onCheckedChange={(checked: boolean) => setEmployments(updateAt(employments, index, { is_self_employed: checked }))}
+                    />
+                    Self-employed
+                  </label>
+                </div>
+                <Button variant="ghost" size="sm" className="col-span-2" onClick={() => setEmployments(employments.filter((_, i) => i !== index))}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setEmployments([...employments, NEW_EMPLOYMENT])}>Add Employer</Button>
+          </div>
+        );
+      case 'Income':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">Gross monthly income before taxes.</p>
+            {incomes.map((income, index) => (
+              <div key={index} className="grid grid-cols-3 gap-3 items-center">
+                <Select
+                  value={income.income_type || 'salary'}
+                  onValueChange={(value: IncomeType) => setIncomes(updateAt(incomes, index, { income_type: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INCOME_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Monthly amount"
+                  value={income.monthly_amount || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setIncomes(updateAt(incomes, index, { monthly_amount: parseFloat(e.target.value) || 0 }))
+                  }
+                />
+                <Button variant="ghost" size="sm" disabled={incomes.length === 1} onClick={() => setIncomes(incomes.filter((_, i) => i !== index))}>
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setIncomes([...incomes, NEW_INCOME])}>Add Income</Button>
+          </div>
+        );
+      case 'Assets':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">Accounts you can use for the down payment and closing costs.</p>
+            {assets.map((asset, index) => (
+              <div key={index} className="grid grid-cols-4 gap-3 items-center">
+                <Select
+                  value={asset.asset_type || 'checking'}
+                  onValueChange={(value: AssetType) => setAssets(updateAt(assets, index, { asset_type: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ASSET_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Institution"
+                  value={asset.institution ?? ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAssets(updateAt(assets, index, { institution: e.target.value || null }))
+                  }
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Balance"
+                  value={asset.balance || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setAssets(updateAt(assets, index, { balance: parseFloat(e.target.value) || 0 }))
+                  }
+                />
+                <Button variant="ghost" size="sm" onClick={() => setAssets(assets.filter((_, i) => i !== index))}>Remove</Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setAssets([...assets, NEW_ASSET])}>Add Account</Button>
+          </div>
+        );
+      case 'Liabilities':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">Monthly debt payments such as cards, car and student loans. Leave empty if you have none.</p>
+            {liabilities.map((liability, index) => (
+              <div key={index} className="grid grid-cols-4 gap-3 items-center">
+                <Select
+                  value={liability.liability_type || 'credit_card'}
+                  onValueChange={(value: LiabilityType) => setLiabilities(updateAt(liabilities, index, { liability_type: value }))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(LIABILITY_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Monthly payment"
+                  value={liability.monthly_payment || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setLiabilities(updateAt(liabilities, index, { monthly_payment: parseFloat(e.target.value) || 0 }))
+                  }
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Balance"
+                  value={liability.balance || ''}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setLiabilities(updateAt(liabilities, index, { balance: parseFloat(e.target.value) || 0 }))
+                  }
+                />
+                <Button variant="ghost" size="sm" onClick={() => setLiabilities(liabilities.filter((_, i) => i !== index))}>Remove</Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setLiabilities([...liabilities, NEW_LIABILITY])}>Add Debt</Button>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={quote !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Get Pre-Qualified</DialogTitle>
+          {quote && (
+            <DialogDescription>
+              {quote.lender_name} • {quote.interest_rate.toFixed(3)}% {quote.loan_term}-year {quote.loan_type.toUpperCase()}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isUserLoading ? null : !user ? (
+          <LoginForm
+            title="Sign in to apply"
+            description="A free account keeps your application and letter"
+            onLogin={setUser}
+            allowRegister
+          />
+        ) : application ? (
+          <div className="space-y-3 text-sm text-slate-700">
+            <div className="flex items-center gap-2">
+              Result: <Badge variant={application.status === 'ineligible' ? 'destructive' : 'default'}>{STATUS_LABELS[application.status]}</Badge>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>Front-end DTI: {application.front_end_dti !== null ? `${application.front_end_dti.toFixed(2)}%` : 'N/A'}</div>
+              <div>Back-end DTI: {application.back_end_dti !== null ? `${application.back_end_dti.toFixed(2)}%` : 'N/A'}</div>
+              <div>LTV: {application.loan_to_value_ratio.toFixed(2)}%</div>
+            </div>
+            {application.reasons.length > 0 && (
+              <ul className="list-disc pl-5 text-slate-600">
+                {application.reasons.map((reason: string) => <li key={reason}>{reason}</li>)}
+              </ul>
+            )}
+            {application.letter && (
+              <div className="rounded-md border bg-green-50 p-3">
+                <p className="font-semibold">
+                  {application.letter.lender_name} pre-qualification for {formatCurrency(application.letter.loan_amount)} on
+                  a {formatCurrency(application.letter.purchase_price)} purchase
+                </p>
+                <p>Valid until {formatDateTime(application.letter.expires_at)}</p>
+              </div>
+            )}
+            <DialogFooter>
+              {application.letter && (
+                <Button variant="outline" onClick={handleDownloadLetter}>Download Letter (PDF)</Button>
+              )}
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="text-sm font-medium text-slate-500">
+              Step {step + 1} of {STEPS.length}: {STEPS[step]}
+            </div>
+            {renderStep()}
+            <DialogFooter>
+              {step > 0 ? (
+                <Button variant="outline" onClick={() => setStep(step - 1)}>Back</Button>
+              ) : (
+                <Button variant="outline" onClick={onClose}>Close</Button>
+              )}
+              {step < STEPS.length - 1 ? (
+                <Button onClick={() => setStep(step + 1)} disabled={!canContinue}>Next</Button>
+              ) : (
+                <Button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                  className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                >
+                  {isSubmitting ? 'Submitting...' : 'Submit Application'}
+                </Button>
+              )}
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
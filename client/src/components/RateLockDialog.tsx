@@ -0,0 +1,146 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { LoginForm } from '@/components/LoginForm';
+import { trpc } from '@/utils/trpc';
+import { useCurrentUser } from '@/utils/auth';
+import { formatDateTime } from '@/utils/dates';
+import { useEffect, useState } from 'react';
+import type { RateLock, RateLockPeriod, SavedQuote } from '../../../server/src/schema';
+
+interface RateLockDialogProps {
+  quote: SavedQuote | null; // Dialog is closed while null
+  shareToken: string | null; // Share token of the saved quotes the quote belongs to
+  onClose: () => void;
+}
+
+const RATE_LOCK_STATUS_LABELS: Record<RateLock['status'], string> = {
+  requested: 'Requested',
+  locked: 'Locked',
+  extended: 'Extended',
+  expired: 'Expired',
+  cancelled: 'Cancelled'
+};
+
+export function RateLockDialog({ quote, shareToken, onClose }: RateLockDialogProps) {
+  const { user, setUser, isLoading: isUserLoading } = useCurrentUser();
+  const [lockPeriod, setLockPeriod] = useState<RateLockPeriod>('30');
+  const [lock, setLock] = useState<RateLock | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (quote) {
+      setLock(null);
+      setError(null);
+    }
+  }, [quote]);
+
+  const handleRequest = async () => {
+    if (!quote || !shareToken) return;
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      setLock(await trpc.requestRateLock.mutate({
+        share_token: shareToken,
+        quote_result_id: quote.quote_result_id,
+        lock_period: lockPeriod
+      }));
+    } catch (error) {
+      console.error('Failed to request rate lock:', error);
+      setError(error instanceof Error ? error.message : 'Failed to request rate lock');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!lock) return;
+
+    try {
+      setLock(await trpc.cancelRateLock.mutate({ id: lock.id }));
+    } catch (error) {
+      console.error('Failed to cancel rate lock:', error);
+      setError(error instanceof Error ? error.message : 'Failed to cancel rate lock');
+    }
+  };
+
+  return (
+    <Dialog open={quote !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Lock This Rate</DialogTitle>
+          {quote && (
+            <DialogDescription>
+              {quote.lender_name} • {quote.interest_rate.toFixed(3)}% with {quote.points} points
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isUserLoading ? null : !user ? (
+          <LoginForm
+            title="Sign in to lock"
+            description="A free account keeps track of your rate locks"
+            onLogin={setUser}
+            allowRegister
+          />
+        ) : lock ? (
+          <div className="space-y-3 text-sm text-slate-700">
+            <div className="flex items-center gap-2">
+              Status: <Badge>{RATE_LOCK_STATUS_LABELS[lock.status]}</Badge>
+            </div>
+            <p>
+              Your {lock.lock_period}-day lock at {lock.interest_rate.toFixed(3)}% and {lock.points} points has been
+              sent to {lock.lender_name}. The lock period starts when the lender confirms it.
+            </p>
+            {lock.expires_at && <p>Expires {formatDateTime(lock.expires_at)}</p>}
+            <DialogFooter>
+              {lock.status !== 'cancelled' && lock.status !== 'expired' && (
+                <Button variant="outline" onClick={handleCancel}>Cancel Lock</Button>
+              )}
+              <Button onClick={onClose}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Lock Period</Label>
+              <Select value={lockPeriod || '30'} onValueChange={(value: RateLockPeriod) => setLockPeriod(value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 days</SelectItem>
+                  <SelectItem value="45">45 days</SelectItem>
+                  <SelectItem value="60">60 days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-slate-600">
+              The rate, points and price adjustments shown on this quote are held for the lock period,
+              even if the lender's rate sheet changes.
+            </p>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button
+                onClick={handleRequest}
+                disabled={isSubmitting}
+                className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {isSubmitting ? 'Requesting...' : 'Request Lock'}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,384 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { trpc } from '@/utils/trpc';
+import { fromDateTimeInput, toDateTimeInput } from '@/utils/dates';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm, type FieldPath } from 'react-hook-form';
+import { useEffect, useState } from 'react';
+import {
+  createMortgageRateInputSchema,
+  type AdminMortgageRate,
+  type CreateMortgageRateInput,
+  type Lender,
+  type RatePriceOption
+} from '../../../server/src/schema';
+
+interface RateSheetProps {
+  open: boolean;
+  rate: AdminMortgageRate | null; // Null to create a new rate
+  lenders: Lender[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const emptyRate = (lenderId: number): CreateMortgageRateInput => ({
+  lender_id: lenderId,
+  loan_type: 'conventional',
+  loan_term: '30',
+  interest_rate: 6.5,
+  apr: 6.75,
+  points: 0,
+  min_credit_score: 620,
+  max_loan_amount: 766550,
+  min_down_payment_percent: 5,
+  closing_costs: null,
+  max_units: 4,
+  rate_type: 'fixed',
+  arm_index: null,
+  arm_index_value: null,
+  arm_margin: null,
+  arm_initial_cap: null,
+  arm_periodic_cap: null,
+  arm_lifetime_cap: null,
+  price_options: [],
+  is_active: true
+});
+
+const toFormValues = (rate: AdminMortgageRate): CreateMortgageRateInput => ({
+  lender_id: rate.lender_id,
+  loan_type: rate.loan_type,
+  loan_term: rate.loan_term,
+  interest_rate: rate.interest_rate,
+  apr: rate.apr,
+  points: rate.points,
+  min_credit_score: rate.min_credit_score,
+  max_loan_amount: rate.max_loan_amount,
+  min_down_payment_percent: rate.min_down_payment_percent,
+  closing_costs: rate.closing_costs,
+  max_units: rate.max_units,
+  rate_type: rate.rate_type,
+  arm_index: rate.arm_index,
+  arm_index_value: rate.arm_index_value,
+  arm_margin: rate.arm_margin,
+  arm_initial_cap: rate.arm_initial_cap,
+  arm_periodic_cap: rate.arm_periodic_cap,
+  arm_lifetime_cap: rate.arm_lifetime_cap,
+  effective_at: rate.effective_at,
+  expires_at: rate.expires_at,
+  price_options: rate.price_options,
+  is_active: rate.is_active
+});
+
+type NumberField = Extract<FieldPath<CreateMortgageRateInput>,
+  'interest_rate' | 'apr' | 'points' | 'min_credit_score' | 'max_loan_amount' | 'min_down_payment_percent' |
+  'closing_costs' | 'max_units' | 'arm_index_value' | 'arm_margin' | 'arm_initial_cap' | 'arm_periodic_cap' | 'arm_lifetime_cap'>;
+
+const pricingFields: [NumberField, string][] = [
+  ['interest_rate', 'Rate (%)'],
+  ['apr', 'APR (%)'],
+  ['points', 'Points'],
+  ['closing_costs', 'Closing Costs'],
+  ['min_credit_score', 'Min Credit Score'],
+  ['max_loan_amount', 'Max Loan Amount'],
+  ['min_down_payment_percent', 'Min Down (%)'],
+  ['max_units', 'Max Units']
+];
+
+const armFields: [NumberField, string][] = [
+  ['arm_index_value', 'Index Value (%)'],
+  ['arm_margin', 'Margin (%)'],
+  ['arm_initial_cap', 'Initial Cap'],
+  ['arm_periodic_cap', 'Periodic Cap'],
+  ['arm_lifetime_cap', 'Lifetime Cap']
+];
+
+export function RateSheet({ open, rate, lenders, onOpenChange, onSaved }: RateSheetProps) {
+  const [error, setError] = useState<string | null>(null);
+  const form = useForm<CreateMortgageRateInput>({
+    resolver: zodResolver(createMortgageRateInputSchema),
+    defaultValues: emptyRate(lenders[0]?.id ?? 0)
+  });
+
+  useEffect(() => {
+    if (open) {
+      setError(null);
+      form.reset(rate ? toFormValues(rate) : emptyRate(lenders[0]?.id ?? 0));
+    }
+  }, [open, rate, lenders, form]);
+
+  const onSubmit = async (values: CreateMortgageRateInput) => {
+    try {
+      if (rate) {
+        await trpc.updateMortgageRate.mutate({ ...values, id: rate.id });
+      } else {
+        await trpc.createMortgageRate.mutate(values);
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save rate:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save rate');
+    }
+  };
+
+  const isArm = form.watch('rate_type') !== 'fixed';
+
+  const renderNumberField = ([name, label]: [NumberField, string]) => (
+    <FormField
+      key={name}
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step="any"
+              value={field.value ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                field.onChange(e.target.value === '' ? null : e.target.valueAsNumber)
+              }
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{rate ? 'Edit Rate' : 'Add Rate'}</SheetTitle>
+          <SheetDescription>
+            {rate ? `${rate.lender_name} rate #${rate.id}` : 'Publish a new rate for a lender'}
+          </SheetDescription>
+        </SheetHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 px-4">
+            <FormField
+              control={form.control}
+              name="lender_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lender</FormLabel>
+                  <Select value={field.value ? field.value.toString() : ''} onValueChange={(value: string) => field.onChange(parseInt(value))}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue placeholder="Select lender" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {lenders.map((lender: Lender) => (
+                        <SelectItem key={lender.id} value={lender.id.toString()}>{lender.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="loan_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Loan Type</FormLabel>
+                    <Select value={field.value || 'conventional'} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="conventional">Conventional</SelectItem>
+                        <SelectItem value="fha">FHA</SelectItem>
+                        <SelectItem value="va">VA</SelectItem>
+                        <SelectItem value="usda">USDA</SelectItem>
+                        <SelectItem value="jumbo">Jumbo</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="loan_term"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Term</FormLabel>
+                    <Select value={field.value || '30'} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="15">15 years</SelectItem>
+                        <SelectItem value="20">20 years</SelectItem>
+                        <SelectItem value="25">25 years</SelectItem>
+                        <SelectItem value="30">30 years</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rate_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Product</FormLabel>
+                    <Select value={field.value ?? 'fixed'} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="fixed">Fixed</SelectItem>
+                        <SelectItem value="arm_5_1">5/1 ARM</SelectItem>
+                        <SelectItem value="arm_7_1">7/1 ARM</SelectItem>
+                        <SelectItem value="arm_10_1">10/1 ARM</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {pricingFields.map(renderNumberField)}
+            </div>
+            {isArm && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="arm_index"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Index</FormLabel>
+                      <Select value={field.value ?? ''} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Select index" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="sofr">SOFR</SelectItem>
+                          <SelectItem value="treasury_1y">1-Year Treasury</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                {armFields.map(renderNumberField)}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="effective_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        value={toDateTimeInput(field.value)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(fromDateTimeInput(e.target.value) ?? undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expires_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        value={toDateTimeInput(field.value)}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => field.onChange(fromDateTimeInput(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="price_options"
+              render={({ field }) => {
+                const options: RatePriceOption[] = field.value ?? [];
+                const update = (index: number, change: Partial<RatePriceOption>) =>
+                  field.onChange(options.map((option: RatePriceOption, i: number) => i === index ? { ...option, ...change } : option));
+                return (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Other Price Options</FormLabel>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => field.onChange([...options, { interest_rate: form.getValues('interest_rate'), points: 0 }])}
+                      >
+                        Add Option
+                      </Button>
+                    </div>
+                    {options.map((option: RatePriceOption, index: number) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center">
+                        <Input
+                          type="number"
+                          step="any"
+                          aria-label="Option rate (%)"
+                          value={option.interest_rate}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update(index, { interest_rate: e.target.valueAsNumber || 0 })}
+                        />
+                        <Input
+                          type="number"
+                          step="any"
+                          aria-label="Option points"
+                          value={option.points}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => update(index, { points: e.target.valueAsNumber || 0 })}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => field.onChange(options.filter((_: RatePriceOption, i: number) => i !== index))}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                    <FormMessage />
+                  </FormItem>
+                );
+              }}
+            />
+            <FormField
+              control={form.control}
+              name="is_active"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3">
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel>Active</FormLabel>
+                </FormItem>
+              )}
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <SheetFooter className="px-0">
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? 'Saving...' : 'Save Rate'}
+              </Button>
+            </SheetFooter>
+          </form>
+        </Form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,222 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import type { ImportRateSheetResult, Lender, RateSheetRowError, RateSheetRowPreview } from '../../../server/src/schema';
+
+interface RateSheetImportProps {
+  lenders: Lender[];
+  onImported: () => void;
+}
+
+// Sentinel select value for sheets that carry their own lender_id column
+const SHEET_LENDER = 'sheet';
+
+export function RateSheetImport({ lenders, onImported }: RateSheetImportProps) {
+  const [csv, setCsv] = useState('');
+  const [lenderId, setLenderId] = useState<string>(SHEET_LENDER);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [preview, setPreview] = useState<ImportRateSheetResult | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const lenderName = (id: number) => lenders.find((lender: Lender) => lender.id === id)?.name ?? `#${id}`;
+
+  const runImport = async (dryRun: boolean) => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const result = await trpc.importRateSheet.mutate({
+        csv,
+        lender_id: lenderId === SHEET_LENDER ? undefined : parseInt(lenderId),
+        dry_run: dryRun,
+        replace_existing: replaceExisting
+      });
+
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        setPreview(null);
+        setCsv('');
+        setMessage(`Imported ${result.imported_count} rates` +
+          (result.deactivated_count > 0 ? ` and replaced ${result.deactivated_count} existing rates` : '') +
+          (result.errors.length > 0 ? `; ${result.errors.length} rows were skipped` : ''));
+        onImported();
+      }
+    } catch (error) {
+      console.error('Failed to import rate sheet:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import rate sheet');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setCsv(await file.text());
+      setPreview(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-0 bg-white/70 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-slate-900">Import Rate Sheet</CardTitle>
+        <CardDescription>
+          Upload a CSV with a header row. Preview the sheet first; only valid rows are imported.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {message && (
+          <Alert>
+            <AlertDescription>{message}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rate_sheet_file">CSV File</Label>
+            <input
+              id="rate_sheet_file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              className="block w-full text-sm text-slate-600"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Lender</Label>
+            <Select
+              value={lenderId || SHEET_LENDER}
+              onValueChange={(value: string) => {
+                setLenderId(value);
+                setPreview(null);
+              }}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SHEET_LENDER}>From lender_id column</SelectItem>
+                {lenders.map((lender: Lender) => (
+                  <SelectItem key={lender.id} value={lender.id.toString()}>{lender.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-3 pt-6">
+            <Switch
+              id="replace_existing"
+              checked={replaceExisting}
+              onCheckedChange={(checked: boolean) => {
+                setReplaceExisting(checked);
+                setPreview(null);
+              }}
+            />
+            <Label htmlFor="replace_existing">Replace lender's active rates</Label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="rate_sheet_csv">Sheet Contents</Label>
+          <Textarea
+            id="rate_sheet_csv"
+            value={csv}
+            onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
+              setCsv(e.target.value);
+              setPreview(null);
+            }}
+            placeholder="loan_type,loan_term,interest_rate,apr,points,min_credit_score,max_loan_amount,min_down_payment_percent,closing_costs"
+            rows={8}
+            className="font-mono text-xs"
+          />
+        </div>
+
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => runImport(true)} disabled={isWorking || csv.trim() === ''}>
+            {isWorking && !preview ? 'Checking...' : 'Preview'}
+          </Button>
+          <Button
+            onClick={() => runImport(false)}
+            disabled={isWorking || !preview || preview.valid_rows.length === 0}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          >
+            {preview ? `Import ${preview.valid_rows.length} Rates` : 'Import'}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {preview.total_rows} rows: {preview.valid_rows.length} valid, {preview.errors.length} with errors.
+              {replaceExisting && ` ${preview.deactivated_count} existing rates will be replaced when the new rates take effect.`}
+            </p>
+
+            {preview.errors.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.errors.map((rowError: RateSheetRowError) => (
+                    <TableRow key={rowError.row}>
+                      <TableCell>{rowError.row}</TableCell>
+                      <TableCell className="text-red-600">{rowError.messages.join('; ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {preview.valid_rows.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead>Lender</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Rate</TableHead>
+                    <TableHead>APR</TableHead>
+                    <TableHead>Points</TableHead>
+                    <TableHead>Min FICO</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.valid_rows.map(({ row, rate }: RateSheetRowPreview) => (
+                    <TableRow key={row}>
+                      <TableCell>{row}</TableCell>
+                      <TableCell>{lenderName(rate.lender_id)}</TableCell>
+                      <TableCell className="capitalize">
+                        {rate.loan_type} {rate.loan_term}yr {(rate.rate_type ?? 'fixed') === 'fixed' ? 'fixed' : rate.rate_type?.replace('arm_', '').replace('_', '/') + ' ARM'}
+                      </TableCell>
+                      <TableCell>{rate.interest_rate.toFixed(3)}%</TableCell>
+                      <TableCell>{rate.apr.toFixed(3)}%</TableCell>
+                      <TableCell>{rate.points}</TableCell>
+                      <TableCell>{rate.min_credit_score}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { LenderPortal } from './components/LenderPortal.tsx'
+import { AdminDashboard } from './components/AdminDashboard.tsx'
+
+// Minimal path routing; Caddy serves index.html for every non-API path
+const path = window.location.pathname
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {path.startsWith('/admin') ? <AdminDashboard /> : path.startsWith('/lender') ? <LenderPortal /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AUTH_TOKEN_STORAGE_KEY, trpc } from '@/utils/trpc';
+import type { User } from '../../../server/src/schema';
+
+// Signed-in user for the stored token, re-checked against the server on mount
+export function useCurrentUser() {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadUser = useCallback(async () => {
+    if (!localStorage.getItem(AUTH_TOKEN_STORAGE_KEY)) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setUser(await trpc.me.query());
+    } catch (error) {
+      // Expired or revoked token
+      console.error('Failed to load current user:', error);
+      localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUser();
+  }, [loadUser]);
+
+  const signOut = useCallback(() => {
+    localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    setUser(null);
+  }, []);
+
+  return { user, setUser, isLoading, signOut };
+}
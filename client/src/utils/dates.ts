@@ -0,0 +1,12 @@
+// Convert between Dates and <input type="datetime-local"> values, which are in local time
+
+export const toDateTimeInput = (date: Date | null | undefined): string => {
+  if (!date) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+export const fromDateTimeInput = (value: string): Date | null => value === '' ? null : new Date(value);
+
+export const formatDateTime = (date: Date | null | undefined): string =>
+  date ? date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '—';
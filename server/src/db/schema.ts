@@ -1,11 +1,24 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, uuid, jsonb, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type MortgageQuote as MortgageQuoteData, type PriceAdjustment, type RatePriceOption } from '../schema';
 
 // Enums for PostgreSQL
 export const loanTypeEnum = pgEnum('loan_type', ['conventional', 'fha', 'va', 'usda', 'jumbo']);
 export const loanTermEnum = pgEnum('loan_term', ['15', '20', '25', '30']);
 export const propertyTypeEnum = pgEnum('property_type', ['single_family', 'condo', 'townhouse', 'multi_family']);
 export const occupancyTypeEnum = pgEnum('occupancy_type', ['primary', 'secondary', 'investment']);
+export const rateTypeEnum = pgEnum('rate_type', ['fixed', 'arm_5_1', 'arm_7_1', 'arm_10_1']);
+export const armIndexEnum = pgEnum('arm_index', ['sofr', 'treasury_1y']);
+export const rateChangeTypeEnum = pgEnum('rate_change_type', ['created', 'updated']);
+export const rateLockStatusEnum = pgEnum('rate_lock_status', ['requested', 'locked', 'extended', 'expired', 'cancelled']);
+export const rateLockPeriodEnum = pgEnum('rate_lock_period', ['30', '45', '60']);
+export const userRoleEnum = pgEnum('user_role', ['platform_admin', 'lender_rep', 'borrower']);
+export const qualificationStatusEnum = pgEnum('qualification_status', ['eligible', 'eligible_with_conditions', 'ineligible']);
+export const incomeTypeEnum = pgEnum('income_type', ['salary', 'hourly', 'self_employment', 'bonus_commission', 'rental', 'retirement', 'other']);
+export const assetTypeEnum = pgEnum('asset_type', ['checking', 'savings', 'retirement', 'investment', 'gift', 'other']);
+export const liabilityTypeEnum = pgEnum('liability_type', ['credit_card', 'auto_loan', 'student_loan', 'personal_loan', 'child_support', 'other']);
+export const loanPurposeEnum = pgEnum('loan_purpose', ['purchase', 'refinance', 'cash_out_refinance']);
+export const temporaryBuydownEnum = pgEnum('temporary_buydown', ['1_0', '2_1', '3_2_1']);
 
 // Lenders table
 export const lendersTable = pgTable('lenders', {
@@ -20,6 +33,19 @@ export const lendersTable = pgTable('lenders', {
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Users table: platform admins, lender reps and borrowers
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(), // Stored lowercased
+  password_hash: text('password_hash').notNull(),
+  name: text('name').notNull(),
+  role: userRoleEnum('role').notNull(),
+  lender_id: integer('lender_id').references(() => lendersTable.id, { onDelete: 'cascade' }), // Nullable, set for lender reps
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Mortgage rates table
 export const mortgageRatesTable = pgTable('mortgage_rates', {
   id: serial('id').primaryKey(),
@@ -33,11 +59,52 @@ export const mortgageRatesTable = pgTable('mortgage_rates', {
   max_loan_amount: numeric('max_loan_amount', { precision: 12, scale: 2 }).notNull(),
   min_down_payment_percent: numeric('min_down_payment_percent', { precision: 5, scale: 2 }).notNull(),
   closing_costs: numeric('closing_costs', { precision: 10, scale: 2 }), // Nullable
+  allowed_property_types: propertyTypeEnum('allowed_property_types').array().notNull()
+    .default(['single_family', 'condo', 'townhouse', 'multi_family']),
+  allowed_occupancy_types: occupancyTypeEnum('allowed_occupancy_types').array().notNull()
+    .default(['primary', 'secondary', 'investment']),
+  allowed_loan_purposes: loanPurposeEnum('allowed_loan_purposes').array().notNull()
+    .default(['purchase', 'refinance', 'cash_out_refinance']),
+  max_units: integer('max_units').notNull().default(4), // 1-4 unit residential properties
+  max_front_end_dti: numeric('max_front_end_dti', { precision: 5, scale: 2 }), // Nullable, loan type default applies
+  max_back_end_dti: numeric('max_back_end_dti', { precision: 5, scale: 2 }), // Nullable, loan type default applies
+  rate_type: rateTypeEnum('rate_type').notNull().default('fixed'),
+  // ARM terms, nullable for fixed rates
+  arm_index: armIndexEnum('arm_index'),
+  arm_index_value: numeric('arm_index_value', { precision: 5, scale: 3 }),
+  arm_margin: numeric('arm_margin', { precision: 5, scale: 3 }),
+  arm_initial_cap: numeric('arm_initial_cap', { precision: 5, scale: 3 }),
+  arm_periodic_cap: numeric('arm_periodic_cap', { precision: 5, scale: 3 }),
+  arm_lifetime_cap: numeric('arm_lifetime_cap', { precision: 5, scale: 3 }),
+  price_options: jsonb('price_options').$type<RatePriceOption[]>().notNull().default([]), // Other rate/points pairs for this product
+  effective_at: timestamp('effective_at').defaultNow().notNull(), // Not quoted before this time
+  expires_at: timestamp('expires_at'), // Nullable, quoted until deactivated
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull()
 });
 
+// Snapshot of a rate's pricing written on every create and update, for trends and audits
+export const mortgageRateHistoryTable = pgTable('mortgage_rate_history', {
+  id: serial('id').primaryKey(),
+  rate_id: integer('rate_id').notNull().references(() => mortgageRatesTable.id, { onDelete: 'cascade' }),
+  change_type: rateChangeTypeEnum('change_type').notNull(),
+  // Identity columns are copied so history can be queried as they were at the time
+  lender_id: integer('lender_id').notNull(),
+  loan_type: loanTypeEnum('loan_type').notNull(),
+  loan_term: loanTermEnum('loan_term').notNull(),
+  rate_type: rateTypeEnum('rate_type').notNull(),
+  interest_rate: numeric('interest_rate', { precision: 5, scale: 3 }).notNull(),
+  apr: numeric('apr', { precision: 5, scale: 3 }).notNull(),
+  points: numeric('points', { precision: 4, scale: 2 }).notNull(),
+  closing_costs: numeric('closing_costs', { precision: 10, scale: 2 }), // Nullable
+  is_active: boolean('is_active').notNull(),
+  // Quoting window as of the change, so history shows when each price was live rather than edited
+  effective_at: timestamp('effective_at').notNull(),
+  expires_at: timestamp('expires_at'), // Nullable
+  recorded_at: timestamp('recorded_at').defaultNow().notNull()
+});
+
 // Mortgage quote requests table (to track user requests)
 export const mortgageQuoteRequestsTable = pgTable('mortgage_quote_requests', {
   id: serial('id').primaryKey(),
@@ -49,20 +116,301 @@ export const mortgageQuoteRequestsTable = pgTable('mortgage_quote_requests', {
   loan_term: loanTermEnum('loan_term').notNull(),
   property_type: propertyTypeEnum('property_type').notNull(),
   occupancy_type: occupancyTypeEnum('occupancy_type').notNull(),
+  number_of_units: integer('number_of_units').notNull().default(1),
   zip_code: text('zip_code').notNull(),
   debt_to_income_ratio: numeric('debt_to_income_ratio', { precision: 5, scale: 2 }), // Nullable
+  gross_monthly_income: numeric('gross_monthly_income', { precision: 12, scale: 2 }), // Nullable
+  monthly_debts: numeric('monthly_debts', { precision: 12, scale: 2 }), // Nullable
+  loan_purpose: loanPurposeEnum('loan_purpose').notNull().default('purchase'),
+  current_loan_balance: numeric('current_loan_balance', { precision: 12, scale: 2 }), // Refinances only
+  current_interest_rate: numeric('current_interest_rate', { precision: 5, scale: 3 }), // Refinances only
+  current_remaining_term_months: integer('current_remaining_term_months'), // Refinances only
+  current_mortgage_insurance_monthly: numeric('current_mortgage_insurance_monthly', { precision: 10, scale: 2 }), // Refinances only
+  cash_out_amount: numeric('cash_out_amount', { precision: 12, scale: 2 }), // Cash-out refinances only
+  temporary_buydown: temporaryBuydownEnum('temporary_buydown'), // Nullable, purchases only
+  horizon_years: integer('horizon_years'), // Nullable
+  share_token: uuid('share_token').defaultRandom().notNull().unique(), // Unguessable ID for reopening saved quotes
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Quotes returned for a request, frozen at the moment they were generated
+export const quoteResultsTable = pgTable('quote_results', {
+  id: serial('id').primaryKey(),
+  quote_request_id: integer('quote_request_id').notNull().references(() => mortgageQuoteRequestsTable.id, { onDelete: 'cascade' }),
+  rate_id: integer('rate_id').notNull().references(() => mortgageRatesTable.id, { onDelete: 'cascade' }),
+  lender_id: integer('lender_id').notNull(),
+  position: integer('position').notNull(), // Order the quotes were returned in
+  interest_rate: numeric('interest_rate', { precision: 5, scale: 3 }).notNull(),
+  apr: numeric('apr', { precision: 5, scale: 3 }).notNull(),
+  calculated_apr: numeric('calculated_apr', { precision: 5, scale: 3 }).notNull(),
+  points: numeric('points', { precision: 5, scale: 3 }).notNull(),
+  monthly_payment: numeric('monthly_payment', { precision: 10, scale: 2 }).notNull(),
+  quote_data: jsonb('quote_data').$type<MortgageQuoteData>().notNull(), // Full quote as returned
+  created_at: timestamp('created_at').defaultNow().notNull()
+});
+
+// Rate locks snapshot a saved quote's pricing so later rate sheet changes do not affect them
+export const rateLocksTable = pgTable('rate_locks', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }), // Borrower who requested the lock
+  quote_request_id: integer('quote_request_id').references(() => mortgageQuoteRequestsTable.id, { onDelete: 'set null' }),
+  quote_result_id: integer('quote_result_id').references(() => quoteResultsTable.id, { onDelete: 'set null' }),
+  rate_id: integer('rate_id').references(() => mortgageRatesTable.id, { onDelete: 'set null' }), // Nullable, for reference only
+  lender_id: integer('lender_id').notNull().references(() => lendersTable.id, { onDelete: 'cascade' }),
+  lock_period: rateLockPeriodEnum('lock_period').notNull(), // Days
+  status: rateLockStatusEnum('status').notNull().default('requested'),
+  loan_type: loanTypeEnum('loan_type').notNull(),
+  loan_term: loanTermEnum('loan_term').notNull(),
+  rate_type: rateTypeEnum('rate_type').notNull(),
+  loan_amount: numeric('loan_amount', { precision: 12, scale: 2 }).notNull(),
+  interest_rate: numeric('interest_rate', { precision: 5, scale: 3 }).notNull(),
+  apr: numeric('apr', { precision: 5, scale: 3 }).notNull(),
+  points: numeric('points', { precision: 5, scale: 3 }).notNull(),
+  monthly_payment: numeric('monthly_payment', { precision: 10, scale: 2 }).notNull(),
+  price_adjustments: jsonb('price_adjustments').$type<PriceAdjustment[]>().notNull(),
+  locked_at: timestamp('locked_at'), // Nullable until the lender confirms the lock
+  expires_at: timestamp('expires_at'), // Nullable until locked
+  cancelled_at: timestamp('cancelled_at'), // Nullable
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+}, (table) => [
+  // A borrower holds at most one open lock per quote, even when requests race
+  uniqueIndex('rate_locks_open_quote_idx')
+    .on(table.user_id, table.quote_result_id)
+    .where(sql`status in ('requested', 'locked', 'extended')`)
+]);
+
+// Pre-qualification application for one saved quote, with the qualification result at submission
+export const prequalApplicationsTable = pgTable('prequal_applications', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  quote_request_id: integer('quote_request_id').notNull().references(() => mortgageQuoteRequestsTable.id, { onDelete: 'cascade' }),
+  quote_result_id: integer('quote_result_id').references(() => quoteResultsTable.id, { onDelete: 'set null' }),
+  rate_id: integer('rate_id').references(() => mortgageRatesTable.id, { onDelete: 'set null' }), // Rate the borrower chose
+  lender_id: integer('lender_id').notNull().references(() => lendersTable.id, { onDelete: 'cascade' }),
+  // Borrower contact info
+  first_name: text('first_name').notNull(),
+  last_name: text('last_name').notNull(),
+  email: text('email').notNull(),
+  phone: text('phone'), // Nullable
+  // Totals of the income, asset and liability rows
+  gross_monthly_income: numeric('gross_monthly_income', { precision: 12, scale: 2 }).notNull(),
+  monthly_debts: numeric('monthly_debts', { precision: 12, scale: 2 }).notNull(),
+  total_assets: numeric('total_assets', { precision: 14, scale: 2 }).notNull(),
+  funds_to_close: numeric('funds_to_close', { precision: 12, scale: 2 }).notNull(), // Down payment, closing costs and points
+  status: qualificationStatusEnum('status').notNull(),
+  front_end_dti: numeric('front_end_dti', { precision: 6, scale: 2 }), // Nullable
+  back_end_dti: numeric('back_end_dti', { precision: 6, scale: 2 }), // Nullable
+  loan_to_value_ratio: numeric('loan_to_value_ratio', { precision: 6, scale: 2 }).notNull(),
+  reasons: jsonb('reasons').$type<string[]>().notNull(),
   created_at: timestamp('created_at').defaultNow().notNull()
 });
 
+export const prequalEmploymentsTable = pgTable('prequal_employments', {
+  id: serial('id').primaryKey(),
+  application_id: integer('application_id').notNull().references(() => prequalApplicationsTable.id, { onDelete: 'cascade' }),
+  employer_name: text('employer_name').notNull(),
+  job_title: text('job_title'), // Nullable
+  years_employed: numeric('years_employed', { precision: 4, scale: 1 }).notNull(),
+  is_current: boolean('is_current').notNull().default(true),
+  is_self_employed: boolean('is_self_employed').notNull().default(false)
+});
+
+export const prequalIncomesTable = pgTable('prequal_incomes', {
+  id: serial('id').primaryKey(),
+  application_id: integer('application_id').notNull().references(() => prequalApplicationsTable.id, { onDelete: 'cascade' }),
+  income_type: incomeTypeEnum('income_type').notNull(),
+  description: text('description'), // Nullable
+  monthly_amount: numeric('monthly_amount', { precision: 12, scale: 2 }).notNull() // Gross, before taxes
+});
+
+export const prequalAssetsTable = pgTable('prequal_assets', {
+  id: serial('id').primaryKey(),
+  application_id: integer('application_id').notNull().references(() => prequalApplicationsTable.id, { onDelete: 'cascade' }),
+  asset_type: assetTypeEnum('asset_type').notNull(),
+  institution: text('institution'), // Nullable
+  balance: numeric('balance', { precision: 14, scale: 2 }).notNull()
+});
+
+export const prequalLiabilitiesTable = pgTable('prequal_liabilities', {
+  id: serial('id').primaryKey(),
+  application_id: integer('application_id').notNull().references(() => prequalApplicationsTable.id, { onDelete: 'cascade' }),
+  liability_type: liabilityTypeEnum('liability_type').notNull(),
+  creditor: text('creditor'), // Nullable
+  monthly_payment: numeric('monthly_payment', { precision: 10, scale: 2 }).notNull(),
+  balance: numeric('balance', { precision: 12, scale: 2 }).notNull()
+});
+
+// Letter issued for an application that did not fail qualification; terms are copied from the quote
+export const prequalLettersTable = pgTable('prequal_letters', {
+  id: serial('id').primaryKey(),
+  application_id: integer('application_id').notNull().unique().references(() => prequalApplicationsTable.id, { onDelete: 'cascade' }),
+  lender_id: integer('lender_id').notNull().references(() => lendersTable.id, { onDelete: 'cascade' }),
+  borrower_name: text('borrower_name').notNull(),
+  loan_type: loanTypeEnum('loan_type').notNull(),
+  loan_term: loanTermEnum('loan_term').notNull(),
+  rate_type: rateTypeEnum('rate_type').notNull(),
+  interest_rate: numeric('interest_rate', { precision: 5, scale: 3 }).notNull(),
+  loan_amount: numeric('loan_amount', { precision: 12, scale: 2 }).notNull(),
+  purchase_price: numeric('purchase_price', { precision: 12, scale: 2 }).notNull(),
+  issued_at: timestamp('issued_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull()
+});
+
+// Loan-level price adjustments: a row applies when every non-null criterion matches the borrower
+export const llpaAdjustmentsTable = pgTable('llpa_adjustments', {
+  id: serial('id').primaryKey(),
+  lender_id: integer('lender_id').notNull().references(() => lendersTable.id, { onDelete: 'cascade' }),
+  description: text('description').notNull(),
+  loan_type: loanTypeEnum('loan_type'), // Nullable, applies to all loan types
+  min_credit_score: integer('min_credit_score'), // Nullable, inclusive
+  max_credit_score: integer('max_credit_score'), // Nullable, inclusive
+  min_ltv: numeric('min_ltv', { precision: 5, scale: 2 }), // Nullable, exclusive
+  max_ltv: numeric('max_ltv', { precision: 5, scale: 2 }), // Nullable, inclusive
+  occupancy_type: occupancyTypeEnum('occupancy_type'), // Nullable
+  property_type: propertyTypeEnum('property_type'), // Nullable
+  loan_purpose: loanPurposeEnum('loan_purpose'), // Nullable
+  rate_adjustment: numeric('rate_adjustment', { precision: 5, scale: 3 }).notNull().default('0'), // Added to interest rate
+  points_adjustment: numeric('points_adjustment', { precision: 5, scale: 3 }).notNull().default('0'), // Added to points
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
+// Property tax and homeowners insurance estimates by 5-digit ZIP or 3-digit ZIP prefix
+export const propertyCostEstimatesTable = pgTable('property_cost_estimates', {
+  id: serial('id').primaryKey(),
+  zip_prefix: text('zip_prefix').notNull().unique(), // '90210' or '902'
+  county: text('county'), // Nullable
+  state: text('state').notNull(),
+  property_tax_rate: numeric('property_tax_rate', { precision: 5, scale: 3 }).notNull(), // Annual % of property value
+  insurance_rate: numeric('insurance_rate', { precision: 5, scale: 3 }).notNull(), // Annual % of property value
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull()
+});
+
 // Relations
 export const lendersRelations = relations(lendersTable, ({ many }) => ({
-  mortgageRates: many(mortgageRatesTable)
+  mortgageRates: many(mortgageRatesTable),
+  llpaAdjustments: many(llpaAdjustmentsTable),
+  users: many(usersTable)
+}));
+
+export const usersRelations = relations(usersTable, ({ one }) => ({
+  lender: one(lendersTable, {
+    fields: [usersTable.lender_id],
+    references: [lendersTable.id]
+  })
 }));
 
-export const mortgageRatesRelations = relations(mortgageRatesTable, ({ one }) => ({
+export const mortgageRatesRelations = relations(mortgageRatesTable, ({ one, many }) => ({
   lender: one(lendersTable, {
     fields: [mortgageRatesTable.lender_id],
     references: [lendersTable.id]
+  }),
+  history: many(mortgageRateHistoryTable)
+}));
+
+export const mortgageRateHistoryRelations = relations(mortgageRateHistoryTable, ({ one }) => ({
+  rate: one(mortgageRatesTable, {
+    fields: [mortgageRateHistoryTable.rate_id],
+    references: [mortgageRatesTable.id]
+  })
+}));
+
+export const mortgageQuoteRequestsRelations = relations(mortgageQuoteRequestsTable, ({ many }) => ({
+  quoteResults: many(quoteResultsTable)
+}));
+
+export const quoteResultsRelations = relations(quoteResultsTable, ({ one }) => ({
+  quoteRequest: one(mortgageQuoteRequestsTable, {
+    fields: [quoteResultsTable.quote_request_id],
+    references: [mortgageQuoteRequestsTable.id]
+  }),
+  rate: one(mortgageRatesTable, {
+    fields: [quoteResultsTable.rate_id],
+    references: [mortgageRatesTable.id]
+  })
+}));
+
+export const rateLocksRelations = relations(rateLocksTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [rateLocksTable.user_id],
+    references: [usersTable.id]
+  }),
+  lender: one(lendersTable, {
+    fields: [rateLocksTable.lender_id],
+    references: [lendersTable.id]
+  }),
+  quoteResult: one(quoteResultsTable, {
+    fields: [rateLocksTable.quote_result_id],
+    references: [quoteResultsTable.id]
+  })
+}));
+
+export const prequalApplicationsRelations = relations(prequalApplicationsTable, ({ one, many }) => ({
+  user: one(usersTable, {
+    fields: [prequalApplicationsTable.user_id],
+    references: [usersTable.id]
+  }),
+  quoteRequest: one(mortgageQuoteRequestsTable, {
+    fields: [prequalApplicationsTable.quote_request_id],
+    references: [mortgageQuoteRequestsTable.id]
+  }),
+  rate: one(mortgageRatesTable, {
+    fields: [prequalApplicationsTable.rate_id],
+    references: [mortgageRatesTable.id]
+  }),
+  employments: many(prequalEmploymentsTable),
+  incomes: many(prequalIncomesTable),
+  assets: many(prequalAssetsTable),
+  liabilities: many(prequalLiabilitiesTable),
+  letter: one(prequalLettersTable)
+}));
+
+export const prequalEmploymentsRelations = relations(prequalEmploymentsTable, ({ one }) => ({
+  application: one(prequalApplicationsTable, {
+    fields: [prequalEmploymentsTable.application_id],
+    references: [prequalApplicationsTable.id]
+  })
+}));
+
+export const prequalIncomesRelations = relations(prequalIncomesTable, ({ one }) => ({
+  application: one(prequalApplicationsTable, {
+    fields: [prequalIncomesTable.application_id],
+    references: [prequalApplicationsTable.id]
+  })
+}));
+
+export const prequalAssetsRelations = relations(prequalAssetsTable, ({ one }) => ({
+  application: one(prequalApplicationsTable, {
+    fields: [prequalAssetsTable.application_id],
+    references: [prequalApplicationsTable.id]
+  })
+}));
+
+export const prequalLiabilitiesRelations = relations(prequalLiabilitiesTable, ({ one }) => ({
+  application: one(prequalApplicationsTable, {
+    fields: [prequalLiabilitiesTable.application_id],
+    references: [prequalApplicationsTable.id]
+  })
+}));
+
+export const prequalLettersRelations = relations(prequalLettersTable, ({ one }) => ({
+  application: one(prequalApplicationsTable, {
+    fields: [prequalLettersTable.application_id],
+    references: [prequalApplicationsTable.id]
+  }),
+  lender: one(lendersTable, {
+    fields: [prequalLettersTable.lender_id],
+    references: [lendersTable.id]
+  })
+}));
+
+export const llpaAdjustmentsRelations = relations(llpaAdjustmentsTable, ({ one }) => ({
+  lender: one(lendersTable, {
+    fields: [llpaAdjustmentsTable.lender_id],
+    references: [lendersTable.id]
   })
 }));
 
@@ -70,15 +418,56 @@ export const mortgageRatesRelations = relations(mortgageRatesTable, ({ one }) =>
 export type Lender = typeof lendersTable.$inferSelect;
 export type NewLender = typeof lendersTable.$inferInsert;
 
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
 export type MortgageRate = typeof mortgageRatesTable.$inferSelect;
 export type NewMortgageRate = typeof mortgageRatesTable.$inferInsert;
 
+export type MortgageRateHistory = typeof mortgageRateHistoryTable.$inferSelect;
+export type NewMortgageRateHistory = typeof mortgageRateHistoryTable.$inferInsert;
+
 export type MortgageQuoteRequest = typeof mortgageQuoteRequestsTable.$inferSelect;
 export type NewMortgageQuoteRequest = typeof mortgageQuoteRequestsTable.$inferInsert;
 
+export type QuoteResult = typeof quoteResultsTable.$inferSelect;
+export type NewQuoteResult = typeof quoteResultsTable.$inferInsert;
+
+export type RateLock = typeof rateLocksTable.$inferSelect;
+export type NewRateLock = typeof rateLocksTable.$inferInsert;
+
+export type PrequalApplication = typeof prequalApplicationsTable.$inferSelect;
+export type NewPrequalApplication = typeof prequalApplicationsTable.$inferInsert;
+
+export type PrequalEmployment = typeof prequalEmploymentsTable.$inferSelect;
+export type PrequalIncome = typeof prequalIncomesTable.$inferSelect;
+export type PrequalAsset = typeof prequalAssetsTable.$inferSelect;
+export type PrequalLiability = typeof prequalLiabilitiesTable.$inferSelect;
+
+export type PrequalLetter = typeof prequalLettersTable.$inferSelect;
+export type NewPrequalLetter = typeof prequalLettersTable.$inferInsert;
+
+export type LlpaAdjustment = typeof llpaAdjustmentsTable.$inferSelect;
+export type NewLlpaAdjustment = typeof llpaAdjustmentsTable.$inferInsert;
+
+export type PropertyCostEstimate = typeof propertyCostEstimatesTable.$inferSelect;
+export type NewPropertyCostEstimate = typeof propertyCostEstimatesTable.$inferInsert;
+
 // Important: Export all tables and relations for proper query building
 export const tables = {
   lenders: lendersTable,
+  users: usersTable,
   mortgageRates: mortgageRatesTable,
-  mortgageQuoteRequests: mortgageQuoteRequestsTable
+  mortgageRateHistory: mortgageRateHistoryTable,
+  mortgageQuoteRequests: mortgageQuoteRequestsTable,
+  quoteResults: quoteResultsTable,
+  rateLocks: rateLocksTable,
+  prequalApplications: prequalApplicationsTable,
+  prequalEmployments: prequalEmploymentsTable,
+  prequalIncomes: prequalIncomesTable,
+  prequalAssets: prequalAssetsTable,
+  prequalLiabilities: prequalLiabilitiesTable,
+  prequalLetters: prequalLettersTable,
+  llpaAdjustments: llpaAdjustmentsTable,
+  propertyCostEstimates: propertyCostEstimatesTable
 };
\ No newline at end of file
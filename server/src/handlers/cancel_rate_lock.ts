@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { rateLocksTable } from '../db/schema';
+import { type CancelRateLockInput, type RateLock, type User } from '../schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { findRateLock, toRateLock } from './get_rate_locks';
+
+// Borrowers cancel their own locks, lender reps their lender's, and admins any
+const canCancel = (user: User, lock: RateLock): boolean => {
+  switch (user.role) {
+    case 'platform_admin':
+      return true;
+    case 'lender_rep':
+      return user.lender_id === lock.lender_id;
+    case 'borrower':
+      return user.id === lock.user_id;
+  }
+};
+
+export const cancelRateLock = async (user: User, input: CancelRateLockInput): Promise<RateLock> => {
+  try {
+    const lock = await findRateLock(input.id);
+
+    if (!canCancel(user, lock)) {
+      throw new Error(`Rate lock with ID ${input.id} not found`);
+    }
+    if (lock.status === 'expired' || lock.status === 'cancelled') {
+      throw new Error(`Rate lock with ID ${input.id} cannot be cancelled from status ${lock.status}`);
+    }
+
+    const now = new Date();
+    const updated = await db.update(rateLocksTable)
+      .set({ status: 'cancelled', cancelled_at: now, updated_at: now })
+      .where(and(
+        eq(rateLocksTable.id, input.id),
+        inArray(rateLocksTable.status, ['requested', 'locked', 'extended'])
+      ))
+      .returning()
+      .execute();
+
+    // Another request changed the lock between the checks above and this update
+    if (updated.length === 0) {
+      throw new Error(`Rate lock with ID ${input.id} was changed by another request`);
+    }
+
+    return toRateLock(updated[0], lock.lender_name);
+  } catch (error) {
+    console.error('Rate lock cancellation failed:', error);
+    throw error;
+  }
+};
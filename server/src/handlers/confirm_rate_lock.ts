@@ -0,0 +1,47 @@
+import { db } from '../db';
+import { rateLocksTable } from '../db/schema';
+import { type ConfirmRateLockInput, type RateLock } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { findRateLock, toRateLock } from './get_rate_locks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The lender confirms a requested lock; the lock period starts now
+export const confirmRateLock = async (lenderId: number, input: ConfirmRateLockInput): Promise<RateLock> => {
+  try {
+    const lock = await findRateLock(input.id);
+
+    // Other lenders' locks are reported as missing rather than forbidden
+    if (lock.lender_id !== lenderId) {
+      throw new Error(`Rate lock with ID ${input.id} not found`);
+    }
+    if (lock.status !== 'requested') {
+      throw new Error(`Rate lock with ID ${input.id} cannot be locked from status ${lock.status}`);
+    }
+
+    const now = new Date();
+    const updated = await db.update(rateLocksTable)
+      .set({
+        status: 'locked',
+        locked_at: now,
+        expires_at: new Date(now.getTime() + parseInt(lock.lock_period) * DAY_MS),
+        updated_at: now
+      })
+      .where(and(
+        eq(rateLocksTable.id, input.id),
+        eq(rateLocksTable.status, 'requested')
+      ))
+      .returning()
+      .execute();
+
+    // Another request changed the lock between the checks above and this update
+    if (updated.length === 0) {
+      throw new Error(`Rate lock with ID ${input.id} was changed by another request`);
+    }
+
+    return toRateLock(updated[0], lock.lender_name);
+  } catch (error) {
+    console.error('Rate lock confirmation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,11 @@
+import { type CreateLenderRateInput, type MortgageRate } from '../schema';
+import { createMortgageRate } from './create_mortgage_rate';
+
+export const createLenderRate = async (lenderId: number, input: CreateLenderRateInput): Promise<MortgageRate> => {
+  try {
+    return await createMortgageRate({ ...input, lender_id: lenderId });
+  } catch (error) {
+    console.error('Lender rate creation failed:', error);
+    throw error;
+  }
+};
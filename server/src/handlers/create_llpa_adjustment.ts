@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { llpaAdjustmentsTable, lendersTable } from '../db/schema';
+import { type CreateLlpaAdjustmentInput, type LlpaAdjustment } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const createLlpaAdjustment = async (input: CreateLlpaAdjustmentInput): Promise<LlpaAdjustment> => {
+  try {
+    // First, verify that the lender exists
+    const lender = await db.select()
+      .from(lendersTable)
+      .where(eq(lendersTable.id, input.lender_id))
+      .execute();
+
+    if (lender.length === 0) {
+      throw new Error(`Lender with ID ${input.lender_id} not found`);
+    }
+
+    const result = await db.insert(llpaAdjustmentsTable)
+      .values({
+        lender_id: input.lender_id,
+        description: input.description,
+        loan_type: input.loan_type,
+        min_credit_score: input.min_credit_score,
+        max_credit_score: input.max_credit_score,
+        min_ltv: input.min_ltv?.toString() ?? null, // Convert number to string for numeric column
+        max_ltv: input.max_ltv?.toString() ?? null,
+        occupancy_type: input.occupancy_type,
+        property_type: input.property_type,
+        loan_purpose: input.loan_purpose ?? null,
+        rate_adjustment: input.rate_adjustment.toString(),
+        points_adjustment: input.points_adjustment.toString(),
+        is_active: input.is_active
+      })
+      .returning()
+      .execute();
+
+    // Convert numeric fields back to numbers before returning
+    const adjustment = result[0];
+    return {
+      ...adjustment,
+      min_ltv: adjustment.min_ltv !== null ? parseFloat(adjustment.min_ltv) : null,
+      max_ltv: adjustment.max_ltv !== null ? parseFloat(adjustment.max_ltv) : null,
+      rate_adjustment: parseFloat(adjustment.rate_adjustment),
+      points_adjustment: parseFloat(adjustment.points_adjustment)
+    };
+  } catch (error) {
+    console.error('LLPA adjustment creation failed:', error);
+    throw error;
+  }
+};
@@ -1,28 +1,48 @@
 import { db } from '../db';
-import { mortgageQuoteRequestsTable } from '../db/schema';
+import { mortgageQuoteRequestsTable, type MortgageQuoteRequest as MortgageQuoteRequestRow } from '../db/schema';
 import { type CreateMortgageQuoteRequestInput, type MortgageQuoteRequest } from '../schema';
+import { resolveLoanAmounts } from '../lib/refinance';
 
-export const createMortgageQuoteRequest = async (input: CreateMortgageQuoteRequestInput): Promise<MortgageQuoteRequest> => {
+// Accepts the db or a transaction so requestQuotes can save the request with its quotes
+type Executor = Pick<typeof db, 'insert'>;
+
+// Insert a request whose loan amounts have already been resolved
+export const insertMortgageQuoteRequest = async (executor: Executor, input: CreateMortgageQuoteRequestInput): Promise<MortgageQuoteRequestRow> => {
+  const result = await executor.insert(mortgageQuoteRequestsTable)
+    .values({
+      loan_amount: input.loan_amount.toString(),
+      property_value: input.property_value.toString(),
+      down_payment: input.down_payment.toString(),
+      credit_score: input.credit_score,
+      loan_type: input.loan_type,
+      loan_term: input.loan_term,
+      property_type: input.property_type,
+      occupancy_type: input.occupancy_type,
+      number_of_units: input.number_of_units, // Column default of 1 applies when omitted
+      zip_code: input.zip_code,
+      debt_to_income_ratio: input.debt_to_income_ratio?.toString() ?? null,
+      gross_monthly_income: input.gross_monthly_income?.toString() ?? null,
+      monthly_debts: input.monthly_debts?.toString() ?? null,
+      loan_purpose: input.loan_purpose,
+      current_loan_balance: input.current_loan_balance?.toString() ?? null,
+      current_interest_rate: input.current_interest_rate?.toString() ?? null,
+      current_remaining_term_months: input.current_remaining_term_months ?? null,
+      current_mortgage_insurance_monthly: input.current_mortgage_insurance_monthly?.toString() ?? null,
+      cash_out_amount: input.cash_out_amount?.toString() ?? null,
+      temporary_buydown: input.temporary_buydown ?? null,
+      horizon_years: input.horizon_years ?? null
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
+
+export const createMortgageQuoteRequest = async (request: CreateMortgageQuoteRequestInput): Promise<MortgageQuoteRequest> => {
   try {
-    // Insert mortgage quote request record
-    const result = await db.insert(mortgageQuoteRequestsTable)
-      .values({
-        loan_amount: input.loan_amount.toString(),
-        property_value: input.property_value.toString(),
-        down_payment: input.down_payment.toString(),
-        credit_score: input.credit_score,
-        loan_type: input.loan_type,
-        loan_term: input.loan_term,
-        property_type: input.property_type,
-        occupancy_type: input.occupancy_type,
-        zip_code: input.zip_code,
-        debt_to_income_ratio: input.debt_to_income_ratio?.toString() || null
-      })
-      .returning()
-      .execute();
+    const quoteRequest = await insertMortgageQuoteRequest(db, resolveLoanAmounts(request));
 
     // Convert numeric fields back to numbers before returning
-    const quoteRequest = result[0];
     return {
       ...quoteRequest,
       loan_amount: parseFloat(quoteRequest.loan_amount),
@@ -30,6 +50,24 @@ export const createMortgageQuoteRequest = async (input: CreateMortgageQuoteReque
       down_payment: parseFloat(quoteRequest.down_payment),
       debt_to_income_ratio: quoteRequest.debt_to_income_ratio 
         ? parseFloat(quoteRequest.debt_to_income_ratio) 
+        : null,
+      gross_monthly_income: quoteRequest.gross_monthly_income !== null
+        ? parseFloat(quoteRequest.gross_monthly_income)
+        : null,
+      monthly_debts: quoteRequest.monthly_debts !== null
+        ? parseFloat(quoteRequest.monthly_debts)
+        : null,
+      current_loan_balance: quoteRequest.current_loan_balance !== null
+        ? parseFloat(quoteRequest.current_loan_balance)
+        : null,
+      current_interest_rate: quoteRequest.current_interest_rate !== null
+        ? parseFloat(quoteRequest.current_interest_rate)
+        : null,
+      current_mortgage_insurance_monthly: quoteRequest.current_mortgage_insurance_monthly !== null
+        ? parseFloat(quoteRequest.current_mortgage_insurance_monthly)
+        : null,
+      cash_out_amount: quoteRequest.cash_out_amount !== null
+        ? parseFloat(quoteRequest.cash_out_amount)
         : null
     };
   } catch (error) {
@@ -1,7 +1,52 @@
 import { db } from '../db';
-import { mortgageRatesTable, lendersTable } from '../db/schema';
+import { mortgageRatesTable, lendersTable, type MortgageRate as MortgageRateRow } from '../db/schema';
 import { type CreateMortgageRateInput, type MortgageRate } from '../schema';
 import { eq } from 'drizzle-orm';
+import { parseArmColumns, validateArmTerms } from '../lib/arm';
+import { validateRateWindow } from '../lib/rate_window';
+import { recordRateHistory } from './record_rate_history';
+
+// Accepts the db or a transaction so bulk imports can insert many rates atomically
+type Executor = Pick<typeof db, 'insert'>;
+
+// Insert a validated rate and its first history entry
+export const insertMortgageRate = async (executor: Executor, input: CreateMortgageRateInput): Promise<MortgageRateRow> => {
+  const inserted = await executor.insert(mortgageRatesTable)
+    .values({
+      lender_id: input.lender_id,
+      loan_type: input.loan_type,
+      loan_term: input.loan_term,
+      interest_rate: input.interest_rate.toString(), // Convert number to string for numeric column
+      apr: input.apr.toString(), // Convert number to string for numeric column
+      points: input.points.toString(), // Convert number to string for numeric column
+      min_credit_score: input.min_credit_score,
+      max_loan_amount: input.max_loan_amount.toString(), // Convert number to string for numeric column
+      min_down_payment_percent: input.min_down_payment_percent.toString(), // Convert number to string for numeric column
+      closing_costs: input.closing_costs?.toString() || null, // Convert number to string for numeric column
+      allowed_property_types: input.allowed_property_types, // Column defaults apply when omitted
+      allowed_occupancy_types: input.allowed_occupancy_types,
+      allowed_loan_purposes: input.allowed_loan_purposes,
+      max_units: input.max_units,
+      max_front_end_dti: input.max_front_end_dti?.toString() ?? null,
+      max_back_end_dti: input.max_back_end_dti?.toString() ?? null,
+      rate_type: input.rate_type,
+      arm_index: input.arm_index ?? null,
+      arm_index_value: input.arm_index_value?.toString() ?? null,
+      arm_margin: input.arm_margin?.toString() ?? null,
+      arm_initial_cap: input.arm_initial_cap?.toString() ?? null,
+      arm_periodic_cap: input.arm_periodic_cap?.toString() ?? null,
+      arm_lifetime_cap: input.arm_lifetime_cap?.toString() ?? null,
+      price_options: input.price_options,
+      effective_at: input.effective_at, // Column default (now) applies when omitted
+      expires_at: input.expires_at ?? null,
+      is_active: input.is_active
+    })
+    .returning()
+    .execute();
+
+  await recordRateHistory(executor, inserted[0], 'created');
+  return inserted[0];
+};
 
 export const createMortgageRate = async (input: CreateMortgageRateInput): Promise<MortgageRate> => {
   try {
@@ -15,26 +60,20 @@ export const createMortgageRate = async (input: CreateMortgageRateInput): Promis
       throw new Error(`Lender with ID ${input.lender_id} not found`);
     }
 
-    // Insert mortgage rate record
-    const result = await db.insert(mortgageRatesTable)
-      .values({
-        lender_id: input.lender_id,
-        loan_type: input.loan_type,
-        loan_term: input.loan_term,
-        interest_rate: input.interest_rate.toString(), // Convert number to string for numeric column
-        apr: input.apr.toString(), // Convert number to string for numeric column
-        points: input.points.toString(), // Convert number to string for numeric column
-        min_credit_score: input.min_credit_score,
-        max_loan_amount: input.max_loan_amount.toString(), // Convert number to string for numeric column
-        min_down_payment_percent: input.min_down_payment_percent.toString(), // Convert number to string for numeric column
-        closing_costs: input.closing_costs?.toString() || null, // Convert number to string for numeric column
-        is_active: input.is_active
-      })
-      .returning()
-      .execute();
+    validateArmTerms(input.rate_type ?? 'fixed', {
+      arm_index: input.arm_index,
+      arm_index_value: input.arm_index_value,
+      arm_margin: input.arm_margin,
+      arm_initial_cap: input.arm_initial_cap,
+      arm_periodic_cap: input.arm_periodic_cap,
+      arm_lifetime_cap: input.arm_lifetime_cap
+    });
+    validateRateWindow(input.effective_at ?? new Date(), input.expires_at);
+
+    // Insert mortgage rate record and its first history entry together
+    const mortgageRate = await db.transaction(tx => insertMortgageRate(tx, input));
 
     // Convert numeric fields back to numbers before returning
-    const mortgageRate = result[0];
     return {
       ...mortgageRate,
       interest_rate: parseFloat(mortgageRate.interest_rate), // Convert string back to number
@@ -42,7 +81,10 @@ export const createMortgageRate = async (input: CreateMortgageRateInput): Promis
       points: parseFloat(mortgageRate.points), // Convert string back to number
       max_loan_amount: parseFloat(mortgageRate.max_loan_amount), // Convert string back to number
       min_down_payment_percent: parseFloat(mortgageRate.min_down_payment_percent), // Convert string back to number
-      closing_costs: mortgageRate.closing_costs ? parseFloat(mortgageRate.closing_costs) : null // Convert string back to number
+      closing_costs: mortgageRate.closing_costs ? parseFloat(mortgageRate.closing_costs) : null, // Convert string back to number
+      max_front_end_dti: mortgageRate.max_front_end_dti !== null ? parseFloat(mortgageRate.max_front_end_dti) : null,
+      max_back_end_dti: mortgageRate.max_back_end_dti !== null ? parseFloat(mortgageRate.max_back_end_dti) : null,
+      ...parseArmColumns(mortgageRate)
     };
   } catch (error) {
     console.error('Mortgage rate creation failed:', error);
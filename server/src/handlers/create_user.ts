@@ -0,0 +1,56 @@
+import { db } from '../db';
+import { lendersTable, usersTable, type User as UserRow } from '../db/schema';
+import { type CreateUserInput, type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { hashPassword } from '../lib/auth';
+
+// Strip the password hash before a user leaves the server
+export const toUser = ({ password_hash, ...user }: UserRow): User => user;
+
+export const createUser = async (input: CreateUserInput): Promise<User> => {
+  try {
+    const email = input.email.toLowerCase();
+
+    const existing = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, email))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`User with email ${email} already exists`);
+    }
+
+    // Lender reps act on behalf of exactly one lender
+    const lenderId = input.role === 'lender_rep' ? input.lender_id ?? null : null;
+    if (input.role === 'lender_rep') {
+      if (lenderId === null) {
+        throw new Error('Lender reps require a lender_id');
+      }
+
+      const lender = await db.select()
+        .from(lendersTable)
+        .where(eq(lendersTable.id, lenderId))
+        .execute();
+
+      if (lender.length === 0) {
+        throw new Error(`Lender with ID ${lenderId} not found`);
+      }
+    }
+
+    const result = await db.insert(usersTable)
+      .values({
+        email,
+        password_hash: hashPassword(input.password),
+        name: input.name,
+        role: input.role,
+        lender_id: lenderId
+      })
+      .returning()
+      .execute();
+
+    return toUser(result[0]);
+  } catch (error) {
+    console.error('User creation failed:', error);
+    throw error;
+  }
+};
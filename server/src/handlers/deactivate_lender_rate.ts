@@ -0,0 +1,12 @@
+import { type DeactivateLenderRateInput, type MortgageRate } from '../schema';
+import { updateLenderRate } from './update_lender_rate';
+
+// Rates are deactivated rather than deleted so quote and rate history stay intact
+export const deactivateLenderRate = async (lenderId: number, input: DeactivateLenderRateInput): Promise<MortgageRate> => {
+  try {
+    return await updateLenderRate(lenderId, { id: input.id, is_active: false });
+  } catch (error) {
+    console.error('Lender rate deactivation failed:', error);
+    throw error;
+  }
+};
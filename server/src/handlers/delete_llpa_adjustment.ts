@@ -0,0 +1,30 @@
+import { db } from '../db';
+import { llpaAdjustmentsTable } from '../db/schema';
+import { type DeleteLlpaAdjustmentInput, type LlpaAdjustment } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const deleteLlpaAdjustment = async (input: DeleteLlpaAdjustmentInput): Promise<LlpaAdjustment> => {
+  try {
+    const result = await db.delete(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`LLPA adjustment with ID ${input.id} not found`);
+    }
+
+    // Return the deleted row with numeric fields converted
+    const adjustment = result[0];
+    return {
+      ...adjustment,
+      min_ltv: adjustment.min_ltv !== null ? parseFloat(adjustment.min_ltv) : null,
+      max_ltv: adjustment.max_ltv !== null ? parseFloat(adjustment.max_ltv) : null,
+      rate_adjustment: parseFloat(adjustment.rate_adjustment),
+      points_adjustment: parseFloat(adjustment.points_adjustment)
+    };
+  } catch (error) {
+    console.error('LLPA adjustment deletion failed:', error);
+    throw error;
+  }
+};
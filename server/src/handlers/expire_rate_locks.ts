@@ -0,0 +1,17 @@
+import { db } from '../db';
+import { rateLocksTable } from '../db/schema';
+import { and, inArray, lte } from 'drizzle-orm';
+
+// Locks lapse once expires_at passes; run before reading or changing locks
+export const expireRateLocks = async (now: Date = new Date()): Promise<number> => {
+  const expired = await db.update(rateLocksTable)
+    .set({ status: 'expired', updated_at: now })
+    .where(and(
+      inArray(rateLocksTable.status, ['locked', 'extended']),
+      lte(rateLocksTable.expires_at, now)
+    ))
+    .returning({ id: rateLocksTable.id })
+    .execute();
+
+  return expired.length;
+};
@@ -0,0 +1,25 @@
+import { type ExportRateSheetInput, type RateSheetExport } from '../schema';
+import { formatRateSheetCsv, rateToSheetRecord } from '../lib/rate_sheet';
+import { listMortgageRates } from './list_mortgage_rates';
+
+export const exportRateSheet = async (input: ExportRateSheetInput): Promise<RateSheetExport> => {
+  try {
+    const { format, ...filters } = input;
+    const rates = await listMortgageRates(filters);
+
+    const date = new Date().toISOString().slice(0, 10);
+    const content = format === 'csv'
+      ? formatRateSheetCsv(rates)
+      : JSON.stringify(rates.map(rateToSheetRecord), null, 2);
+
+    return {
+      format,
+      filename: `rate-sheet-${date}.${format}`,
+      content,
+      rate_count: rates.length
+    };
+  } catch (error) {
+    console.error('Rate sheet export failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { rateLocksTable } from '../db/schema';
+import { type ExtendRateLockInput, type RateLock } from '../schema';
+import { and, eq, gt, inArray } from 'drizzle-orm';
+import { findRateLock, toRateLock } from './get_rate_locks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Push back the expiry of a lock that has not yet lapsed
+export const extendRateLock = async (lenderId: number, input: ExtendRateLockInput): Promise<RateLock> => {
+  try {
+    const lock = await findRateLock(input.id);
+
+    if (lock.lender_id !== lenderId) {
+      throw new Error(`Rate lock with ID ${input.id} not found`);
+    }
+    if ((lock.status !== 'locked' && lock.status !== 'extended') || lock.expires_at === null) {
+      throw new Error(`Rate lock with ID ${input.id} cannot be extended from status ${lock.status}`);
+    }
+
+    // Extend from the expiry read above, and only while it has not lapsed
+    const now = new Date();
+    const updated = await db.update(rateLocksTable)
+      .set({
+        status: 'extended',
+        expires_at: new Date(lock.expires_at.getTime() + input.extension_days * DAY_MS),
+        updated_at: now
+      })
+      .where(and(
+        eq(rateLocksTable.id, input.id),
+        inArray(rateLocksTable.status, ['locked', 'extended']),
+        eq(rateLocksTable.expires_at, lock.expires_at),
+        gt(rateLocksTable.expires_at, now)
+      ))
+      .returning()
+      .execute();
+
+    // Another request changed the lock between the checks above and this update
+    if (updated.length === 0) {
+      throw new Error(`Rate lock with ID ${input.id} was changed by another request`);
+    }
+
+    return toRateLock(updated[0], lock.lender_name);
+  } catch (error) {
+    console.error('Rate lock extension failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,81 @@
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { type AffordabilityOption, type GetAffordabilityInput } from '../schema';
+import { and, arrayContains, asc, eq, lte } from 'drizzle-orm';
+import { solveAffordability } from '../lib/affordability';
+import { defaultFirstPaymentDate } from '../lib/mortgage_math';
+import { liveRateCondition } from '../lib/rate_window';
+import { getPropertyCostEstimate } from './get_property_cost_estimate';
+import { loadLlpaAdjustments } from './get_mortgage_quotes';
+
+// Highest purchase price on every live rate of the loan type, most affordable first
+export const getAffordability = async (input: GetAffordabilityInput): Promise<AffordabilityOption[]> => {
+  try {
+    const results = await db.select()
+      .from(mortgageRatesTable)
+      .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
+      .where(and(
+        eq(mortgageRatesTable.loan_type, input.loan_type),
+        lte(mortgageRatesTable.min_credit_score, input.credit_score),
+        arrayContains(mortgageRatesTable.allowed_property_types, ['single_family']),
+        arrayContains(mortgageRatesTable.allowed_occupancy_types, ['primary']),
+        arrayContains(mortgageRatesTable.allowed_loan_purposes, ['purchase']),
+        liveRateCondition(),
+        eq(lendersTable.is_active, true)
+      ))
+      .orderBy(asc(mortgageRatesTable.apr), asc(mortgageRatesTable.id))
+      .execute();
+
+    const propertyCosts = await getPropertyCostEstimate({ zip_code: input.zip_code });
+    const llpaAdjustments = await loadLlpaAdjustments(results.map(result => result.lenders.id));
+    const firstPaymentDate = defaultFirstPaymentDate();
+
+    const options: AffordabilityOption[] = [];
+    for (const { mortgage_rates: rate, lenders: lender } of results) {
+      const loan = solveAffordability(
+        {
+          loan_type: rate.loan_type,
+          loan_term_years: parseInt(rate.loan_term),
+          interest_rate: parseFloat(rate.interest_rate),
+          points: parseFloat(rate.points),
+          closing_costs: rate.closing_costs !== null ? parseFloat(rate.closing_costs) : 0,
+          max_loan_amount: parseFloat(rate.max_loan_amount),
+          min_down_payment_percent: parseFloat(rate.min_down_payment_percent),
+          max_front_end_dti: rate.max_front_end_dti !== null ? parseFloat(rate.max_front_end_dti) : null,
+          max_back_end_dti: rate.max_back_end_dti !== null ? parseFloat(rate.max_back_end_dti) : null
+        },
+        {
+          gross_monthly_income: input.gross_monthly_income,
+          monthly_debts: input.monthly_debts,
+          available_cash: input.available_cash,
+          credit_score: input.credit_score,
+          property_tax_rate: propertyCosts.property_tax_rate,
+          insurance_rate: propertyCosts.insurance_rate
+        },
+        llpaAdjustments.filter(adjustment => adjustment.lender_id === rate.lender_id),
+        firstPaymentDate
+      );
+
+      // Rates the borrower cannot afford at any price are left out
+      if (!loan) continue;
+
+      const { purchase_price, piti, ...terms } = loan;
+      options.push({
+        ...terms,
+        rate_id: rate.id,
+        lender_id: rate.lender_id,
+        lender_name: lender.name,
+        loan_type: rate.loan_type,
+        loan_term: rate.loan_term,
+        rate_type: rate.rate_type,
+        max_purchase_price: purchase_price,
+        piti_monthly: piti
+      });
+    }
+
+    return options.sort((a, b) => b.max_purchase_price - a.max_purchase_price);
+  } catch (error) {
+    console.error('Affordability calculation failed:', error);
+    throw error;
+  }
+};
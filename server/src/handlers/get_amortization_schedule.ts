@@ -0,0 +1,79 @@
+import { db } from '../db';
+import { mortgageRatesTable } from '../db/schema';
+import { type AmortizationScheduleInput, type AmortizationSchedule } from '../schema';
+import { eq } from 'drizzle-orm';
+import {
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  defaultFirstPaymentDate,
+  roundCurrency,
+  sumInterest
+} from '../lib/mortgage_math';
+import { estimateMortgageInsurance } from '../lib/mortgage_insurance';
+import { parseArmColumns, projectedArmRates } from '../lib/arm';
+
+export const getAmortizationSchedule = async (input: AmortizationScheduleInput): Promise<AmortizationSchedule> => {
+  try {
+    const rates = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.id, input.rate_id))
+      .execute();
+
+    if (rates.length === 0) {
+      throw new Error(`Mortgage rate with ID ${input.rate_id} not found`);
+    }
+
+    const rate = rates[0];
+    const interestRate = parseFloat(rate.interest_rate);
+    const loanTermYears = parseInt(rate.loan_term);
+    const firstPaymentDate = input.first_payment_date ?? defaultFirstPaymentDate();
+    // ARM payments follow the projected rate path after the fixed period
+    const yearlyRates = projectedArmRates({ rate_type: rate.rate_type, ...parseArmColumns(rate) }, interestRate, loanTermYears);
+
+    // Build the schedule with and without extra payments to report the savings
+    const rows = buildAmortizationSchedule(input.loan_amount, interestRate, loanTermYears, firstPaymentDate, {
+      extra_monthly_payment: input.extra_monthly_payment,
+      extra_annual_payment: input.extra_annual_payment,
+      extra_annual_payment_month: input.extra_annual_payment_month,
+      one_time_payment: input.one_time_payment,
+      one_time_payment_number: input.one_time_payment_number
+    }, yearlyRates);
+    const scheduledPayments = buildAmortizationSchedule(input.loan_amount, interestRate, loanTermYears, firstPaymentDate, {}, yearlyRates);
+
+    const mortgageInsurance = estimateMortgageInsurance({
+      loan_type: rate.loan_type,
+      loan_amount: input.loan_amount,
+      property_value: input.property_value,
+      credit_score: input.credit_score,
+      loan_term_years: loanTermYears
+    }, rows);
+    const payments = rows.map((row, i) => ({
+      ...row,
+      mortgage_insurance: mortgageInsurance.monthly_premiums[i]
+    }));
+
+    const totalInterest = sumInterest(rows);
+
+    return {
+      rate_id: rate.id,
+      lender_id: rate.lender_id,
+      loan_amount: input.loan_amount,
+      interest_rate: interestRate,
+      loan_term: rate.loan_term,
+      monthly_payment: calculateMonthlyPayment(input.loan_amount, interestRate, loanTermYears),
+      payments,
+      total_interest: totalInterest,
+      mortgage_insurance_upfront: mortgageInsurance.upfront_premium,
+      mortgage_insurance_drop_off_month: mortgageInsurance.drop_off_month,
+      total_mortgage_insurance: mortgageInsurance.total_premiums,
+      number_of_payments: payments.length,
+      payoff_date: payments[payments.length - 1].payment_date,
+      scheduled_payoff_date: scheduledPayments[scheduledPayments.length - 1].payment_date,
+      months_saved: scheduledPayments.length - payments.length,
+      interest_saved: roundCurrency(sumInterest(scheduledPayments) - totalInterest)
+    };
+  } catch (error) {
+    console.error('Amortization schedule generation failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { type AprDiscrepancy, type GetAprDiscrepanciesInput } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+import { buildAmortizationSchedule, defaultFirstPaymentDate } from '../lib/mortgage_math';
+import { calculateApr, prepaidFinanceCharges, REG_Z_APR_TOLERANCE } from '../lib/apr';
+import { parseArmColumns, projectedArmRates } from '../lib/arm';
+
+export const DEFAULT_REFERENCE_LOAN_AMOUNT = 300000;
+
+export const getAprDiscrepancies = async (input: GetAprDiscrepanciesInput): Promise<AprDiscrepancy[]> => {
+  try {
+    const tolerance = input.tolerance ?? REG_Z_APR_TOLERANCE;
+
+    const results = await db.select()
+      .from(mortgageRatesTable)
+      .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
+      .where(eq(mortgageRatesTable.is_active, true))
+      .orderBy(asc(mortgageRatesTable.id))
+      .execute();
+
+    const discrepancies: AprDiscrepancy[] = [];
+
+    for (const result of results) {
+      const rate = result.mortgage_rates;
+      const interestRate = parseFloat(rate.interest_rate);
+      const points = parseFloat(rate.points);
+      const closingCosts = rate.closing_costs ? parseFloat(rate.closing_costs) : null;
+      const storedApr = parseFloat(rate.apr);
+      const loanAmount = input.reference_loan_amount
+        ?? Math.min(DEFAULT_REFERENCE_LOAN_AMOUNT, parseFloat(rate.max_loan_amount));
+
+      const loanTermYears = parseInt(rate.loan_term);
+      // ARM APRs are disclosed on the fully indexed rate after the fixed period
+      const yearlyRates = projectedArmRates({ rate_type: rate.rate_type, ...parseArmColumns(rate) }, interestRate, loanTermYears);
+
+      // Reference loan assumes no mortgage insurance, so only points and fees are finance charges
+      const schedule = buildAmortizationSchedule(loanAmount, interestRate, loanTermYears, defaultFirstPaymentDate(), {}, yearlyRates);
+      const calculatedApr = calculateApr({
+        loan_amount: loanAmount,
+        prepaid_finance_charges: prepaidFinanceCharges(loanAmount, points, closingCosts, 0),
+        payments: schedule.map(row => row.payment)
+      });
+
+      const difference = Math.round((storedApr - calculatedApr) * 1000) / 1000;
+      if (Math.abs(difference) <= tolerance) continue;
+
+      discrepancies.push({
+        rate_id: rate.id,
+        lender_id: rate.lender_id,
+        lender_name: result.lenders.name,
+        loan_type: rate.loan_type,
+        loan_term: rate.loan_term,
+        interest_rate: interestRate,
+        points,
+        closing_costs: closingCosts,
+        reference_loan_amount: loanAmount,
+        stored_apr: storedApr,
+        calculated_apr: calculatedApr,
+        difference
+      });
+    }
+
+    return discrepancies;
+  } catch (error) {
+    console.error('APR discrepancy check failed:', error);
+    throw error;
+  }
+};
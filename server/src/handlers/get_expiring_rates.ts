@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { type AdminMortgageRate, type GetExpiringRatesInput } from '../schema';
+import { and, asc, eq, gt, lte } from 'drizzle-orm';
+import { toAdminMortgageRate } from './list_mortgage_rates';
+
+export const getExpiringRates = async (input: GetExpiringRatesInput): Promise<AdminMortgageRate[]> => {
+  try {
+    const now = new Date();
+    const until = new Date(now.getTime() + input.within_hours * 60 * 60 * 1000);
+
+    const results = await db.select()
+      .from(mortgageRatesTable)
+      .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
+      .where(and(
+        eq(mortgageRatesTable.is_active, true),
+        gt(mortgageRatesTable.expires_at, now),
+        lte(mortgageRatesTable.expires_at, until)
+      ))
+      .orderBy(asc(mortgageRatesTable.expires_at), asc(mortgageRatesTable.id))
+      .execute();
+
+    return results.map(toAdminMortgageRate);
+  } catch (error) {
+    console.error('Failed to fetch expiring rates:', error);
+    throw error;
+  }
+};
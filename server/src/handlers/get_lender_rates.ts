@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { mortgageRatesTable } from '../db/schema';
+import { type MortgageRate } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+import { parseArmColumns } from '../lib/arm';
+
+// All of a lender's rates, including inactive ones
+export const getLenderRates = async (lenderId: number): Promise<MortgageRate[]> => {
+  try {
+    const results = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.lender_id, lenderId))
+      .orderBy(asc(mortgageRatesTable.id))
+      .execute();
+
+    return results.map(rate => ({
+      ...rate,
+      interest_rate: parseFloat(rate.interest_rate),
+      apr: parseFloat(rate.apr),
+      points: parseFloat(rate.points),
+      max_loan_amount: parseFloat(rate.max_loan_amount),
+      min_down_payment_percent: parseFloat(rate.min_down_payment_percent),
+      closing_costs: rate.closing_costs !== null ? parseFloat(rate.closing_costs) : null,
+      max_front_end_dti: rate.max_front_end_dti !== null ? parseFloat(rate.max_front_end_dti) : null,
+      max_back_end_dti: rate.max_back_end_dti !== null ? parseFloat(rate.max_back_end_dti) : null,
+      ...parseArmColumns(rate)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch lender rates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { llpaAdjustmentsTable } from '../db/schema';
+import { type GetLlpaAdjustmentsInput, type LlpaAdjustment } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export const getLlpaAdjustments = async (input: GetLlpaAdjustmentsInput): Promise<LlpaAdjustment[]> => {
+  try {
+    // Fetch the lender's full grid, active and inactive, in creation order
+    const results = await db.select()
+      .from(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.lender_id, input.lender_id))
+      .orderBy(asc(llpaAdjustmentsTable.id))
+      .execute();
+
+    return results.map(adjustment => ({
+      ...adjustment,
+      min_ltv: adjustment.min_ltv !== null ? parseFloat(adjustment.min_ltv) : null,
+      max_ltv: adjustment.max_ltv !== null ? parseFloat(adjustment.max_ltv) : null,
+      rate_adjustment: parseFloat(adjustment.rate_adjustment),
+      points_adjustment: parseFloat(adjustment.points_adjustment)
+    }));
+  } catch (error) {
+    console.error('Failed to fetch LLPA adjustments:', error);
+    throw error;
+  }
+};
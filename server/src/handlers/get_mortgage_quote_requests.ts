@@ -17,7 +17,15 @@ export const getMortgageQuoteRequests = async (): Promise<MortgageQuoteRequest[]
       loan_amount: parseFloat(request.loan_amount),
       property_value: parseFloat(request.property_value),
       down_payment: parseFloat(request.down_payment),
-      debt_to_income_ratio: request.debt_to_income_ratio ? parseFloat(request.debt_to_income_ratio) : null
+      debt_to_income_ratio: request.debt_to_income_ratio ? parseFloat(request.debt_to_income_ratio) : null,
+      gross_monthly_income: request.gross_monthly_income !== null ? parseFloat(request.gross_monthly_income) : null,
+      monthly_debts: request.monthly_debts !== null ? parseFloat(request.monthly_debts) : null,
+      current_loan_balance: request.current_loan_balance !== null ? parseFloat(request.current_loan_balance) : null,
+      current_interest_rate: request.current_interest_rate !== null ? parseFloat(request.current_interest_rate) : null,
+      current_mortgage_insurance_monthly: request.current_mortgage_insurance_monthly !== null
+        ? parseFloat(request.current_mortgage_insurance_monthly)
+        : null,
+      cash_out_amount: request.cash_out_amount !== null ? parseFloat(request.cash_out_amount) : null
     }));
   } catch (error) {
     console.error('Failed to fetch mortgage quote requests:', error);
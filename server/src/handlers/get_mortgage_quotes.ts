@@ -1,10 +1,59 @@
 import { db } from '../db';
-import { lendersTable, mortgageRatesTable } from '../db/schema';
-import { type CreateMortgageQuoteRequestInput, type MortgageQuote } from '../schema';
-import { eq, and, lte, gte, asc } from 'drizzle-orm';
+import { lendersTable, llpaAdjustmentsTable, mortgageRatesTable } from '../db/schema';
+import { type CreateMortgageQuoteRequestInput, type LlpaAdjustment, type MortgageQuote } from '../schema';
+import { eq, and, lte, gte, asc, arrayContains, inArray } from 'drizzle-orm';
+import {
+  buildAmortizationSchedule,
+  calculateMonthlyPayment,
+  calculateTotalInterest,
+  defaultFirstPaymentDate,
+  roundCurrency,
+  sumInterest
+} from '../lib/mortgage_math';
+import { estimateMortgageInsurance } from '../lib/mortgage_insurance';
+import { applyLlpaAdjustments } from '../lib/llpa';
+import { assessDti, worstStatus } from '../lib/qualification';
+import { calculateApr, prepaidFinanceCharges } from '../lib/apr';
+import { armTermsFor, parseArmColumns, projectArm } from '../lib/arm';
+import { liveRateCondition } from '../lib/rate_window';
+import { comparePriceOptions } from '../lib/price_options';
+import { projectBuydown } from '../lib/buydown';
+import { costOverHorizon } from '../lib/horizon_cost';
+import { analyzeRefinance, checkCashOutLimit, existingLoanFor, maxCashOut, resolveLoanAmounts } from '../lib/refinance';
+import { getPropertyCostEstimate } from './get_property_cost_estimate';
 
-export const getMortgageQuotes = async (input: CreateMortgageQuoteRequestInput): Promise<MortgageQuote[]> => {
+// Active price adjustment grids for the given lenders, in the order they apply
+export const loadLlpaAdjustments = async (lenderIds: number[]): Promise<LlpaAdjustment[]> => {
+  const uniqueLenderIds = [...new Set(lenderIds)];
+  if (uniqueLenderIds.length === 0) {
+    return [];
+  }
+
+  const llpaRows = await db.select()
+    .from(llpaAdjustmentsTable)
+    .where(and(
+      inArray(llpaAdjustmentsTable.lender_id, uniqueLenderIds),
+      eq(llpaAdjustmentsTable.is_active, true)
+    ))
+    .orderBy(asc(llpaAdjustmentsTable.id))
+    .execute();
+
+  return llpaRows.map(adjustment => ({
+    ...adjustment,
+    min_ltv: adjustment.min_ltv !== null ? parseFloat(adjustment.min_ltv) : null,
+    max_ltv: adjustment.max_ltv !== null ? parseFloat(adjustment.max_ltv) : null,
+    rate_adjustment: parseFloat(adjustment.rate_adjustment),
+    points_adjustment: parseFloat(adjustment.points_adjustment)
+  }));
+};
+
+export const getMortgageQuotes = async (request: CreateMortgageQuoteRequestInput): Promise<MortgageQuote[]> => {
   try {
+    // Refinances borrow the existing loan's balance against the home's equity
+    const input = resolveLoanAmounts(request);
+    const existingLoan = existingLoanFor(input);
+    const loanPurpose = input.loan_purpose ?? 'purchase';
+
     // Calculate derived values
     const downPaymentPercent = (input.down_payment / input.property_value) * 100;
     const loanToValueRatio = (input.loan_amount / input.property_value) * 100;
@@ -23,7 +72,17 @@ export const getMortgageQuotes = async (input: CreateMortgageQuoteRequestInput):
       min_credit_score: mortgageRatesTable.min_credit_score,
       max_loan_amount: mortgageRatesTable.max_loan_amount,
       min_down_payment_percent: mortgageRatesTable.min_down_payment_percent,
-      closing_costs: mortgageRatesTable.closing_costs
+      closing_costs: mortgageRatesTable.closing_costs,
+      max_front_end_dti: mortgageRatesTable.max_front_end_dti,
+      max_back_end_dti: mortgageRatesTable.max_back_end_dti,
+      rate_type: mortgageRatesTable.rate_type,
+      arm_index: mortgageRatesTable.arm_index,
+      arm_index_value: mortgageRatesTable.arm_index_value,
+      arm_margin: mortgageRatesTable.arm_margin,
+      arm_initial_cap: mortgageRatesTable.arm_initial_cap,
+      arm_periodic_cap: mortgageRatesTable.arm_periodic_cap,
+      arm_lifetime_cap: mortgageRatesTable.arm_lifetime_cap,
+      price_options: mortgageRatesTable.price_options
     })
     .from(mortgageRatesTable)
     .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
@@ -33,31 +92,147 @@ export const getMortgageQuotes = async (input: CreateMortgageQuoteRequestInput):
       lte(mortgageRatesTable.min_credit_score, input.credit_score),
       gte(mortgageRatesTable.max_loan_amount, input.loan_amount.toString()),
       lte(mortgageRatesTable.min_down_payment_percent, downPaymentPercent.toString()),
-      eq(mortgageRatesTable.is_active, true),
+      arrayContains(mortgageRatesTable.allowed_property_types, [input.property_type]),
+      arrayContains(mortgageRatesTable.allowed_occupancy_types, [input.occupancy_type]),
+      arrayContains(mortgageRatesTable.allowed_loan_purposes, [loanPurpose]),
+      gte(mortgageRatesTable.max_units, input.number_of_units ?? 1),
+      liveRateCondition(),
       eq(lendersTable.is_active, true)
     ))
     .orderBy(asc(mortgageRatesTable.apr))
     .execute();
 
+    // Taxes and homeowners insurance depend only on the property, not the rate
+    const propertyCosts = await getPropertyCostEstimate({ zip_code: input.zip_code });
+    const monthlyTaxes = roundCurrency(input.property_value * propertyCosts.property_tax_rate / 100 / 12);
+    const monthlyInsurance = roundCurrency(input.property_value * propertyCosts.insurance_rate / 100 / 12);
+    const monthlyHoa = 0; // Placeholder until HOA dues are collected
+
+    // Load the active price adjustment grids of every lender with a matching rate
+    const llpaAdjustments = await loadLlpaAdjustments(results.map(result => result.lender_id));
+
     // Transform results into mortgage quotes with calculations
-    return results.map(result => {
-      const interestRate = parseFloat(result.interest_rate);
-      const apr = parseFloat(result.apr);
-      const points = parseFloat(result.points);
+    const quotes = results.map(result => {
+      const baseInterestRate = parseFloat(result.interest_rate);
+      const basePoints = parseFloat(result.points);
+      const pricing = applyLlpaAdjustments(
+        baseInterestRate,
+        basePoints,
+        llpaAdjustments.filter(adjustment => adjustment.lender_id === result.lender_id),
+        {
+          loan_type: result.loan_type,
+          credit_score: input.credit_score,
+          loan_to_value_ratio: loanToValueRatio,
+          occupancy_type: input.occupancy_type,
+          property_type: input.property_type,
+          loan_purpose: loanPurpose
+        }
+      );
+
+      const interestRate = pricing.interest_rate;
+      const points = pricing.points;
+      // Rate sheet APR moves with the borrower's rate adjustments
+      const apr = Math.round((parseFloat(result.apr) + interestRate - baseInterestRate) * 1000) / 1000;
       const closingCosts = result.closing_costs ? parseFloat(result.closing_costs) : null;
       
+      const loanTermYears = parseInt(input.loan_term);
+      const firstPaymentDate = defaultFirstPaymentDate();
+
+      // ARMs amortize along the projected rate path once the fixed period ends
+      const armTerms = armTermsFor({ rate_type: result.rate_type, ...parseArmColumns(result) });
+      const arm = armTerms && result.arm_index
+        ? projectArm({
+          rate_type: result.rate_type,
+          index: result.arm_index,
+          terms: armTerms,
+          interest_rate: interestRate,
+          loan_amount: input.loan_amount,
+          loan_term_years: loanTermYears,
+          first_payment_date: firstPaymentDate
+        })
+        : null;
+
       const monthlyPayment = calculateMonthlyPayment(
         input.loan_amount, 
         interestRate, 
-        parseInt(input.loan_term)
+        loanTermYears
       );
-      
-      const totalInterest = calculateTotalInterest(
-        input.loan_amount, 
-        interestRate, 
-        parseInt(input.loan_term)
+
+      // Mortgage insurance depends on how quickly the balance amortizes
+      const schedule = buildAmortizationSchedule(
+        input.loan_amount,
+        interestRate,
+        loanTermYears,
+        firstPaymentDate,
+        {},
+        arm?.projected_rates
+      );
+
+      const totalInterest = arm
+        ? sumInterest(schedule)
+        : calculateTotalInterest(input.loan_amount, interestRate, loanTermYears);
+
+      const mortgageInsurance = estimateMortgageInsurance({
+        loan_type: result.loan_type,
+        loan_amount: input.loan_amount,
+        property_value: input.property_value,
+        credit_score: input.credit_score,
+        loan_term_years: loanTermYears
+      }, schedule);
+
+      // Actual APR for this borrower's loan amount and finance charges
+      const financeCharges = prepaidFinanceCharges(input.loan_amount, points, closingCosts, mortgageInsurance.upfront_premium);
+      const calculatedApr = calculateApr({
+        loan_amount: input.loan_amount,
+        prepaid_finance_charges: financeCharges,
+        payments: schedule.map((row, i) => row.payment + mortgageInsurance.monthly_premiums[i])
+      });
+
+      // Borrower adjustments move every published rate/points pairing by the same amount
+      const priceOptions = comparePriceOptions(
+        input.loan_amount,
+        loanTermYears,
+        [{ interest_rate: baseInterestRate, points: basePoints }, ...result.price_options].map(option => ({
+          interest_rate: Math.round((option.interest_rate + interestRate - baseInterestRate) * 1000) / 1000,
+          points: Math.round((option.points + points - basePoints) * 1000) / 1000
+        }))
       );
 
+      const pitiTotal = roundCurrency(monthlyPayment + mortgageInsurance.monthly_premium + monthlyTaxes + monthlyInsurance + monthlyHoa);
+      const refinance = existingLoan
+        ? analyzeRefinance(existingLoan, {
+          monthly_payment: monthlyPayment,
+          mortgage_insurance_monthly: mortgageInsurance.monthly_premium,
+          total_interest: totalInterest,
+          refinance_costs: financeCharges,
+          max_cash_out: existingLoan.cash_out > 0
+            ? maxCashOut(existingLoan, result.loan_type, input.property_value, {
+              max_loan_amount: parseFloat(result.max_loan_amount),
+              min_down_payment_percent: parseFloat(result.min_down_payment_percent)
+            })
+            : null
+        })
+        : null;
+
+      const qualification = assessDti({
+        loan_type: result.loan_type,
+        housing_payment: pitiTotal,
+        gross_monthly_income: input.gross_monthly_income,
+        monthly_debts: input.monthly_debts,
+        stated_debt_to_income_ratio: input.debt_to_income_ratio,
+        max_front_end_dti: result.max_front_end_dti !== null ? parseFloat(result.max_front_end_dti) : null,
+        max_back_end_dti: result.max_back_end_dti !== null ? parseFloat(result.max_back_end_dti) : null
+      });
+
+      // Cash out past the program's limit is quoted as ineligible rather than dropped
+      if (loanPurpose === 'cash_out_refinance') {
+        const cashOutCheck = checkCashOutLimit(result.loan_type, loanToValueRatio, refinance?.max_cash_out ?? null);
+        if (cashOutCheck.reason) {
+          qualification.status = worstStatus(qualification.status, cashOutCheck.status);
+          qualification.reasons.push(cashOutCheck.reason);
+        }
+      }
+
       return {
         rate_id: result.rate_id,
         lender_id: result.lender_id,
@@ -65,43 +240,61 @@ export const getMortgageQuotes = async (input: CreateMortgageQuoteRequestInput):
         lender_logo_url: result.lender_logo_url,
         loan_type: result.loan_type,
         loan_term: result.loan_term,
+        rate_type: result.rate_type,
+        base_interest_rate: baseInterestRate,
+        base_points: basePoints,
+        price_adjustments: pricing.adjustments,
         interest_rate: interestRate,
         apr: apr,
+        calculated_apr: calculatedApr,
         points: points,
         monthly_payment: monthlyPayment,
         total_interest: totalInterest,
         closing_costs: closingCosts,
         down_payment_percent: Math.round(downPaymentPercent * 100) / 100,
-        loan_to_value_ratio: Math.round(loanToValueRatio * 100) / 100
+        loan_to_value_ratio: Math.round(loanToValueRatio * 100) / 100,
+        mortgage_insurance_monthly: mortgageInsurance.monthly_premium,
+        mortgage_insurance_upfront: mortgageInsurance.upfront_premium,
+        mortgage_insurance_drop_off_month: mortgageInsurance.drop_off_month,
+        total_mortgage_insurance: mortgageInsurance.total_premiums,
+        piti_monthly: {
+          principal: schedule[0].principal,
+          interest: schedule[0].interest,
+          taxes: monthlyTaxes,
+          insurance: monthlyInsurance,
+          mortgage_insurance: mortgageInsurance.monthly_premium,
+          hoa: monthlyHoa,
+          total: pitiTotal
+        },
+        qualification,
+        arm_projection: arm?.projection ?? null,
+        price_options: priceOptions,
+        temporary_buydown: input.temporary_buydown
+          ? projectBuydown({
+            type: input.temporary_buydown,
+            loan_amount: input.loan_amount,
+            interest_rate: interestRate,
+            loan_term_years: loanTermYears,
+            housing_payment: pitiTotal
+          })
+          : null,
+        horizon_cost: input.horizon_years
+          ? costOverHorizon({
+            horizon_years: input.horizon_years,
+            loan_amount: input.loan_amount,
+            upfront_costs: financeCharges,
+            schedule,
+            monthly_premiums: mortgageInsurance.monthly_premiums
+          })
+          : null,
+        refinance
       };
     });
+
+    // Adjustments can reorder lenders, so sort again on the borrower's APR
+    return quotes.sort((a, b) => a.apr - b.apr);
   } catch (error) {
     console.error('Mortgage quotes retrieval failed:', error);
     throw error;
   }
 };
-
-// Calculate monthly payment using standard mortgage formula
-// M = P [ r(1 + r)^n ] / [ (1 + r)^n – 1]
-function calculateMonthlyPayment(loanAmount: number, interestRate: number, loanTermYears: number): number {
-  const monthlyRate = interestRate / 100 / 12;
-  const numberOfPayments = loanTermYears * 12;
-  
-  if (monthlyRate === 0) {
-    return loanAmount / numberOfPayments;
-  }
-  
-  const monthlyPayment = loanAmount * 
-    (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) / 
-    (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
-  
-  return Math.round(monthlyPayment * 100) / 100;
-}
-
-// Calculate total interest paid over the life of the loan
-function calculateTotalInterest(loanAmount: number, interestRate: number, loanTermYears: number): number {
-  const monthlyPayment = calculateMonthlyPayment(loanAmount, interestRate, loanTermYears);
-  const totalPayments = monthlyPayment * loanTermYears * 12;
-  
-  return Math.round((totalPayments - loanAmount) * 100) / 100;
-}
\ No newline at end of file
@@ -2,15 +2,17 @@ import { db } from '../db';
 import { mortgageRatesTable, lendersTable } from '../db/schema';
 import { type MortgageRate } from '../schema';
 import { eq } from 'drizzle-orm';
+import { parseArmColumns } from '../lib/arm';
+import { liveRateCondition } from '../lib/rate_window';
 
 export const getMortgageRates = async (): Promise<MortgageRate[]> => {
   try {
     // Join mortgage rates with lenders to get complete information
-    // Only fetch active rates from active lenders
+    // Only fetch active rates that are currently within their effective window
     const results = await db.select()
       .from(mortgageRatesTable)
       .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
-      .where(eq(mortgageRatesTable.is_active, true))
+      .where(liveRateCondition())
       .execute();
 
     // Convert numeric fields back to numbers and flatten the joined structure
@@ -26,6 +28,18 @@ export const getMortgageRates = async (): Promise<MortgageRate[]> => {
       max_loan_amount: parseFloat(result.mortgage_rates.max_loan_amount),
       min_down_payment_percent: parseFloat(result.mortgage_rates.min_down_payment_percent),
       closing_costs: result.mortgage_rates.closing_costs ? parseFloat(result.mortgage_rates.closing_costs) : null,
+      allowed_property_types: result.mortgage_rates.allowed_property_types,
+      allowed_occupancy_types: result.mortgage_rates.allowed_occupancy_types,
+      allowed_loan_purposes: result.mortgage_rates.allowed_loan_purposes,
+      max_units: result.mortgage_rates.max_units,
+      max_front_end_dti: result.mortgage_rates.max_front_end_dti !== null ? parseFloat(result.mortgage_rates.max_front_end_dti) : null,
+      max_back_end_dti: result.mortgage_rates.max_back_end_dti !== null ? parseFloat(result.mortgage_rates.max_back_end_dti) : null,
+      rate_type: result.mortgage_rates.rate_type,
+      arm_index: result.mortgage_rates.arm_index,
+      ...parseArmColumns(result.mortgage_rates),
+      price_options: result.mortgage_rates.price_options,
+      effective_at: result.mortgage_rates.effective_at,
+      expires_at: result.mortgage_rates.expires_at,
       is_active: result.mortgage_rates.is_active,
       created_at: result.mortgage_rates.created_at,
       updated_at: result.mortgage_rates.updated_at
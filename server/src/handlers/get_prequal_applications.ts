@@ -0,0 +1,105 @@
+import { db } from '../db';
+import {
+  lendersTable,
+  prequalApplicationsTable,
+  prequalAssetsTable,
+  prequalEmploymentsTable,
+  prequalIncomesTable,
+  prequalLettersTable,
+  prequalLiabilitiesTable,
+  type PrequalApplication as PrequalApplicationRow,
+  type PrequalLetter as PrequalLetterRow
+} from '../db/schema';
+import { type PrequalApplication, type PrequalLetter } from '../schema';
+import { desc, eq, inArray } from 'drizzle-orm';
+
+export const toPrequalLetter = (letter: PrequalLetterRow, lenderName: string): PrequalLetter => ({
+  ...letter,
+  lender_name: lenderName,
+  interest_rate: parseFloat(letter.interest_rate),
+  loan_amount: parseFloat(letter.loan_amount),
+  purchase_price: parseFloat(letter.purchase_price)
+});
+
+// Attach each application's sections and letter, keeping the order of the rows passed in
+export const loadPrequalApplications = async (applications: PrequalApplicationRow[]): Promise<PrequalApplication[]> => {
+  if (applications.length === 0) {
+    return [];
+  }
+
+  const ids = applications.map(application => application.id);
+  const [employments, incomes, assets, liabilities, letters] = await Promise.all([
+    db.select().from(prequalEmploymentsTable).where(inArray(prequalEmploymentsTable.application_id, ids)).orderBy(prequalEmploymentsTable.id).execute(),
+    db.select().from(prequalIncomesTable).where(inArray(prequalIncomesTable.application_id, ids)).orderBy(prequalIncomesTable.id).execute(),
+    db.select().from(prequalAssetsTable).where(inArray(prequalAssetsTable.application_id, ids)).orderBy(prequalAssetsTable.id).execute(),
+    db.select().from(prequalLiabilitiesTable).where(inArray(prequalLiabilitiesTable.application_id, ids)).orderBy(prequalLiabilitiesTable.id).execute(),
+    db.select()
+      .from(prequalLettersTable)
+      .innerJoin(lendersTable, eq(prequalLettersTable.lender_id, lendersTable.id))
+      .where(inArray(prequalLettersTable.application_id, ids))
+      .execute()
+  ]);
+
+  return applications.map(application => {
+    const letter = letters.find(result => result.prequal_letters.application_id === application.id);
+
+    return {
+      ...application,
+      employments: employments
+        .filter(employment => employment.application_id === application.id)
+        .map(employment => ({
+          employer_name: employment.employer_name,
+          job_title: employment.job_title,
+          years_employed: parseFloat(employment.years_employed),
+          is_current: employment.is_current,
+          is_self_employed: employment.is_self_employed
+        })),
+      incomes: incomes
+        .filter(income => income.application_id === application.id)
+        .map(income => ({
+          income_type: income.income_type,
+          description: income.description,
+          monthly_amount: parseFloat(income.monthly_amount)
+        })),
+      assets: assets
+        .filter(asset => asset.application_id === application.id)
+        .map(asset => ({
+          asset_type: asset.asset_type,
+          institution: asset.institution,
+          balance: parseFloat(asset.balance)
+        })),
+      liabilities: liabilities
+        .filter(liability => liability.application_id === application.id)
+        .map(liability => ({
+          liability_type: liability.liability_type,
+          creditor: liability.creditor,
+          monthly_payment: parseFloat(liability.monthly_payment),
+          balance: parseFloat(liability.balance)
+        })),
+      gross_monthly_income: parseFloat(application.gross_monthly_income),
+      monthly_debts: parseFloat(application.monthly_debts),
+      total_assets: parseFloat(application.total_assets),
+      funds_to_close: parseFloat(application.funds_to_close),
+      front_end_dti: application.front_end_dti !== null ? parseFloat(application.front_end_dti) : null,
+      back_end_dti: application.back_end_dti !== null ? parseFloat(application.back_end_dti) : null,
+      loan_to_value_ratio: parseFloat(application.loan_to_value_ratio),
+      letter: letter ? toPrequalLetter(letter.prequal_letters, letter.lenders.name) : null
+    };
+  });
+};
+
+// A borrower's own applications, newest first
+export const getPrequalApplications = async (userId: number): Promise<PrequalApplication[]> => {
+  try {
+    const applications = await db.select()
+      .from(prequalApplicationsTable)
+      .where(eq(prequalApplicationsTable.user_id, userId))
+      .orderBy(desc(prequalApplicationsTable.created_at), desc(prequalApplicationsTable.id))
+      .execute();
+
+    return await loadPrequalApplications(applications);
+  } catch (error) {
+    console.error('Failed to fetch pre-qualification applications:', error);
+    throw error;
+  }
+};
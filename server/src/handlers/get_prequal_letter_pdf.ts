@@ -0,0 +1,125 @@
+import { db } from '../db';
+import { lendersTable, prequalApplicationsTable } from '../db/schema';
+import { type GetPrequalLetterPdfInput, type PrequalLetterPdf } from '../schema';
+import { loadPdfImage, type PdfImage } from '../lib/pdf';
+import { renderPrequalLetter } from '../lib/prequal_letter';
+import { and, eq } from 'drizzle-orm';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { loadPrequalApplications } from './get_prequal_applications';
+
+const LOGO_FETCH_TIMEOUT_MS = 5000;
+const LOGO_MAX_BYTES = 2 * 1024 * 1024;
+
+// Loopback, private, link-local (including cloud metadata) and other non-public ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Logos are fetched over https from public hosts only, so a stored URL cannot reach internal
+// services. Data URLs are decoded without a request.
+async function isFetchableLogoUrl(url: string): Promise<boolean> {
+  const parsed = URL.parse(url);
+  if (parsed?.protocol === 'data:') {
+    return true;
+  }
+  if (parsed?.protocol !== 'https:') {
+    return false;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+  const addresses = isIP(hostname)
+    ? [{ address: hostname, family: isIP(hostname) }]
+    : await lookup(hostname, { all: true });
+  return addresses.length > 0 && addresses.every(({ address, family }) =>
+    !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'));
+}
+
+// Reads the body up to the size limit, returning null once a logo turns out to be larger
+async function readLogoBody(response: Response): Promise<Uint8Array | null> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > LOGO_MAX_BYTES || !response.body) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    received += chunk.value.length;
+    if (received > LOGO_MAX_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+// Logos are best effort: an unreachable or unsupported image falls back to the text letterhead
+async function fetchLogo(url: string): Promise<PdfImage | null> {
+  try {
+    if (!(await isFetchableLogoUrl(url))) {
+      console.error('Lender logo URL is not a public https URL:', url);
+      return null;
+    }
+
+    // Redirects are refused since their target has not been checked
+    const response = await fetch(url, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS), redirect: 'error' });
+    if (!response.ok) {
+      return null;
+    }
+    const body = await readLogoBody(response);
+    return body ? loadPdfImage(body) : null;
+  } catch (error) {
+    console.error('Lender logo fetch failed:', error);
+    return null;
+  }
+}
+
+export const getPrequalLetterPdf = async (userId: number, input: GetPrequalLetterPdfInput): Promise<PrequalLetterPdf> => {
+  try {
+    // Other borrowers' applications are reported as missing rather than forbidden
+    const applications = await db.select()
+      .from(prequalApplicationsTable)
+      .where(and(
+        eq(prequalApplicationsTable.id, input.application_id),
+        eq(prequalApplicationsTable.user_id, userId)
+      ))
+      .execute();
+
+    if (applications.length === 0) {
+      throw new Error(`Pre-qualification application with ID ${input.application_id} not found`);
+    }
+
+    const [application] = await loadPrequalApplications(applications);
+    if (!application.letter) {
+      throw new Error(`Pre-qualification application with ID ${input.application_id} has no letter`);
+    }
+
+    const lenders = await db.select()
+      .from(lendersTable)
+      .where(eq(lendersTable.id, application.letter.lender_id))
+      .execute();
+    const lender = lenders[0];
+    const logo = lender.logo_url ? await fetchLogo(lender.logo_url) : null;
+
+    return {
+      filename: `prequalification-letter-${application.id}.pdf`,
+      content_type: 'application/pdf',
+      content: renderPrequalLetter(application.letter, lender, logo).toString('base64')
+    };
+  } catch (error) {
+    console.error('Pre-qualification letter rendering failed:', error);
+    throw error;
+  }
+};
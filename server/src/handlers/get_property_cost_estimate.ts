@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { propertyCostEstimatesTable } from '../db/schema';
+import { type GetPropertyCostEstimateInput, type PropertyCostEstimate } from '../schema';
+import { inArray } from 'drizzle-orm';
+
+// Used when neither the ZIP code nor its 3-digit prefix has been seeded
+export const NATIONAL_AVERAGE_PROPERTY_TAX_RATE = 1.1;
+export const NATIONAL_AVERAGE_INSURANCE_RATE = 0.45;
+
+export const getPropertyCostEstimate = async (input: GetPropertyCostEstimateInput): Promise<PropertyCostEstimate> => {
+  try {
+    const zip = input.zip_code.slice(0, 5);
+    const prefix = zip.slice(0, 3);
+
+    const results = await db.select()
+      .from(propertyCostEstimatesTable)
+      .where(inArray(propertyCostEstimatesTable.zip_prefix, [zip, prefix]))
+      .execute();
+
+    // An exact ZIP match is more specific than the prefix (county-level) estimate
+    const match = results.find(r => r.zip_prefix === zip) ?? results.find(r => r.zip_prefix === prefix);
+
+    if (!match) {
+      return {
+        zip_code: zip,
+        county: null,
+        state: null,
+        property_tax_rate: NATIONAL_AVERAGE_PROPERTY_TAX_RATE,
+        insurance_rate: NATIONAL_AVERAGE_INSURANCE_RATE,
+        source: 'national_average'
+      };
+    }
+
+    return {
+      zip_code: zip,
+      county: match.county,
+      state: match.state,
+      property_tax_rate: parseFloat(match.property_tax_rate),
+      insurance_rate: parseFloat(match.insurance_rate),
+      source: match.zip_prefix === zip ? 'zip' : 'zip_prefix'
+    };
+  } catch (error) {
+    console.error('Property cost estimate lookup failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { lendersTable, mortgageRateHistoryTable } from '../db/schema';
+import { type GetRateHistoryInput, type RateHistoryEntry } from '../schema';
+import { and, asc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+export const getRateHistory = async (input: GetRateHistoryInput): Promise<RateHistoryEntry[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.rate_id !== undefined) {
+      conditions.push(eq(mortgageRateHistoryTable.rate_id, input.rate_id));
+    }
+    if (input.lender_id !== undefined) {
+      conditions.push(eq(mortgageRateHistoryTable.lender_id, input.lender_id));
+    }
+    if (input.loan_type !== undefined) {
+      conditions.push(eq(mortgageRateHistoryTable.loan_type, input.loan_type));
+    }
+    if (input.loan_term !== undefined) {
+      conditions.push(eq(mortgageRateHistoryTable.loan_term, input.loan_term));
+    }
+    if (input.from !== undefined) {
+      conditions.push(gte(mortgageRateHistoryTable.recorded_at, input.from));
+    }
+    if (input.to !== undefined) {
+      conditions.push(lte(mortgageRateHistoryTable.recorded_at, input.to));
+    }
+
+    // Oldest first so the series can be charted directly
+    const results = await db.select()
+      .from(mortgageRateHistoryTable)
+      .innerJoin(lendersTable, eq(mortgageRateHistoryTable.lender_id, lendersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(mortgageRateHistoryTable.recorded_at), asc(mortgageRateHistoryTable.id))
+      .execute();
+
+    return results.map(result => ({
+      ...result.mortgage_rate_history,
+      lender_name: result.lenders.name,
+      interest_rate: parseFloat(result.mortgage_rate_history.interest_rate),
+      apr: parseFloat(result.mortgage_rate_history.apr),
+      points: parseFloat(result.mortgage_rate_history.points),
+      closing_costs: result.mortgage_rate_history.closing_costs !== null
+        ? parseFloat(result.mortgage_rate_history.closing_costs)
+        : null
+    }));
+  } catch (error) {
+    console.error('Failed to fetch rate history:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,66 @@
+import { db } from '../db';
+import { lendersTable, rateLocksTable, type RateLock as RateLockRow } from '../db/schema';
+import { type GetRateLocksInput, type RateLock } from '../schema';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+import { expireRateLocks } from './expire_rate_locks';
+
+export type RateLockFilters = GetRateLocksInput & {
+  user_id?: number; // Set for a borrower's own locks
+};
+
+export const toRateLock = (lock: RateLockRow, lenderName: string): RateLock => ({
+  ...lock,
+  lender_name: lenderName,
+  loan_amount: parseFloat(lock.loan_amount),
+  interest_rate: parseFloat(lock.interest_rate),
+  apr: parseFloat(lock.apr),
+  points: parseFloat(lock.points),
+  monthly_payment: parseFloat(lock.monthly_payment)
+});
+
+export const getRateLocks = async (filters: RateLockFilters): Promise<RateLock[]> => {
+  try {
+    await expireRateLocks();
+
+    const conditions: SQL<unknown>[] = [];
+
+    if (filters.user_id !== undefined) {
+      conditions.push(eq(rateLocksTable.user_id, filters.user_id));
+    }
+    if (filters.lender_id !== undefined) {
+      conditions.push(eq(rateLocksTable.lender_id, filters.lender_id));
+    }
+    if (filters.status !== undefined) {
+      conditions.push(eq(rateLocksTable.status, filters.status));
+    }
+
+    const results = await db.select()
+      .from(rateLocksTable)
+      .innerJoin(lendersTable, eq(rateLocksTable.lender_id, lendersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(rateLocksTable.created_at), desc(rateLocksTable.id))
+      .execute();
+
+    return results.map(result => toRateLock(result.rate_locks, result.lenders.name));
+  } catch (error) {
+    console.error('Failed to fetch rate locks:', error);
+    throw error;
+  }
+};
+
+// Load a single lock for a status change, after lapsing any expired locks
+export const findRateLock = async (id: number): Promise<RateLock> => {
+  await expireRateLocks();
+
+  const results = await db.select()
+    .from(rateLocksTable)
+    .innerJoin(lendersTable, eq(rateLocksTable.lender_id, lendersTable.id))
+    .where(eq(rateLocksTable.id, id))
+    .execute();
+
+  if (results.length === 0) {
+    throw new Error(`Rate lock with ID ${id} not found`);
+  }
+
+  return toRateLock(results[0].rate_locks, results[0].lenders.name);
+};
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { mortgageQuoteRequestsTable, quoteResultsTable } from '../db/schema';
+import { type GetSavedQuotesInput, type SavedQuotes } from '../schema';
+import { eq, asc } from 'drizzle-orm';
+
+export const getSavedQuotes = async (input: GetSavedQuotesInput): Promise<SavedQuotes> => {
+  try {
+    const requests = await db.select()
+      .from(mortgageQuoteRequestsTable)
+      .where(eq(mortgageQuoteRequestsTable.share_token, input.share_token))
+      .execute();
+
+    if (requests.length === 0) {
+      throw new Error(`Quote request with share token ${input.share_token} not found`);
+    }
+
+    const request = requests[0];
+    const results = await db.select()
+      .from(quoteResultsTable)
+      .where(eq(quoteResultsTable.quote_request_id, request.id))
+      .orderBy(asc(quoteResultsTable.position))
+      .execute();
+
+    return {
+      quote_request: {
+        ...request,
+        loan_amount: parseFloat(request.loan_amount),
+        property_value: parseFloat(request.property_value),
+        down_payment: parseFloat(request.down_payment),
+        debt_to_income_ratio: request.debt_to_income_ratio ? parseFloat(request.debt_to_income_ratio) : null,
+        gross_monthly_income: request.gross_monthly_income !== null ? parseFloat(request.gross_monthly_income) : null,
+        monthly_debts: request.monthly_debts !== null ? parseFloat(request.monthly_debts) : null,
+        current_loan_balance: request.current_loan_balance !== null ? parseFloat(request.current_loan_balance) : null,
+        current_interest_rate: request.current_interest_rate !== null ? parseFloat(request.current_interest_rate) : null,
+        current_mortgage_insurance_monthly: request.current_mortgage_insurance_monthly !== null
+          ? parseFloat(request.current_mortgage_insurance_monthly)
+          : null,
+        cash_out_amount: request.cash_out_amount !== null ? parseFloat(request.cash_out_amount) : null
+      },
+      // Quotes are returned exactly as generated, regardless of later rate changes
+      quotes: results.map(result => ({
+        ...result.quote_data,
+        quote_result_id: result.id
+      }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch saved quotes:', error);
+    throw error;
+  }
+};
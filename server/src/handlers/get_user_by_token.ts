@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { eq } from 'drizzle-orm';
+import { verifyToken } from '../lib/auth';
+import { toUser } from './create_user';
+
+// Resolve a bearer token to its active user, or null if the token or user is no longer valid
+export const getUserByToken = async (token: string): Promise<User | null> => {
+  try {
+    const payload = verifyToken(token);
+    if (!payload) return null;
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, payload.sub))
+      .execute();
+
+    const user = users[0];
+    return user && user.is_active ? toUser(user) : null;
+  } catch (error) {
+    console.error('Token authentication failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,154 @@
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import {
+  createMortgageRateInputSchema,
+  type ImportRateSheetInput,
+  type ImportRateSheetResult,
+  type RateSheetRowError,
+  type RateSheetRowPreview
+} from '../schema';
+import { and, eq, gt, gte, inArray, isNull, lt, or } from 'drizzle-orm';
+import { validateArmTerms } from '../lib/arm';
+import { validateRateWindow } from '../lib/rate_window';
+import { readRateSheet, rateSheetRowToInput } from '../lib/rate_sheet';
+import { insertMortgageRate } from './create_mortgage_rate';
+import { recordRateHistory } from './record_rate_history';
+
+// A replaced sheet stays quotable until the earliest incoming row takes effect, so a sheet
+// scheduled ahead does not leave the lender without rates in the meantime
+function replacementCutoffs(rows: RateSheetRowPreview[]): Map<number, Date> {
+  const now = new Date();
+  const cutoffs = new Map<number, Date>();
+  for (const { rate } of rows) {
+    const effectiveAt = rate.effective_at && rate.effective_at > now ? rate.effective_at : now;
+    const cutoff = cutoffs.get(rate.lender_id);
+    if (!cutoff || effectiveAt < cutoff) {
+      cutoffs.set(rate.lender_id, effectiveAt);
+    }
+  }
+  return cutoffs;
+}
+
+export const importRateSheet = async (input: ImportRateSheetInput): Promise<ImportRateSheetResult> => {
+  try {
+    // Sheet-level problems (unknown or missing columns) reject the whole import
+    const rows = readRateSheet(input.csv, input.lender_id !== undefined);
+
+    const lenders = await db.select({ id: lendersTable.id })
+      .from(lendersTable)
+      .execute();
+    const lenderIds = new Set(lenders.map(lender => lender.id));
+
+    const validRows: RateSheetRowPreview[] = [];
+    const errors: RateSheetRowError[] = [];
+
+    for (const { row, values } of rows) {
+      const raw = rateSheetRowToInput(values);
+      if (raw['lender_id'] === undefined && input.lender_id !== undefined) {
+        raw['lender_id'] = input.lender_id;
+      }
+
+      const parsed = createMortgageRateInputSchema.safeParse(raw);
+      if (!parsed.success) {
+        errors.push({
+          row,
+          messages: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        });
+        continue;
+      }
+
+      const rate = parsed.data;
+      const messages: string[] = [];
+      if (!lenderIds.has(rate.lender_id)) {
+        messages.push(`Lender with ID ${rate.lender_id} not found`);
+      }
+      try {
+        validateArmTerms(rate.rate_type ?? 'fixed', {
+          arm_index: rate.arm_index,
+          arm_index_value: rate.arm_index_value,
+          arm_margin: rate.arm_margin,
+          arm_initial_cap: rate.arm_initial_cap,
+          arm_periodic_cap: rate.arm_periodic_cap,
+          arm_lifetime_cap: rate.arm_lifetime_cap
+        });
+      } catch (error) {
+        messages.push(error instanceof Error ? error.message : String(error));
+      }
+      try {
+        validateRateWindow(rate.effective_at ?? new Date(), rate.expires_at);
+      } catch (error) {
+        messages.push(error instanceof Error ? error.message : String(error));
+      }
+
+      if (messages.length > 0) {
+        errors.push({ row, messages });
+      } else {
+        validRows.push({ row, rate });
+      }
+    }
+
+    // Only lenders with at least one valid row have their sheet replaced. Rates that already
+    // expire by the cutoff are left alone.
+    const cutoffs = input.replace_existing ? replacementCutoffs(validRows) : new Map<number, Date>();
+    const replacedRates: { id: number; lender_id: number }[] = [];
+    for (const [lenderId, cutoff] of cutoffs) {
+      const rates = await db.select({ id: mortgageRatesTable.id, lender_id: mortgageRatesTable.lender_id })
+        .from(mortgageRatesTable)
+        .where(and(
+          eq(mortgageRatesTable.lender_id, lenderId),
+          eq(mortgageRatesTable.is_active, true),
+          or(isNull(mortgageRatesTable.expires_at), gt(mortgageRatesTable.expires_at, cutoff))
+        ))
+        .execute();
+      replacedRates.push(...rates);
+    }
+
+    const result: ImportRateSheetResult = {
+      dry_run: input.dry_run,
+      total_rows: rows.length,
+      valid_rows: validRows,
+      errors,
+      imported_count: 0,
+      deactivated_count: replacedRates.length
+    };
+
+    if (input.dry_run || validRows.length === 0) {
+      return result;
+    }
+
+    // Replace the old rates and insert every valid row in one transaction
+    await db.transaction(async (tx) => {
+      for (const [lenderId, cutoff] of cutoffs) {
+        const ids = replacedRates.filter(rate => rate.lender_id === lenderId).map(rate => rate.id);
+        if (ids.length === 0) {
+          continue;
+        }
+
+        // Live rates expire at the cutoff; rates scheduled to start at or after it never go live
+        const expired = await tx.update(mortgageRatesTable)
+          .set({ expires_at: cutoff, updated_at: new Date() })
+          .where(and(inArray(mortgageRatesTable.id, ids), lt(mortgageRatesTable.effective_at, cutoff)))
+          .returning()
+          .execute();
+        const deactivated = await tx.update(mortgageRatesTable)
+          .set({ is_active: false, updated_at: new Date() })
+          .where(and(inArray(mortgageRatesTable.id, ids), gte(mortgageRatesTable.effective_at, cutoff)))
+          .returning()
+          .execute();
+
+        for (const rate of [...expired, ...deactivated]) {
+          await recordRateHistory(tx, rate, 'updated');
+        }
+      }
+
+      for (const { rate } of validRows) {
+        await insertMortgageRate(tx, rate);
+      }
+    });
+
+    return { ...result, imported_count: validRows.length };
+  } catch (error) {
+    console.error('Rate sheet import failed:', error);
+    throw error;
+  }
+};
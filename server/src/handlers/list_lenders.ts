@@ -0,0 +1,26 @@
+import { db } from '../db';
+import { lendersTable } from '../db/schema';
+import { type Lender, type ListLendersInput } from '../schema';
+import { and, asc, eq, ilike, type SQL } from 'drizzle-orm';
+
+export const listLenders = async (input: ListLendersInput): Promise<Lender[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.search) {
+      conditions.push(ilike(lendersTable.name, `%${input.search}%`));
+    }
+    if (input.is_active !== undefined) {
+      conditions.push(eq(lendersTable.is_active, input.is_active));
+    }
+
+    return await db.select()
+      .from(lendersTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(lendersTable.name), asc(lendersTable.id))
+      .execute();
+  } catch (error) {
+    console.error('Failed to list lenders:', error);
+    throw error;
+  }
+};
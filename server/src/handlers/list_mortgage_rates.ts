@@ -0,0 +1,60 @@
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, type Lender as LenderRow, type MortgageRate as MortgageRateRow } from '../db/schema';
+import { type AdminMortgageRate, type ListMortgageRatesInput } from '../schema';
+import { and, asc, eq, ilike, type SQL } from 'drizzle-orm';
+import { parseArmColumns } from '../lib/arm';
+
+type RateWithLender = { mortgage_rates: MortgageRateRow; lenders: LenderRow };
+
+// Convert a rate joined with its lender to the admin list shape
+export const toAdminMortgageRate = (result: RateWithLender): AdminMortgageRate => {
+  const rate = result.mortgage_rates;
+  return {
+    ...rate,
+    interest_rate: parseFloat(rate.interest_rate),
+    apr: parseFloat(rate.apr),
+    points: parseFloat(rate.points),
+    max_loan_amount: parseFloat(rate.max_loan_amount),
+    min_down_payment_percent: parseFloat(rate.min_down_payment_percent),
+    closing_costs: rate.closing_costs !== null ? parseFloat(rate.closing_costs) : null,
+    max_front_end_dti: rate.max_front_end_dti !== null ? parseFloat(rate.max_front_end_dti) : null,
+    max_back_end_dti: rate.max_back_end_dti !== null ? parseFloat(rate.max_back_end_dti) : null,
+    ...parseArmColumns(rate),
+    lender_name: result.lenders.name,
+    lender_is_active: result.lenders.is_active
+  };
+};
+
+export const listMortgageRates = async (input: ListMortgageRatesInput): Promise<AdminMortgageRate[]> => {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.search) {
+      conditions.push(ilike(lendersTable.name, `%${input.search}%`));
+    }
+    if (input.lender_id !== undefined) {
+      conditions.push(eq(mortgageRatesTable.lender_id, input.lender_id));
+    }
+    if (input.loan_type !== undefined) {
+      conditions.push(eq(mortgageRatesTable.loan_type, input.loan_type));
+    }
+    if (input.loan_term !== undefined) {
+      conditions.push(eq(mortgageRatesTable.loan_term, input.loan_term));
+    }
+    if (input.is_active !== undefined) {
+      conditions.push(eq(mortgageRatesTable.is_active, input.is_active));
+    }
+
+    const results = await db.select()
+      .from(mortgageRatesTable)
+      .innerJoin(lendersTable, eq(mortgageRatesTable.lender_id, lendersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(lendersTable.name), asc(mortgageRatesTable.id))
+      .execute();
+
+    return results.map(toAdminMortgageRate);
+  } catch (error) {
+    console.error('Failed to list mortgage rates:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,28 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type AuthSession, type LoginInput } from '../schema';
+import { eq } from 'drizzle-orm';
+import { signToken, verifyPassword } from '../lib/auth';
+import { toUser } from './create_user';
+
+export const loginUser = async (input: LoginInput): Promise<AuthSession> => {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email.toLowerCase()))
+      .execute();
+
+    // Same error for unknown emails and wrong passwords
+    const user = users[0];
+    if (!user || !user.is_active || !verifyPassword(input.password, user.password_hash)) {
+      throw new Error('Invalid email or password');
+    }
+
+    const { token, expires_at } = signToken({ sub: user.id, role: user.role });
+
+    return { token, expires_at, user: toUser(user) };
+  } catch (error) {
+    console.error('Login failed:', error);
+    throw error;
+  }
+};
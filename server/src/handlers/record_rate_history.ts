@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { mortgageRateHistoryTable, type MortgageRate } from '../db/schema';
+import { type RateChangeType } from '../schema';
+
+// Accepts the db or a transaction so the snapshot commits with the rate change
+type Executor = Pick<typeof db, 'insert'>;
+
+export const recordRateHistory = async (executor: Executor, rate: MortgageRate, changeType: RateChangeType): Promise<void> => {
+  await executor.insert(mortgageRateHistoryTable)
+    .values({
+      rate_id: rate.id,
+      change_type: changeType,
+      lender_id: rate.lender_id,
+      loan_type: rate.loan_type,
+      loan_term: rate.loan_term,
+      rate_type: rate.rate_type,
+      interest_rate: rate.interest_rate,
+      apr: rate.apr,
+      points: rate.points,
+      closing_costs: rate.closing_costs,
+      is_active: rate.is_active,
+      effective_at: rate.effective_at,
+      expires_at: rate.expires_at,
+      recorded_at: rate.updated_at
+    })
+    .execute();
+};
@@ -0,0 +1,16 @@
+import { type AuthSession, type RegisterUserInput } from '../schema';
+import { signToken } from '../lib/auth';
+import { createUser } from './create_user';
+
+export const registerUser = async (input: RegisterUserInput): Promise<AuthSession> => {
+  try {
+    // Self-registration can only create borrower accounts
+    const user = await createUser({ ...input, role: 'borrower' });
+    const { token, expires_at } = signToken({ sub: user.id, role: user.role });
+
+    return { token, expires_at, user };
+  } catch (error) {
+    console.error('User registration failed:', error);
+    throw error;
+  }
+};
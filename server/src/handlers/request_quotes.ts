@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { quoteResultsTable } from '../db/schema';
+import { type CreateMortgageQuoteRequestInput, type SavedQuotes } from '../schema';
+import { resolveLoanAmounts } from '../lib/refinance';
+import { insertMortgageQuoteRequest } from './create_mortgage_quote_request';
+import { getMortgageQuotes } from './get_mortgage_quotes';
+import { getSavedQuotes } from './get_saved_quotes';
+
+export const requestQuotes = async (request: CreateMortgageQuoteRequestInput): Promise<SavedQuotes> => {
+  try {
+    const input = resolveLoanAmounts(request);
+    const quotes = await getMortgageQuotes(input);
+
+    // Save the request and every quote it produced together
+    const shareToken = await db.transaction(async (tx) => {
+      const request = await insertMortgageQuoteRequest(tx, input);
+
+      if (quotes.length > 0) {
+        await tx.insert(quoteResultsTable)
+          .values(quotes.map((quote, position) => ({
+            quote_request_id: request.id,
+            rate_id: quote.rate_id,
+            lender_id: quote.lender_id,
+            position,
+            interest_rate: quote.interest_rate.toString(),
+            apr: quote.apr.toString(),
+            calculated_apr: quote.calculated_apr.toString(),
+            points: quote.points.toString(),
+            monthly_payment: quote.monthly_payment.toString(),
+            quote_data: quote
+          })))
+          .execute();
+      }
+
+      return request.share_token;
+    });
+
+    // Read back the snapshot so the response matches what reopening the link returns
+    return getSavedQuotes({ share_token: shareToken });
+  } catch (error) {
+    console.error('Quote request failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,83 @@
+import { db } from '../db';
+import { lendersTable, mortgageQuoteRequestsTable, mortgageRatesTable, quoteResultsTable, rateLocksTable } from '../db/schema';
+import { type RateLock, type RequestRateLockInput } from '../schema';
+import { and, eq, gt, sql } from 'drizzle-orm';
+import { liveRateCondition } from '../lib/rate_window';
+import { toRateLock } from './get_rate_locks';
+
+// Rate sheets move daily, so older quotes must be requoted before they can be locked.
+// Checked against the database clock, which stamps the quote's created_at.
+const QUOTE_LOCK_WINDOW = sql`interval '24 hours'`;
+
+export const requestRateLock = async (userId: number, input: RequestRateLockInput): Promise<RateLock> => {
+  try {
+    const results = await db.select()
+      .from(quoteResultsTable)
+      .innerJoin(mortgageQuoteRequestsTable, eq(quoteResultsTable.quote_request_id, mortgageQuoteRequestsTable.id))
+      .innerJoin(lendersTable, eq(quoteResultsTable.lender_id, lendersTable.id))
+      .where(and(
+        eq(quoteResultsTable.id, input.quote_result_id),
+        eq(mortgageQuoteRequestsTable.share_token, input.share_token)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Quote result with ID ${input.quote_result_id} not found`);
+    }
+
+    const freshQuotes = await db.select({ id: quoteResultsTable.id })
+      .from(quoteResultsTable)
+      .where(and(
+        eq(quoteResultsTable.id, input.quote_result_id),
+        gt(quoteResultsTable.created_at, sql`now() - ${QUOTE_LOCK_WINDOW}`)
+      ))
+      .execute();
+
+    if (freshQuotes.length === 0) {
+      throw new Error(`Quote result with ID ${input.quote_result_id} has expired; request new quotes to lock a rate`);
+    }
+
+    const liveRates = await db.select({ id: mortgageRatesTable.id })
+      .from(mortgageRatesTable)
+      .where(and(eq(mortgageRatesTable.id, results[0].quote_results.rate_id), liveRateCondition()))
+      .execute();
+
+    if (liveRates.length === 0) {
+      throw new Error(`Quote result with ID ${input.quote_result_id} is for a rate that is no longer offered`);
+    }
+
+    // Lock the quote exactly as the borrower saw it, not the rate sheet's current pricing
+    const { quote_results: result, mortgage_quote_requests: request, lenders: lender } = results[0];
+    const quote = result.quote_data;
+    const inserted = await db.insert(rateLocksTable)
+      .values({
+        user_id: userId,
+        quote_request_id: request.id,
+        quote_result_id: result.id,
+        rate_id: result.rate_id,
+        lender_id: result.lender_id,
+        lock_period: input.lock_period,
+        loan_type: quote.loan_type,
+        loan_term: quote.loan_term,
+        rate_type: quote.rate_type,
+        loan_amount: request.loan_amount,
+        interest_rate: result.interest_rate,
+        apr: result.apr,
+        points: result.points,
+        monthly_payment: result.monthly_payment,
+        price_adjustments: quote.price_adjustments
+      })
+      .onConflictDoNothing() // The open lock index allows one open lock per borrower and quote
+      .returning()
+      .execute();
+
+    if (inserted.length === 0) {
+      throw new Error(`Quote result with ID ${input.quote_result_id} already has an open rate lock`);
+    }
+
+    return toRateLock(inserted[0], lender.name);
+  } catch (error) {
+    console.error('Rate lock request failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,185 @@
+import { db } from '../db';
+import {
+  mortgageQuoteRequestsTable,
+  mortgageRatesTable,
+  prequalApplicationsTable,
+  prequalAssetsTable,
+  prequalEmploymentsTable,
+  prequalIncomesTable,
+  prequalLettersTable,
+  prequalLiabilitiesTable,
+  quoteResultsTable
+} from '../db/schema';
+import { type PrequalApplication, type SubmitPrequalApplicationInput } from '../schema';
+import {
+  assessDti,
+  checkCreditScore,
+  checkEmploymentHistory,
+  checkFundsToClose,
+  checkLoanToValue,
+  roundRatio,
+  worstStatus
+} from '../lib/qualification';
+import { roundCurrency } from '../lib/mortgage_math';
+import { and, eq } from 'drizzle-orm';
+import { loadPrequalApplications } from './get_prequal_applications';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const PREQUAL_LETTER_VALID_DAYS = 90;
+
+const sum = (amounts: number[]): number => roundCurrency(amounts.reduce((total, amount) => total + amount, 0));
+
+// Qualify the borrower for the quote they chose and issue a letter unless a rule fails outright
+export const submitPrequalApplication = async (userId: number, input: SubmitPrequalApplicationInput): Promise<PrequalApplication> => {
+  try {
+    const results = await db.select()
+      .from(quoteResultsTable)
+      .innerJoin(mortgageQuoteRequestsTable, eq(quoteResultsTable.quote_request_id, mortgageQuoteRequestsTable.id))
+      .innerJoin(mortgageRatesTable, eq(quoteResultsTable.rate_id, mortgageRatesTable.id))
+      .where(and(
+        eq(quoteResultsTable.id, input.quote_result_id),
+        eq(mortgageQuoteRequestsTable.share_token, input.share_token)
+      ))
+      .execute();
+
+    if (results.length === 0) {
+      throw new Error(`Quote result with ID ${input.quote_result_id} not found`);
+    }
+
+    const { quote_results: result, mortgage_quote_requests: request, mortgage_rates: rate } = results[0];
+    // Letters back a purchase offer, so refinance quotes cannot be pre-qualified
+    if (request.loan_purpose !== 'purchase') {
+      throw new Error(`Quote result with ID ${input.quote_result_id} is not a purchase quote`);
+    }
+
+    const quote = result.quote_data;
+    const loanAmount = parseFloat(request.loan_amount);
+    const propertyValue = parseFloat(request.property_value);
+
+    const grossMonthlyIncome = sum(input.incomes.map(income => income.monthly_amount));
+    const monthlyDebts = sum(input.liabilities.map(liability => liability.monthly_payment));
+    const totalAssets = sum(input.assets.map(asset => asset.balance));
+    const fundsToClose = roundCurrency(
+      parseFloat(request.down_payment) + (quote.closing_costs ?? 0) + loanAmount * quote.points / 100
+    );
+    const loanToValueRatio = roundRatio(loanAmount / propertyValue * 100);
+
+    // DTI uses the quote's full housing payment with the income and debts from the application
+    const dti = assessDti({
+      loan_type: quote.loan_type,
+      housing_payment: quote.piti_monthly.total,
+      gross_monthly_income: grossMonthlyIncome,
+      monthly_debts: monthlyDebts,
+      max_front_end_dti: rate.max_front_end_dti !== null ? parseFloat(rate.max_front_end_dti) : null,
+      max_back_end_dti: rate.max_back_end_dti !== null ? parseFloat(rate.max_back_end_dti) : null
+    });
+
+    const checks = [
+      checkCreditScore(request.credit_score, rate.min_credit_score),
+      checkLoanToValue(loanToValueRatio, parseFloat(rate.min_down_payment_percent)),
+      checkFundsToClose(totalAssets, fundsToClose)
+    ];
+    // Borrowers without employment, such as retirees, qualify on their other income. Jobs may
+    // overlap, so history is the longest single job rather than the total across jobs.
+    if (input.employments.length > 0) {
+      checks.push(checkEmploymentHistory(Math.max(...input.employments.map(employment => employment.years_employed))));
+    }
+
+    let status = dti.status;
+    const reasons = [...dti.reasons];
+    for (const check of checks) {
+      status = worstStatus(status, check.status);
+      if (check.reason) reasons.push(check.reason);
+    }
+
+    const application = await db.transaction(async (tx) => {
+      const inserted = await tx.insert(prequalApplicationsTable)
+        .values({
+          user_id: userId,
+          quote_request_id: request.id,
+          quote_result_id: result.id,
+          rate_id: result.rate_id,
+          lender_id: result.lender_id,
+          first_name: input.first_name,
+          last_name: input.last_name,
+          email: input.email.toLowerCase(),
+          phone: input.phone,
+          gross_monthly_income: grossMonthlyIncome.toString(),
+          monthly_debts: monthlyDebts.toString(),
+          total_assets: totalAssets.toString(),
+          funds_to_close: fundsToClose.toString(),
+          status,
+          front_end_dti: dti.front_end_dti !== null ? dti.front_end_dti.toString() : null,
+          back_end_dti: dti.back_end_dti !== null ? dti.back_end_dti.toString() : null,
+          loan_to_value_ratio: loanToValueRatio.toString(),
+          reasons
+        })
+        .returning()
+        .execute();
+      const applicationId = inserted[0].id;
+
+      if (input.employments.length > 0) {
+        await tx.insert(prequalEmploymentsTable)
+          .values(input.employments.map(employment => ({
+            ...employment,
+            application_id: applicationId,
+            years_employed: employment.years_employed.toString()
+          })))
+          .execute();
+      }
+      await tx.insert(prequalIncomesTable)
+        .values(input.incomes.map(income => ({
+          ...income,
+          application_id: applicationId,
+          monthly_amount: income.monthly_amount.toString()
+        })))
+        .execute();
+      if (input.assets.length > 0) {
+        await tx.insert(prequalAssetsTable)
+          .values(input.assets.map(asset => ({
+            ...asset,
+            application_id: applicationId,
+            balance: asset.balance.toString()
+          })))
+          .execute();
+      }
+      if (input.liabilities.length > 0) {
+        await tx.insert(prequalLiabilitiesTable)
+          .values(input.liabilities.map(liability => ({
+            ...liability,
+            application_id: applicationId,
+            monthly_payment: liability.monthly_payment.toString(),
+            balance: liability.balance.toString()
+          })))
+          .execute();
+      }
+
+      if (status !== 'ineligible') {
+        const issuedAt = new Date();
+        await tx.insert(prequalLettersTable)
+          .values({
+            application_id: applicationId,
+            lender_id: result.lender_id,
+            borrower_name: `${input.first_name} ${input.last_name}`,
+            loan_type: quote.loan_type,
+            loan_term: quote.loan_term,
+            rate_type: quote.rate_type,
+            interest_rate: result.interest_rate,
+            loan_amount: request.loan_amount,
+            purchase_price: request.property_value,
+            issued_at: issuedAt,
+            expires_at: new Date(issuedAt.getTime() + PREQUAL_LETTER_VALID_DAYS * DAY_MS)
+          })
+          .execute();
+      }
+
+      return inserted[0];
+    });
+
+    const [loaded] = await loadPrequalApplications([application]);
+    return loaded;
+  } catch (error) {
+    console.error('Pre-qualification application failed:', error);
+    throw error;
+  }
+};
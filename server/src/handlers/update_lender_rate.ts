@@ -0,0 +1,27 @@
+import { db } from '../db';
+import { mortgageRatesTable } from '../db/schema';
+import { type MortgageRate, type UpdateLenderRateInput } from '../schema';
+import { and, eq } from 'drizzle-orm';
+import { updateMortgageRate } from './update_mortgage_rate';
+
+export const updateLenderRate = async (lenderId: number, input: UpdateLenderRateInput): Promise<MortgageRate> => {
+  try {
+    // Another lender's rate is reported as missing rather than forbidden
+    const owned = await db.select({ id: mortgageRatesTable.id })
+      .from(mortgageRatesTable)
+      .where(and(
+        eq(mortgageRatesTable.id, input.id),
+        eq(mortgageRatesTable.lender_id, lenderId)
+      ))
+      .execute();
+
+    if (owned.length === 0) {
+      throw new Error(`Mortgage rate with ID ${input.id} not found`);
+    }
+
+    return await updateMortgageRate(input);
+  } catch (error) {
+    console.error('Lender rate update failed:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,55 @@
+import { db } from '../db';
+import { llpaAdjustmentsTable } from '../db/schema';
+import { type UpdateLlpaAdjustmentInput, type LlpaAdjustment } from '../schema';
+import { eq } from 'drizzle-orm';
+
+export const updateLlpaAdjustment = async (input: UpdateLlpaAdjustmentInput): Promise<LlpaAdjustment> => {
+  try {
+    // First, check if the adjustment exists
+    const existing = await db.select()
+      .from(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`LLPA adjustment with ID ${input.id} not found`);
+    }
+
+    // Build update object with only provided fields
+    const updateData: Partial<typeof llpaAdjustmentsTable.$inferInsert> = {
+      updated_at: new Date()
+    };
+
+    if (input.description !== undefined) updateData.description = input.description;
+    if (input.loan_type !== undefined) updateData.loan_type = input.loan_type;
+    if (input.min_credit_score !== undefined) updateData.min_credit_score = input.min_credit_score;
+    if (input.max_credit_score !== undefined) updateData.max_credit_score = input.max_credit_score;
+    if (input.min_ltv !== undefined) updateData.min_ltv = input.min_ltv !== null ? input.min_ltv.toString() : null;
+    if (input.max_ltv !== undefined) updateData.max_ltv = input.max_ltv !== null ? input.max_ltv.toString() : null;
+    if (input.occupancy_type !== undefined) updateData.occupancy_type = input.occupancy_type;
+    if (input.property_type !== undefined) updateData.property_type = input.property_type;
+    if (input.loan_purpose !== undefined) updateData.loan_purpose = input.loan_purpose;
+    if (input.rate_adjustment !== undefined) updateData.rate_adjustment = input.rate_adjustment.toString();
+    if (input.points_adjustment !== undefined) updateData.points_adjustment = input.points_adjustment.toString();
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(llpaAdjustmentsTable)
+      .set(updateData)
+      .where(eq(llpaAdjustmentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    // Convert numeric fields back to numbers before returning
+    const adjustment = result[0];
+    return {
+      ...adjustment,
+      min_ltv: adjustment.min_ltv !== null ? parseFloat(adjustment.min_ltv) : null,
+      max_ltv: adjustment.max_ltv !== null ? parseFloat(adjustment.max_ltv) : null,
+      rate_adjustment: parseFloat(adjustment.rate_adjustment),
+      points_adjustment: parseFloat(adjustment.points_adjustment)
+    };
+  } catch (error) {
+    console.error('LLPA adjustment update failed:', error);
+    throw error;
+  }
+};
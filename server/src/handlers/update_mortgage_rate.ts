@@ -2,6 +2,9 @@ import { db } from '../db';
 import { mortgageRatesTable, lendersTable } from '../db/schema';
 import { type UpdateMortgageRateInput, type MortgageRate } from '../schema';
 import { eq } from 'drizzle-orm';
+import { parseArmColumns, validateArmTerms } from '../lib/arm';
+import { validateRateWindow } from '../lib/rate_window';
+import { recordRateHistory } from './record_rate_history';
 
 export const updateMortgageRate = async (input: UpdateMortgageRateInput): Promise<MortgageRate> => {
   try {
@@ -27,6 +30,20 @@ export const updateMortgageRate = async (input: UpdateMortgageRateInput): Promis
       }
     }
 
+    // The resulting rate must still carry full ARM terms if it is adjustable
+    const current = { ...existingRate[0], ...parseArmColumns(existingRate[0]) };
+    const pick = <K extends keyof typeof current>(key: K, value: typeof current[K] | undefined) =>
+      value !== undefined ? value : current[key];
+    validateArmTerms(input.rate_type ?? current.rate_type, {
+      arm_index: pick('arm_index', input.arm_index),
+      arm_index_value: pick('arm_index_value', input.arm_index_value),
+      arm_margin: pick('arm_margin', input.arm_margin),
+      arm_initial_cap: pick('arm_initial_cap', input.arm_initial_cap),
+      arm_periodic_cap: pick('arm_periodic_cap', input.arm_periodic_cap),
+      arm_lifetime_cap: pick('arm_lifetime_cap', input.arm_lifetime_cap)
+    });
+    validateRateWindow(pick('effective_at', input.effective_at), pick('expires_at', input.expires_at));
+
     // Build update object with only provided fields
     const updateData: Record<string, any> = {
       updated_at: new Date()
@@ -62,16 +79,60 @@ export const updateMortgageRate = async (input: UpdateMortgageRateInput): Promis
     if (input.closing_costs !== undefined) {
       updateData['closing_costs'] = input.closing_costs !== null ? input.closing_costs.toString() : null;
     }
+    if (input.allowed_property_types !== undefined) {
+      updateData['allowed_property_types'] = input.allowed_property_types;
+    }
+    if (input.allowed_occupancy_types !== undefined) {
+      updateData['allowed_occupancy_types'] = input.allowed_occupancy_types;
+    }
+    if (input.allowed_loan_purposes !== undefined) {
+      updateData['allowed_loan_purposes'] = input.allowed_loan_purposes;
+    }
+    if (input.max_units !== undefined) {
+      updateData['max_units'] = input.max_units;
+    }
+    if (input.max_front_end_dti !== undefined) {
+      updateData['max_front_end_dti'] = input.max_front_end_dti !== null ? input.max_front_end_dti.toString() : null;
+    }
+    if (input.max_back_end_dti !== undefined) {
+      updateData['max_back_end_dti'] = input.max_back_end_dti !== null ? input.max_back_end_dti.toString() : null;
+    }
+    if (input.rate_type !== undefined) {
+      updateData['rate_type'] = input.rate_type;
+    }
+    if (input.arm_index !== undefined) {
+      updateData['arm_index'] = input.arm_index;
+    }
+    for (const key of ['arm_index_value', 'arm_margin', 'arm_initial_cap', 'arm_periodic_cap', 'arm_lifetime_cap'] as const) {
+      const value = input[key];
+      if (value !== undefined) {
+        updateData[key] = value !== null ? value.toString() : null;
+      }
+    }
+    if (input.price_options !== undefined) {
+      updateData['price_options'] = input.price_options;
+    }
+    if (input.effective_at !== undefined) {
+      updateData['effective_at'] = input.effective_at;
+    }
+    if (input.expires_at !== undefined) {
+      updateData['expires_at'] = input.expires_at;
+    }
     if (input.is_active !== undefined) {
       updateData['is_active'] = input.is_active;
     }
 
-    // Update the mortgage rate record
-    const result = await db.update(mortgageRatesTable)
-      .set(updateData)
-      .where(eq(mortgageRatesTable.id, input.id))
-      .returning()
-      .execute();
+    // Update the mortgage rate record and snapshot the new values
+    const result = await db.transaction(async (tx) => {
+      const updated = await tx.update(mortgageRatesTable)
+        .set(updateData)
+        .where(eq(mortgageRatesTable.id, input.id))
+        .returning()
+        .execute();
+
+      await recordRateHistory(tx, updated[0], 'updated');
+      return updated;
+    });
 
     // Convert numeric fields back to numbers before returning
     const updatedRate = result[0];
@@ -82,7 +143,10 @@ export const updateMortgageRate = async (input: UpdateMortgageRateInput): Promis
       points: parseFloat(updatedRate.points),
       max_loan_amount: parseFloat(updatedRate.max_loan_amount),
       min_down_payment_percent: parseFloat(updatedRate.min_down_payment_percent),
-      closing_costs: updatedRate.closing_costs !== null ? parseFloat(updatedRate.closing_costs) : null
+      closing_costs: updatedRate.closing_costs !== null ? parseFloat(updatedRate.closing_costs) : null,
+      max_front_end_dti: updatedRate.max_front_end_dti !== null ? parseFloat(updatedRate.max_front_end_dti) : null,
+      max_back_end_dti: updatedRate.max_back_end_dti !== null ? parseFloat(updatedRate.max_back_end_dti) : null,
+      ...parseArmColumns(updatedRate)
     };
   } catch (error) {
     console.error('Mortgage rate update failed:', error);
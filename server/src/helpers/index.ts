@@ -2,6 +2,8 @@ import { db } from '../db';
 import { sql } from 'drizzle-orm';
 import * as schema from "../db/schema";
 import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { propertyCostEstimateSeeds } from './property_cost_estimates';
+import { hashPassword } from '../lib/auth';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -16,3 +18,26 @@ export const createDB = async () => {
   );
   await db.execute(migrationStatements.join('\n'));
 };
+
+// Reference data is inserted idempotently so seeding can run on every deploy
+export const seedDB = async () => {
+  await db.insert(schema.propertyCostEstimatesTable)
+    .values(propertyCostEstimateSeeds)
+    .onConflictDoNothing({ target: schema.propertyCostEstimatesTable.zip_prefix })
+    .execute();
+
+  // Bootstrap the first platform admin from the environment; existing accounts are left untouched
+  const adminEmail = process.env['ADMIN_EMAIL'];
+  const adminPassword = process.env['ADMIN_PASSWORD'];
+  if (adminEmail && adminPassword) {
+    await db.insert(schema.usersTable)
+      .values({
+        email: adminEmail.toLowerCase(),
+        password_hash: hashPassword(adminPassword),
+        name: 'Platform Admin',
+        role: 'platform_admin'
+      })
+      .onConflictDoNothing({ target: schema.usersTable.email })
+      .execute();
+  }
+};
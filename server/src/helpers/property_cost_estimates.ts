@@ -0,0 +1,29 @@
+import { type NewPropertyCostEstimate } from '../db/schema';
+
+// Approximate effective property tax and homeowners insurance rates (annual % of value)
+// by county, keyed by 3-digit ZIP prefix. Exact 5-digit ZIPs override their prefix.
+export const propertyCostEstimateSeeds: NewPropertyCostEstimate[] = [
+  { zip_prefix: '021', county: 'Suffolk', state: 'MA', property_tax_rate: '0.620', insurance_rate: '0.320' },
+  { zip_prefix: '070', county: 'Essex', state: 'NJ', property_tax_rate: '2.330', insurance_rate: '0.350' },
+  { zip_prefix: '100', county: 'New York', state: 'NY', property_tax_rate: '0.880', insurance_rate: '0.300' },
+  { zip_prefix: '112', county: 'Kings', state: 'NY', property_tax_rate: '0.620', insurance_rate: '0.350' },
+  { zip_prefix: '191', county: 'Philadelphia', state: 'PA', property_tax_rate: '0.990', insurance_rate: '0.350' },
+  { zip_prefix: '303', county: 'Fulton', state: 'GA', property_tax_rate: '0.980', insurance_rate: '0.500' },
+  { zip_prefix: '328', county: 'Orange', state: 'FL', property_tax_rate: '0.920', insurance_rate: '1.200' },
+  { zip_prefix: '331', county: 'Miami-Dade', state: 'FL', property_tax_rate: '0.970', insurance_rate: '1.500' },
+  { zip_prefix: '482', county: 'Wayne', state: 'MI', property_tax_rate: '1.850', insurance_rate: '0.550' },
+  { zip_prefix: '606', county: 'Cook', state: 'IL', property_tax_rate: '2.070', insurance_rate: '0.400' },
+  { zip_prefix: '752', county: 'Dallas', state: 'TX', property_tax_rate: '1.930', insurance_rate: '1.050' },
+  { zip_prefix: '770', county: 'Harris', state: 'TX', property_tax_rate: '2.030', insurance_rate: '1.100' },
+  { zip_prefix: '787', county: 'Travis', state: 'TX', property_tax_rate: '1.810', insurance_rate: '0.950' },
+  { zip_prefix: '802', county: 'Denver', state: 'CO', property_tax_rate: '0.520', insurance_rate: '0.550' },
+  { zip_prefix: '841', county: 'Salt Lake', state: 'UT', property_tax_rate: '0.550', insurance_rate: '0.300' },
+  { zip_prefix: '850', county: 'Maricopa', state: 'AZ', property_tax_rate: '0.520', insurance_rate: '0.450' },
+  { zip_prefix: '900', county: 'Los Angeles', state: 'CA', property_tax_rate: '0.720', insurance_rate: '0.300' },
+  { zip_prefix: '902', county: 'Los Angeles', state: 'CA', property_tax_rate: '0.720', insurance_rate: '0.300' },
+  { zip_prefix: '90210', county: 'Los Angeles', state: 'CA', property_tax_rate: '0.710', insurance_rate: '0.280' },
+  { zip_prefix: '921', county: 'San Diego', state: 'CA', property_tax_rate: '0.730', insurance_rate: '0.280' },
+  { zip_prefix: '941', county: 'San Francisco', state: 'CA', property_tax_rate: '0.560', insurance_rate: '0.250' },
+  { zip_prefix: '972', county: 'Multnomah', state: 'OR', property_tax_rate: '1.070', insurance_rate: '0.250' },
+  { zip_prefix: '980', county: 'King', state: 'WA', property_tax_rate: '0.840', insurance_rate: '0.250' }
+];
@@ -0,0 +1,11 @@
+import { db } from '../db';
+import { seedDB } from '.';
+
+// Exit non-zero on failure, after closing the pool so the process can end
+seedDB()
+  .then(() => console.log('DB seeded successfully'))
+  .catch(error => {
+    console.error('DB seed failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$client.end());
@@ -1,8 +1,8 @@
-import { initTRPC } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
+import { router, publicProcedure, protectedProcedure, adminProcedure, lenderProcedure, createContext } from './trpc';
+import { authSecret } from './lib/auth';
 
 // Import schema types
 import { 
@@ -10,7 +10,35 @@ import {
   updateLenderInputSchema,
   createMortgageRateInputSchema,
   updateMortgageRateInputSchema,
-  createMortgageQuoteRequestInputSchema
+  createMortgageQuoteRequestInputSchema,
+  amortizationScheduleInputSchema,
+  getPropertyCostEstimateInputSchema,
+  createLlpaAdjustmentInputSchema,
+  updateLlpaAdjustmentInputSchema,
+  deleteLlpaAdjustmentInputSchema,
+  getLlpaAdjustmentsInputSchema,
+  getAprDiscrepanciesInputSchema,
+  getRateHistoryInputSchema,
+  getSavedQuotesInputSchema,
+  registerUserInputSchema,
+  createUserInputSchema,
+  loginInputSchema,
+  createLenderRateInputSchema,
+  updateLenderRateInputSchema,
+  deactivateLenderRateInputSchema,
+  listLendersInputSchema,
+  listMortgageRatesInputSchema,
+  importRateSheetInputSchema,
+  exportRateSheetInputSchema,
+  getExpiringRatesInputSchema,
+  requestRateLockInputSchema,
+  confirmRateLockInputSchema,
+  extendRateLockInputSchema,
+  cancelRateLockInputSchema,
+  getRateLocksInputSchema,
+  submitPrequalApplicationInputSchema,
+  getPrequalLetterPdfInputSchema,
+  getAffordabilityInputSchema
 } from './schema';
 
 // Import handlers
@@ -22,45 +50,146 @@ import { getMortgageRates } from './handlers/get_mortgage_rates';
 import { updateMortgageRate } from './handlers/update_mortgage_rate';
 import { createMortgageQuoteRequest } from './handlers/create_mortgage_quote_request';
 import { getMortgageQuotes } from './handlers/get_mortgage_quotes';
+import { getAffordability } from './handlers/get_affordability';
 import { getMortgageQuoteRequests } from './handlers/get_mortgage_quote_requests';
+import { requestQuotes } from './handlers/request_quotes';
+import { getSavedQuotes } from './handlers/get_saved_quotes';
+import { requestRateLock } from './handlers/request_rate_lock';
+import { getRateLocks } from './handlers/get_rate_locks';
+import { confirmRateLock } from './handlers/confirm_rate_lock';
+import { extendRateLock } from './handlers/extend_rate_lock';
+import { cancelRateLock } from './handlers/cancel_rate_lock';
+import { submitPrequalApplication } from './handlers/submit_prequal_application';
+import { getPrequalApplications } from './handlers/get_prequal_applications';
+import { getPrequalLetterPdf } from './handlers/get_prequal_letter_pdf';
+import { getAmortizationSchedule } from './handlers/get_amortization_schedule';
+import { getPropertyCostEstimate } from './handlers/get_property_cost_estimate';
+import { createLlpaAdjustment } from './handlers/create_llpa_adjustment';
+import { getLlpaAdjustments } from './handlers/get_llpa_adjustments';
+import { updateLlpaAdjustment } from './handlers/update_llpa_adjustment';
+import { deleteLlpaAdjustment } from './handlers/delete_llpa_adjustment';
+import { getAprDiscrepancies } from './handlers/get_apr_discrepancies';
+import { getRateHistory } from './handlers/get_rate_history';
+import { registerUser } from './handlers/register_user';
+import { loginUser } from './handlers/login_user';
+import { createUser } from './handlers/create_user';
+import { getLenderRates } from './handlers/get_lender_rates';
+import { listLenders } from './handlers/list_lenders';
+import { listMortgageRates } from './handlers/list_mortgage_rates';
+import { getExpiringRates } from './handlers/get_expiring_rates';
+import { createLenderRate } from './handlers/create_lender_rate';
+import { updateLenderRate } from './handlers/update_lender_rate';
+import { deactivateLenderRate } from './handlers/deactivate_lender_rate';
+import { importRateSheet } from './handlers/import_rate_sheet';
+import { exportRateSheet } from './handlers/export_rate_sheet';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check endpoint
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
   }),
 
+  // Authentication endpoints
+  register: publicProcedure
+    .input(registerUserInputSchema)
+    .mutation(({ input }) => registerUser(input)),
+
+  login: publicProcedure
+    .input(loginInputSchema)
+    .mutation(({ input }) => loginUser(input)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
+  createUser: adminProcedure
+    .input(createUserInputSchema)
+    .mutation(({ input }) => createUser(input)),
+
   // Lender management endpoints
-  createLender: publicProcedure
+  createLender: adminProcedure
     .input(createLenderInputSchema)
     .mutation(({ input }) => createLender(input)),
   
   getLenders: publicProcedure
     .query(() => getLenders()),
   
-  updateLender: publicProcedure
+  updateLender: adminProcedure
     .input(updateLenderInputSchema)
     .mutation(({ input }) => updateLender(input)),
 
+  listLenders: adminProcedure
+    .input(listLendersInputSchema)
+    .query(({ input }) => listLenders(input)),
+
   // Mortgage rate management endpoints
-  createMortgageRate: publicProcedure
+  createMortgageRate: adminProcedure
     .input(createMortgageRateInputSchema)
     .mutation(({ input }) => createMortgageRate(input)),
   
   getMortgageRates: publicProcedure
     .query(() => getMortgageRates()),
   
-  updateMortgageRate: publicProcedure
+  updateMortgageRate: adminProcedure
     .input(updateMortgageRateInputSchema)
     .mutation(({ input }) => updateMortgageRate(input)),
 
+  listMortgageRates: adminProcedure
+    .input(listMortgageRatesInputSchema)
+    .query(({ input }) => listMortgageRates(input)),
+
+  getExpiringRates: adminProcedure
+    .input(getExpiringRatesInputSchema)
+    .query(({ input }) => getExpiringRates(input)),
+
+  importRateSheet: adminProcedure
+    .input(importRateSheetInputSchema)
+    .mutation(({ input }) => importRateSheet(input)),
+
+  exportRateSheet: adminProcedure
+    .input(exportRateSheetInputSchema)
+    .query(({ input }) => exportRateSheet(input)),
+
+  getAprDiscrepancies: adminProcedure
+    .input(getAprDiscrepanciesInputSchema)
+    .query(({ input }) => getAprDiscrepancies(input)),
+
+  getRateHistory: adminProcedure
+    .input(getRateHistoryInputSchema)
+    .query(({ input }) => getRateHistory(input)),
+
+  // Lender portal endpoints, scoped to the signed-in rep's lender
+  getLenderRates: lenderProcedure
+    .query(({ ctx }) => getLenderRates(ctx.lenderId)),
+
+  createLenderRate: lenderProcedure
+    .input(createLenderRateInputSchema)
+    .mutation(({ ctx, input }) => createLenderRate(ctx.lenderId, input)),
+
+  updateLenderRate: lenderProcedure
+    .input(updateLenderRateInputSchema)
+    .mutation(({ ctx, input }) => updateLenderRate(ctx.lenderId, input)),
+
+  deactivateLenderRate: lenderProcedure
+    .input(deactivateLenderRateInputSchema)
+    .mutation(({ ctx, input }) => deactivateLenderRate(ctx.lenderId, input)),
+
+  // Loan-level price adjustment endpoints
+  createLlpaAdjustment: adminProcedure
+    .input(createLlpaAdjustmentInputSchema)
+    .mutation(({ input }) => createLlpaAdjustment(input)),
+
+  getLlpaAdjustments: adminProcedure
+    .input(getLlpaAdjustmentsInputSchema)
+    .query(({ input }) => getLlpaAdjustments(input)),
+
+  updateLlpaAdjustment: adminProcedure
+    .input(updateLlpaAdjustmentInputSchema)
+    .mutation(({ input }) => updateLlpaAdjustment(input)),
+
+  deleteLlpaAdjustment: adminProcedure
+    .input(deleteLlpaAdjustmentInputSchema)
+    .mutation(({ input }) => deleteLlpaAdjustment(input)),
+
   // Quote request and comparison endpoints
   createMortgageQuoteRequest: publicProcedure
     .input(createMortgageQuoteRequestInputSchema)
@@ -70,25 +199,86 @@ const appRouter = router({
     .input(createMortgageQuoteRequestInputSchema)
     .query(({ input }) => getMortgageQuotes(input)),
   
-  getMortgageQuoteRequests: publicProcedure
+  getAffordability: publicProcedure
+    .input(getAffordabilityInputSchema)
+    .query(({ input }) => getAffordability(input)),
+
+  getMortgageQuoteRequests: adminProcedure
     .query(() => getMortgageQuoteRequests()),
+
+  requestQuotes: publicProcedure
+    .input(createMortgageQuoteRequestInputSchema)
+    .mutation(({ input }) => requestQuotes(input)),
+
+  getSavedQuotes: publicProcedure
+    .input(getSavedQuotesInputSchema)
+    .query(({ input }) => getSavedQuotes(input)),
+
+  // Rate lock endpoints
+  requestRateLock: protectedProcedure
+    .input(requestRateLockInputSchema)
+    .mutation(({ ctx, input }) => requestRateLock(ctx.user.id, input)),
+
+  getMyRateLocks: protectedProcedure
+    .query(({ ctx }) => getRateLocks({ user_id: ctx.user.id })),
+
+  cancelRateLock: protectedProcedure
+    .input(cancelRateLockInputSchema)
+    .mutation(({ ctx, input }) => cancelRateLock(ctx.user, input)),
+
+  getLenderRateLocks: lenderProcedure
+    .query(({ ctx }) => getRateLocks({ lender_id: ctx.lenderId })),
+
+  confirmRateLock: lenderProcedure
+    .input(confirmRateLockInputSchema)
+    .mutation(({ ctx, input }) => confirmRateLock(ctx.lenderId, input)),
+
+  extendRateLock: lenderProcedure
+    .input(extendRateLockInputSchema)
+    .mutation(({ ctx, input }) => extendRateLock(ctx.lenderId, input)),
+
+  getRateLocks: adminProcedure
+    .input(getRateLocksInputSchema)
+    .query(({ input }) => getRateLocks(input)),
+
+  // Pre-qualification endpoints
+  submitPrequalApplication: protectedProcedure
+    .input(submitPrequalApplicationInputSchema)
+    .mutation(({ ctx, input }) => submitPrequalApplication(ctx.user.id, input)),
+
+  getMyPrequalApplications: protectedProcedure
+    .query(({ ctx }) => getPrequalApplications(ctx.user.id)),
+
+  getPrequalLetterPdf: protectedProcedure
+    .input(getPrequalLetterPdfInputSchema)
+    .query(({ ctx, input }) => getPrequalLetterPdf(ctx.user.id, input)),
+
+  getAmortizationSchedule: publicProcedure
+    .input(amortizationScheduleInputSchema)
+    .query(({ input }) => getAmortizationSchedule(input)),
+
+  getPropertyCostEstimate: publicProcedure
+    .input(getPropertyCostEstimateInputSchema)
+    .query(({ input }) => getPropertyCostEstimate(input)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  authSecret(); // Refuse to start without a token signing secret
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`FAIRM TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+// Only listen when run directly, so tests can import the router
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { type AffordabilityLimit, type LlpaAdjustment, type LoanType, type PitiBreakdown, type PriceAdjustment } from '../schema';
+import { buildAmortizationSchedule, calculateMonthlyPayment, roundCurrency } from './mortgage_math';
+import { estimateMortgageInsurance } from './mortgage_insurance';
+import { applyLlpaAdjustments } from './llpa';
+import { assessDti, roundRatio } from './qualification';
+
+// Solves for the highest purchase price a borrower can carry on one rate, pricing each
+// candidate price the way a quote would: LLPAs, mortgage insurance, taxes and insurance
+
+export interface AffordabilityRate {
+  loan_type: LoanType;
+  loan_term_years: number;
+  interest_rate: number; // Rate sheet pricing before adjustments
+  points: number;
+  closing_costs: number;
+  max_loan_amount: number;
+  min_down_payment_percent: number;
+  max_front_end_dti: number | null;
+  max_back_end_dti: number | null;
+}
+
+export interface AffordabilityBorrower {
+  gross_monthly_income: number;
+  monthly_debts: number;
+  available_cash: number;
+  credit_score: number;
+  property_tax_rate: number; // Annual % of property value
+  insurance_rate: number;
+}
+
+export interface AffordableLoan {
+  purchase_price: number;
+  loan_amount: number;
+  down_payment: number;
+  cash_to_close: number;
+  interest_rate: number;
+  points: number;
+  price_adjustments: PriceAdjustment[];
+  monthly_payment: number;
+  piti: PitiBreakdown;
+  front_end_dti: number;
+  back_end_dti: number;
+  loan_to_value_ratio: number;
+  limited_by: AffordabilityLimit;
+}
+
+// Purchase prices are solved in whole steps, rounding down
+export const PRICE_STEP = 1000;
+
+interface Scenario {
+  loan: Omit<AffordableLoan, 'limited_by'>;
+  failure: AffordabilityLimit | null; // First limit the price breaks, null when affordable
+}
+
+function evaluate(
+  price: number,
+  rate: AffordabilityRate,
+  borrower: AffordabilityBorrower,
+  adjustments: LlpaAdjustment[],
+  firstPaymentDate: Date
+): Scenario {
+  // Every dollar left after closing costs and points goes to the down payment. Points depend on
+  // LTV through the LLPAs, so size the loan a second time with the adjusted points.
+  const sizeLoan = (points: number) =>
+    Math.max(0, roundCurrency((price - borrower.available_cash + rate.closing_costs) / (1 - points / 100)));
+  const priceLoan = (loanAmount: number) => applyLlpaAdjustments(rate.interest_rate, rate.points, adjustments, {
+    loan_type: rate.loan_type,
+    credit_score: borrower.credit_score,
+    loan_to_value_ratio: loanAmount / price * 100,
+    occupancy_type: 'primary',
+    property_type: 'single_family',
+    loan_purpose: 'purchase'
+  });
+
+  let loanAmount = sizeLoan(rate.points);
+  let pricing = priceLoan(loanAmount);
+  loanAmount = sizeLoan(pricing.points);
+  pricing = priceLoan(loanAmount);
+  const points = pricing.points;
+
+  const loanToValueRatio = roundRatio(loanAmount / price * 100);
+  const downPayment = roundCurrency(price - loanAmount);
+  const cashToClose = roundCurrency(downPayment + rate.closing_costs + loanAmount * points / 100);
+
+  // Cash buyers of a low enough price need no loan at all
+  const monthlyPayment = loanAmount > 0 ? calculateMonthlyPayment(loanAmount, pricing.interest_rate, rate.loan_term_years) : 0;
+  const schedule = loanAmount > 0
+    ? buildAmortizationSchedule(loanAmount, pricing.interest_rate, rate.loan_term_years, firstPaymentDate)
+    : [];
+  const mortgageInsurance = loanAmount > 0
+    ? estimateMortgageInsurance({
+      loan_type: rate.loan_type,
+      loan_amount: loanAmount,
+      property_value: price,
+      credit_score: borrower.credit_score,
+      loan_term_years: rate.loan_term_years
+    }, schedule).monthly_premium
+    : 0;
+  const taxes = roundCurrency(price * borrower.property_tax_rate / 100 / 12);
+  const insurance = roundCurrency(price * borrower.insurance_rate / 100 / 12);
+  const total = roundCurrency(monthlyPayment + mortgageInsurance + taxes + insurance);
+
+  const dti = assessDti({
+    loan_type: rate.loan_type,
+    housing_payment: total,
+    gross_monthly_income: borrower.gross_monthly_income,
+    monthly_debts: borrower.monthly_debts,
+    max_front_end_dti: rate.max_front_end_dti,
+    max_back_end_dti: rate.max_back_end_dti
+  });
+
+  let failure: AffordabilityLimit | null = null;
+  if (loanAmount > rate.max_loan_amount) {
+    failure = 'max_loan_amount';
+  } else if (loanToValueRatio > 100 - rate.min_down_payment_percent || cashToClose > borrower.available_cash + 0.01) {
+    failure = 'down_payment';
+  } else if (dti.status !== 'eligible') {
+    // Affordability stays within the guidelines; compensating factors are for underwriting
+    failure = 'dti';
+  }
+
+  return {
+    loan: {
+      purchase_price: price,
+      loan_amount: loanAmount,
+      down_payment: downPayment,
+      cash_to_close: cashToClose,
+      interest_rate: pricing.interest_rate,
+      points,
+      price_adjustments: pricing.adjustments,
+      monthly_payment: monthlyPayment,
+      piti: {
+        principal: schedule[0]?.principal ?? 0,
+        interest: schedule[0]?.interest ?? 0,
+        taxes,
+        insurance,
+        mortgage_insurance: mortgageInsurance,
+        hoa: 0,
+        total
+      },
+      front_end_dti: dti.front_end_dti ?? 0,
+      back_end_dti: dti.back_end_dti ?? 0,
+      loan_to_value_ratio: loanToValueRatio
+    },
+    failure
+  };
+}
+
+// Binary search over price steps; every limit only tightens as the price rises.
+// Returns null when the borrower cannot afford even the smallest step on this rate.
+export function solveAffordability(
+  rate: AffordabilityRate,
+  borrower: AffordabilityBorrower,
+  adjustments: LlpaAdjustment[],
+  firstPaymentDate: Date
+): AffordableLoan | null {
+  const scenario = (steps: number) => evaluate(steps * PRICE_STEP, rate, borrower, adjustments, firstPaymentDate);
+
+  // The price can never exceed the largest loan plus all of the borrower's cash
+  const maxSteps = Math.floor((rate.max_loan_amount + borrower.available_cash) / PRICE_STEP);
+  if (maxSteps < 1 || scenario(1).failure !== null) {
+    return null;
+  }
+
+  let low = 1;
+  let high = maxSteps;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (scenario(mid).failure === null) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const limitedBy = low === maxSteps ? 'max_loan_amount' : scenario(low + 1).failure ?? 'max_loan_amount';
+  return { ...scenario(low).loan, limited_by: limitedBy };
+}
@@ -0,0 +1,55 @@
+// Annual percentage rate per Regulation Z, Appendix J (actuarial method, monthly unit period)
+
+// Disclosed APR is accurate if within 1/8 of a percentage point of the actual APR (12 CFR 1026.22(a)(2))
+export const REG_Z_APR_TOLERANCE = 0.125;
+
+export interface AprParams {
+  loan_amount: number;
+  prepaid_finance_charges: number; // Points, lender fees and upfront premiums paid at closing
+  payments: number[]; // Every scheduled monthly payment, including mortgage insurance
+}
+
+function presentValue(payments: number[], periodicRate: number): number {
+  let value = 0;
+  let discount = 1;
+  for (const payment of payments) {
+    discount /= 1 + periodicRate;
+    value += payment * discount;
+  }
+  return value;
+}
+
+// Solve for the periodic rate at which the payment stream's present value equals the
+// amount financed, then annualize it. Bisection is used because the present value is
+// strictly decreasing in the rate, which makes it converge for any fee structure.
+export function calculateApr(params: AprParams): number {
+  const amountFinanced = params.loan_amount - params.prepaid_finance_charges;
+
+  if (params.payments.length === 0 || amountFinanced <= 0) {
+    return 0;
+  }
+
+  let low = 0;
+  let high = 1; // 100% per month is far above any real mortgage
+
+  // Lender credits larger than the interest charged would imply a negative APR
+  if (presentValue(params.payments, low) <= amountFinanced) {
+    return 0;
+  }
+
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(params.payments, mid) > amountFinanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.round((low + high) / 2 * 12 * 100 * 1000) / 1000;
+}
+
+// Finance charges paid at closing, in dollars
+export function prepaidFinanceCharges(loanAmount: number, points: number, closingCosts: number | null, upfrontPremium: number): number {
+  return loanAmount * points / 100 + (closingCosts ?? 0) + upfrontPremium;
+}
@@ -0,0 +1,186 @@
+import { type ArmIndex, type ArmProjection, type RateType } from '../schema';
+import { type AmortizationRow, buildAmortizationSchedule } from './mortgage_math';
+
+// Adjustable-rate mortgage rate paths: x/1 ARMs hold the initial rate for x years, then adjust annually
+
+export interface ArmTerms {
+  index_value: number; // Current value of the index the loan tracks
+  margin: number; // Added to the index to get the fully indexed rate
+  initial_cap: number; // Maximum change at the first adjustment
+  periodic_cap: number; // Maximum change at each later adjustment
+  lifetime_cap: number; // Maximum change over the life of the loan
+}
+
+export type ArmScenario = 'projected' | 'worst_case';
+
+export const ARM_INITIAL_PERIOD_YEARS: Record<RateType, number | null> = {
+  fixed: null,
+  arm_5_1: 5,
+  arm_7_1: 7,
+  arm_10_1: 10
+};
+
+const roundRate = (rate: number): number => Math.round(rate * 1000) / 1000;
+
+export function fullyIndexedRate(terms: ArmTerms): number {
+  return roundRate(terms.index_value + terms.margin);
+}
+
+// Rate in effect for each loan year. The projected path assumes the index stays at its
+// current value; the worst case assumes every adjustment goes up by the full cap.
+export function armRatePath(
+  initialRate: number,
+  initialPeriodYears: number,
+  terms: ArmTerms,
+  loanTermYears: number,
+  scenario: ArmScenario
+): number[] {
+  const ceiling = initialRate + terms.lifetime_cap;
+  const floor = Math.max(terms.margin, initialRate - terms.lifetime_cap);
+  const target = fullyIndexedRate(terms);
+
+  const rates: number[] = [];
+  let rate = initialRate;
+
+  for (let year = 0; year < loanTermYears; year++) {
+    if (year >= initialPeriodYears) {
+      const cap = year === initialPeriodYears ? terms.initial_cap : terms.periodic_cap;
+      const desired = scenario === 'worst_case' ? ceiling : target;
+      const change = Math.max(-cap, Math.min(cap, desired - rate));
+      rate = roundRate(Math.max(floor, Math.min(ceiling, rate + change)));
+    }
+    rates.push(rate);
+  }
+
+  return rates;
+}
+
+// Payment due in the first month of each loan year
+export function yearlyPayments(schedule: AmortizationRow[]): number[] {
+  return schedule.filter((_, i) => i % 12 === 0).map(row => row.payment);
+}
+
+export interface ArmProjectionParams {
+  rate_type: RateType;
+  index: ArmIndex;
+  terms: ArmTerms;
+  interest_rate: number; // Initial (teaser) rate
+  loan_amount: number;
+  loan_term_years: number;
+  first_payment_date: Date;
+}
+
+// Project an ARM's payments under a steady index and under maximum cap increases.
+// The projected rates double as the rate path for the loan's APR and schedule.
+export function projectArm(params: ArmProjectionParams): { projected_rates: number[]; projection: ArmProjection } {
+  const initialPeriodYears = ARM_INITIAL_PERIOD_YEARS[params.rate_type] ?? params.loan_term_years;
+  const projectedRates = armRatePath(params.interest_rate, initialPeriodYears, params.terms, params.loan_term_years, 'projected');
+  const worstCaseRates = armRatePath(params.interest_rate, initialPeriodYears, params.terms, params.loan_term_years, 'worst_case');
+
+  const schedule = (rates: number[]) => buildAmortizationSchedule(
+    params.loan_amount,
+    params.interest_rate,
+    params.loan_term_years,
+    params.first_payment_date,
+    {},
+    rates
+  );
+  const projectedPayments = yearlyPayments(schedule(projectedRates));
+  const worstCasePayments = yearlyPayments(schedule(worstCaseRates));
+
+  // Loans shorter than the fixed period never adjust
+  const firstAdjustmentYear = Math.min(initialPeriodYears, params.loan_term_years - 1);
+
+  return {
+    projected_rates: projectedRates,
+    projection: {
+      index: params.index,
+      index_value: params.terms.index_value,
+      margin: params.terms.margin,
+      initial_cap: params.terms.initial_cap,
+      periodic_cap: params.terms.periodic_cap,
+      lifetime_cap: params.terms.lifetime_cap,
+      initial_period_years: initialPeriodYears,
+      initial_payment: projectedPayments[0],
+      fully_indexed_rate: fullyIndexedRate(params.terms),
+      first_adjustment_rate: projectedRates[firstAdjustmentYear],
+      first_adjustment_payment: projectedPayments[firstAdjustmentYear],
+      worst_case_rate: Math.max(...worstCaseRates),
+      worst_case_payment: Math.max(...worstCasePayments),
+      payment_path: projectedRates.map((rate, i) => ({
+        year: i + 1,
+        projected_rate: rate,
+        projected_payment: projectedPayments[i],
+        worst_case_rate: worstCaseRates[i],
+        worst_case_payment: worstCasePayments[i]
+      }))
+    }
+  };
+}
+
+// Throws when an ARM rate type is missing any of its index, margin or cap terms
+export function validateArmTerms(rateType: RateType, fields: {
+  arm_index: string | null | undefined;
+  arm_index_value: number | null | undefined;
+  arm_margin: number | null | undefined;
+  arm_initial_cap: number | null | undefined;
+  arm_periodic_cap: number | null | undefined;
+  arm_lifetime_cap: number | null | undefined;
+}): void {
+  if (ARM_INITIAL_PERIOD_YEARS[rateType] === null) return;
+
+  const missing = Object.entries(fields)
+    .filter(([, value]) => value === null || value === undefined)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new Error(`ARM rate type ${rateType} requires ${missing.join(', ')}`);
+  }
+}
+
+type NumericArmColumns = {
+  arm_index_value: string | null;
+  arm_margin: string | null;
+  arm_initial_cap: string | null;
+  arm_periodic_cap: string | null;
+  arm_lifetime_cap: string | null;
+};
+
+// Convert a rate row's nullable numeric ARM columns to numbers
+export function parseArmColumns(row: NumericArmColumns): { [K in keyof NumericArmColumns]: number | null } {
+  const parse = (value: string | null): number | null => value !== null ? parseFloat(value) : null;
+  return {
+    arm_index_value: parse(row.arm_index_value),
+    arm_margin: parse(row.arm_margin),
+    arm_initial_cap: parse(row.arm_initial_cap),
+    arm_periodic_cap: parse(row.arm_periodic_cap),
+    arm_lifetime_cap: parse(row.arm_lifetime_cap)
+  };
+}
+
+// ARM terms for a parsed rate, or null for fixed rates
+export function armTermsFor(rate: {
+  rate_type: RateType;
+  arm_index_value: number | null;
+  arm_margin: number | null;
+  arm_initial_cap: number | null;
+  arm_periodic_cap: number | null;
+  arm_lifetime_cap: number | null;
+}): ArmTerms | null {
+  if (ARM_INITIAL_PERIOD_YEARS[rate.rate_type] === null) return null;
+  return {
+    index_value: rate.arm_index_value ?? 0,
+    margin: rate.arm_margin ?? 0,
+    initial_cap: rate.arm_initial_cap ?? 0,
+    periodic_cap: rate.arm_periodic_cap ?? 0,
+    lifetime_cap: rate.arm_lifetime_cap ?? 0
+  };
+}
+
+// Projected rate for each loan year of a parsed rate, or undefined for fixed rates
+export function projectedArmRates(rate: Parameters<typeof armTermsFor>[0], interestRate: number, loanTermYears: number): number[] | undefined {
+  const terms = armTermsFor(rate);
+  const initialPeriodYears = ARM_INITIAL_PERIOD_YEARS[rate.rate_type];
+  if (terms === null || initialPeriodYears === null) return undefined;
+  return armRatePath(interestRate, initialPeriodYears, terms, loanTermYears, 'projected');
+}
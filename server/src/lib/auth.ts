@@ -0,0 +1,70 @@
+import { createHmac, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import { type UserRole } from '../schema';
+
+// Local password hashing and HMAC-signed bearer tokens
+
+export const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+const SCRYPT_KEY_LENGTH = 64;
+const DEVELOPMENT_SECRET = 'fairm-development-secret';
+// Only these NODE_ENV values may fall back to the public development secret
+const DEVELOPMENT_ENVIRONMENTS = ['development', 'test'];
+
+export interface TokenPayload {
+  sub: number; // User ID
+  role: UserRole;
+  exp: number; // Expiry, seconds since the epoch
+}
+
+// Fails closed: anywhere not explicitly marked as development or test needs its own secret
+export function authSecret(): string {
+  const secret = process.env['AUTH_SECRET'];
+  if (secret) return secret;
+  if (!DEVELOPMENT_ENVIRONMENTS.includes(process.env['NODE_ENV'] ?? '')) {
+    throw new Error('AUTH_SECRET must be set unless NODE_ENV is development or test');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+// Stored as scrypt:<salt>:<hash>, both hex encoded
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  const hash = scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt:${salt}:${hash}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', authSecret()).update(data).digest('base64url');
+}
+
+export function signToken(payload: Omit<TokenPayload, 'exp'>, now: Date = new Date()): { token: string; expires_at: Date } {
+  const exp = Math.floor(now.getTime() / 1000) + TOKEN_TTL_SECONDS;
+  const data = Buffer.from(JSON.stringify({ ...payload, exp })).toString('base64url');
+  return { token: `${data}.${sign(data)}`, expires_at: new Date(exp * 1000) };
+}
+
+// Returns the payload of a well-signed, unexpired token, otherwise null
+export function verifyToken(token: string, now: Date = new Date()): TokenPayload | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as TokenPayload;
+    return payload.exp * 1000 > now.getTime() ? payload : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,53 @@
+import { type BuydownYear, type TemporaryBuydown, type TemporaryBuydownSchedule } from '../schema';
+import { calculateMonthlyPayment, roundCurrency } from './mortgage_math';
+
+// Temporary buydowns: the borrower pays a reduced rate for the first years while an escrow funded
+// at closing makes up the difference to the note rate's payment. The loan still amortizes at the
+// note rate, so qualification and the quote's own payment are unchanged.
+
+// Rate reduction in each bought-down year
+export const BUYDOWN_RATE_REDUCTIONS: Record<TemporaryBuydown, number[]> = {
+  '1_0': [1],
+  '2_1': [2, 1],
+  '3_2_1': [3, 2, 1]
+};
+
+export interface BuydownInput {
+  type: TemporaryBuydown;
+  loan_amount: number;
+  interest_rate: number; // Note rate
+  loan_term_years: number;
+  housing_payment: number; // Full monthly payment at the note rate, including escrows
+}
+
+export function projectBuydown(input: BuydownInput): TemporaryBuydownSchedule {
+  const notePayment = calculateMonthlyPayment(input.loan_amount, input.interest_rate, input.loan_term_years);
+
+  const boughtDownYears = BUYDOWN_RATE_REDUCTIONS[input.type].map((reduction, index): BuydownYear => {
+    const interestRate = Math.max(0, Math.round((input.interest_rate - reduction) * 1000) / 1000);
+    const monthlyPayment = calculateMonthlyPayment(input.loan_amount, interestRate, input.loan_term_years);
+    return {
+      year: index + 1,
+      interest_rate: interestRate,
+      monthly_payment: monthlyPayment,
+      monthly_subsidy: roundCurrency(notePayment - monthlyPayment)
+    };
+  });
+
+  const years: BuydownYear[] = [
+    ...boughtDownYears,
+    {
+      year: boughtDownYears.length + 1,
+      interest_rate: input.interest_rate,
+      monthly_payment: notePayment,
+      monthly_subsidy: 0
+    }
+  ];
+
+  return {
+    type: input.type,
+    years,
+    subsidy_escrow: roundCurrency(boughtDownYears.reduce((total, year) => total + year.monthly_subsidy * 12, 0)),
+    effective_first_year_payment: roundCurrency(input.housing_payment - years[0].monthly_subsidy)
+  };
+}
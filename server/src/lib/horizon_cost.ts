@@ -0,0 +1,36 @@
+import { type HorizonCost } from '../schema';
+import { type AmortizationRow, roundCurrency } from './mortgage_math';
+
+// Cost of a loan kept for only part of its term, so quotes can be compared for a borrower who
+// expects to move or refinance. APR spreads upfront costs over the full term, which favors
+// buying points more than a short horizon justifies.
+
+export interface HorizonCostParams {
+  horizon_years: number;
+  loan_amount: number;
+  upfront_costs: number;
+  schedule: AmortizationRow[];
+  monthly_premiums: number[]; // Mortgage insurance charged with each scheduled payment
+}
+
+export function costOverHorizon(params: HorizonCostParams): HorizonCost {
+  const months = Math.min(params.horizon_years * 12, params.schedule.length);
+  const rows = params.schedule.slice(0, months);
+
+  const paymentsMade = rows.reduce((total, row) => total + row.payment, 0);
+  const interestPaid = roundCurrency(rows.reduce((total, row) => total + row.interest, 0));
+  const mortgageInsurancePaid = roundCurrency(params.monthly_premiums.slice(0, months).reduce((total, premium) => total + premium, 0));
+  const remainingBalance = rows.length > 0 ? rows[rows.length - 1].remaining_balance : params.loan_amount;
+
+  // Principal repaid comes back as equity through the lower balance, so it is not a cost
+  const principalRepaid = params.loan_amount - remainingBalance;
+
+  return {
+    horizon_years: params.horizon_years,
+    upfront_costs: roundCurrency(params.upfront_costs),
+    interest_paid: interestPaid,
+    mortgage_insurance_paid: mortgageInsurancePaid,
+    remaining_balance: remainingBalance,
+    total_cost: roundCurrency(params.upfront_costs + paymentsMade + mortgageInsurancePaid - principalRepaid)
+  };
+}
@@ -0,0 +1,57 @@
+import { type LlpaAdjustment, type LoanPurpose, type LoanType, type OccupancyType, type PriceAdjustment, type PropertyType } from '../schema';
+
+export interface LlpaBorrowerProfile {
+  loan_type: LoanType;
+  credit_score: number;
+  loan_to_value_ratio: number;
+  occupancy_type: OccupancyType;
+  property_type: PropertyType;
+  loan_purpose: LoanPurpose;
+}
+
+export interface AppliedPricing {
+  interest_rate: number;
+  points: number;
+  adjustments: PriceAdjustment[];
+}
+
+// An adjustment applies when every criterion it sets matches; LTV bands are (min, max]
+export function llpaMatches(adjustment: LlpaAdjustment, borrower: LlpaBorrowerProfile): boolean {
+  if (!adjustment.is_active) return false;
+  if (adjustment.loan_type !== null && adjustment.loan_type !== borrower.loan_type) return false;
+  if (adjustment.min_credit_score !== null && borrower.credit_score < adjustment.min_credit_score) return false;
+  if (adjustment.max_credit_score !== null && borrower.credit_score > adjustment.max_credit_score) return false;
+  if (adjustment.min_ltv !== null && borrower.loan_to_value_ratio <= adjustment.min_ltv) return false;
+  if (adjustment.max_ltv !== null && borrower.loan_to_value_ratio > adjustment.max_ltv) return false;
+  if (adjustment.occupancy_type !== null && adjustment.occupancy_type !== borrower.occupancy_type) return false;
+  if (adjustment.property_type !== null && adjustment.property_type !== borrower.property_type) return false;
+  if (adjustment.loan_purpose !== null && adjustment.loan_purpose !== borrower.loan_purpose) return false;
+  return true;
+}
+
+// Apply every matching adjustment on top of the rate sheet's base rate and points
+export function applyLlpaAdjustments(
+  baseInterestRate: number,
+  basePoints: number,
+  adjustments: LlpaAdjustment[],
+  borrower: LlpaBorrowerProfile
+): AppliedPricing {
+  const applied = adjustments
+    .filter(adjustment => llpaMatches(adjustment, borrower))
+    .map(adjustment => ({
+      adjustment_id: adjustment.id,
+      description: adjustment.description,
+      rate_adjustment: adjustment.rate_adjustment,
+      points_adjustment: adjustment.points_adjustment
+    }));
+
+  const rateAdjustment = applied.reduce((sum, a) => sum + a.rate_adjustment, 0);
+  const pointsAdjustment = applied.reduce((sum, a) => sum + a.points_adjustment, 0);
+
+  return {
+    // Round away floating point noise to the precision stored on rate sheets
+    interest_rate: Math.round((baseInterestRate + rateAdjustment) * 1000) / 1000,
+    points: Math.round((basePoints + pointsAdjustment) * 1000) / 1000,
+    adjustments: applied
+  };
+}
@@ -0,0 +1,132 @@
+import { type LoanType } from '../schema';
+import { type AmortizationRow, roundCurrency } from './mortgage_math';
+
+// Mortgage insurance engine: conventional PMI, FHA MIP, VA funding fee and USDA guarantee fee
+
+export interface MortgageInsuranceParams {
+  loan_type: LoanType;
+  loan_amount: number;
+  property_value: number;
+  credit_score: number;
+  loan_term_years: number;
+}
+
+export interface MortgageInsuranceEstimate {
+  annual_rate: number; // Percent of the loan balance charged per year
+  upfront_rate: number; // Percent of the base loan amount charged at closing
+  upfront_premium: number;
+  monthly_premium: number; // Premium charged with the first payment
+  monthly_premiums: number[]; // Premium charged with each scheduled payment
+  drop_off_month: number | null; // First payment without a premium, null if it never drops or there is none
+  total_premiums: number; // Sum of monthly premiums, excluding the upfront premium
+}
+
+// Conventional borrower-paid PMI annual rates by credit score floor, for LTV bands up to 85/90/95/97%+
+const PMI_RATE_GRID: { min_credit_score: number; rates: [number, number, number, number] }[] = [
+  { min_credit_score: 760, rates: [0.17, 0.28, 0.38, 0.55] },
+  { min_credit_score: 740, rates: [0.19, 0.34, 0.48, 0.69] },
+  { min_credit_score: 720, rates: [0.22, 0.42, 0.60, 0.87] },
+  { min_credit_score: 700, rates: [0.26, 0.51, 0.74, 1.05] },
+  { min_credit_score: 680, rates: [0.31, 0.62, 0.90, 1.25] },
+  { min_credit_score: 660, rates: [0.40, 0.78, 1.13, 1.50] },
+  { min_credit_score: 640, rates: [0.48, 0.94, 1.35, 1.75] },
+  { min_credit_score: 620, rates: [0.58, 1.12, 1.60, 1.95] },
+  { min_credit_score: 0, rates: [0.75, 1.35, 1.90, 2.25] }
+];
+
+// PMI terminates automatically once the balance reaches 78% of the original value
+const PMI_TERMINATION_LTV = 78;
+
+const FHA_UPFRONT_MIP_RATE = 1.75;
+const FHA_MIP_DURATION_MONTHS = 132; // 11 years when the original LTV is 90% or less
+
+const USDA_UPFRONT_GUARANTEE_FEE_RATE = 1.0;
+const USDA_ANNUAL_FEE_RATE = 0.35;
+
+function pmiAnnualRate(loanToValueRatio: number, creditScore: number): number {
+  const band = loanToValueRatio <= 85 ? 0 : loanToValueRatio <= 90 ? 1 : loanToValueRatio <= 95 ? 2 : 3;
+  const row = PMI_RATE_GRID.find(r => creditScore >= r.min_credit_score) ?? PMI_RATE_GRID[PMI_RATE_GRID.length - 1];
+  return row.rates[band];
+}
+
+function fhaAnnualMipRate(loanToValueRatio: number, loanTermYears: number): number {
+  if (loanTermYears > 15) {
+    return loanToValueRatio <= 95 ? 0.50 : 0.55;
+  }
+  return loanToValueRatio <= 90 ? 0.15 : 0.40;
+}
+
+// VA funding fee for first-time use on a purchase, by down payment percentage
+function vaFundingFeeRate(downPaymentPercent: number): number {
+  if (downPaymentPercent >= 10) return 1.25;
+  if (downPaymentPercent >= 5) return 1.50;
+  return 2.15;
+}
+
+// FHA and USDA annual premiums are recalculated each loan year on the average scheduled balance
+function premiumsOnAverageBalance(schedule: AmortizationRow[], loanAmount: number, annualRate: number, months: number): number[] {
+  const premiums: number[] = [];
+  for (let yearStart = 0; yearStart < Math.min(schedule.length, months); yearStart += 12) {
+    const year = schedule.slice(yearStart, Math.min(yearStart + 12, months));
+    const openingBalance = yearStart === 0 ? loanAmount : schedule[yearStart - 1].remaining_balance;
+    const balances = year.map((row, i) => i === 0 ? openingBalance : year[i - 1].remaining_balance);
+    const averageBalance = balances.reduce((sum, b) => sum + b, 0) / 12;
+    const monthlyPremium = roundCurrency(averageBalance * annualRate / 100 / 12);
+    year.forEach(() => premiums.push(monthlyPremium));
+  }
+  return premiums;
+}
+
+export function estimateMortgageInsurance(params: MortgageInsuranceParams, schedule: AmortizationRow[]): MortgageInsuranceEstimate {
+  const loanToValueRatio = (params.loan_amount / params.property_value) * 100;
+  const downPaymentPercent = 100 - loanToValueRatio;
+
+  let annualRate = 0;
+  let upfrontRate = 0;
+  let premiums: number[] = [];
+
+  switch (params.loan_type) {
+    case 'conventional':
+    case 'jumbo': {
+      if (loanToValueRatio <= 80) break;
+      annualRate = pmiAnnualRate(loanToValueRatio, params.credit_score);
+      const monthlyPremium = roundCurrency(params.loan_amount * annualRate / 100 / 12);
+      const terminationBalance = params.property_value * PMI_TERMINATION_LTV / 100;
+      // Premium is charged until the payment that brings the balance to the termination point
+      for (const row of schedule) {
+        premiums.push(monthlyPremium);
+        if (row.remaining_balance <= terminationBalance) break;
+      }
+      break;
+    }
+    case 'fha': {
+      upfrontRate = FHA_UPFRONT_MIP_RATE;
+      annualRate = fhaAnnualMipRate(loanToValueRatio, params.loan_term_years);
+      const months = loanToValueRatio <= 90 ? FHA_MIP_DURATION_MONTHS : schedule.length;
+      premiums = premiumsOnAverageBalance(schedule, params.loan_amount, annualRate, months);
+      break;
+    }
+    case 'va': {
+      upfrontRate = vaFundingFeeRate(downPaymentPercent);
+      break;
+    }
+    case 'usda': {
+      upfrontRate = USDA_UPFRONT_GUARANTEE_FEE_RATE;
+      annualRate = USDA_ANNUAL_FEE_RATE;
+      premiums = premiumsOnAverageBalance(schedule, params.loan_amount, annualRate, schedule.length);
+      break;
+    }
+  }
+
+  const monthlyPremiums = schedule.map((_, i) => premiums[i] ?? 0);
+
+  return {
+    annual_rate: annualRate,
+    upfront_rate: upfrontRate,
+    upfront_premium: roundCurrency(params.loan_amount * upfrontRate / 100),
+    monthly_premium: monthlyPremiums[0] ?? 0,
+    monthly_premiums: monthlyPremiums,
+    drop_off_month: premiums.length > 0 && premiums.length < schedule.length ? premiums.length + 1 : null,
+    total_premiums: roundCurrency(premiums.reduce((sum, p) => sum + p, 0))
+  };
+}
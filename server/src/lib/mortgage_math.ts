@@ -0,0 +1,131 @@
+// Shared mortgage payment math used by quote generation and schedules
+
+export interface ExtraPrincipalPayments {
+  extra_monthly_payment?: number;
+  extra_annual_payment?: number;
+  extra_annual_payment_month?: number; // 1-12, month of each loan year the annual payment is made
+  one_time_payment?: number;
+  one_time_payment_number?: number; // Payment number the one-time payment is made with
+}
+
+export interface AmortizationRow {
+  payment_number: number;
+  payment_date: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  extra_principal: number;
+  remaining_balance: number;
+}
+
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Calculate monthly payment using standard mortgage formula
+// M = P [ r(1 + r)^n ] / [ (1 + r)^n – 1]
+export function calculateMonthlyPayment(loanAmount: number, interestRate: number, loanTermYears: number): number {
+  return calculatePaymentOverMonths(loanAmount, interestRate, loanTermYears * 12);
+}
+
+// Same formula for a balance paid off over any number of months, e.g. the remainder of an existing loan
+export function calculatePaymentOverMonths(loanAmount: number, interestRate: number, numberOfPayments: number): number {
+  const monthlyRate = interestRate / 100 / 12;
+
+  if (monthlyRate === 0) {
+    return loanAmount / numberOfPayments;
+  }
+
+  const monthlyPayment = loanAmount *
+    (monthlyRate * Math.pow(1 + monthlyRate, numberOfPayments)) /
+    (Math.pow(1 + monthlyRate, numberOfPayments) - 1);
+
+  return Math.round(monthlyPayment * 100) / 100;
+}
+
+// Calculate total interest paid over the life of the loan
+export function calculateTotalInterest(loanAmount: number, interestRate: number, loanTermYears: number): number {
+  const monthlyPayment = calculateMonthlyPayment(loanAmount, interestRate, loanTermYears);
+  const totalPayments = monthlyPayment * loanTermYears * 12;
+
+  return Math.round((totalPayments - loanAmount) * 100) / 100;
+}
+
+// First payment is due on the first day of the month after next by default
+export function defaultFirstPaymentDate(from: Date = new Date()): Date {
+  return new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + 2, 1));
+}
+
+// Same day of the month, clamped to the end of shorter months (Jan 31 + 1 month is Feb 28)
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+// Build a month-by-month schedule, applying any extra principal payments
+// on top of the scheduled payment until the balance reaches zero.
+// yearlyRates (one rate per loan year) re-amortizes the remaining balance
+// whenever the rate changes, as an adjustable-rate loan does.
+export function buildAmortizationSchedule(
+  loanAmount: number,
+  interestRate: number,
+  loanTermYears: number,
+  firstPaymentDate: Date,
+  extras: ExtraPrincipalPayments = {},
+  yearlyRates?: number[]
+): AmortizationRow[] {
+  const numberOfPayments = loanTermYears * 12;
+  const annualMonth = extras.extra_annual_payment_month ?? 12;
+
+  let currentRate = interestRate;
+  let monthlyRate = currentRate / 100 / 12;
+  let scheduledPayment = calculateMonthlyPayment(loanAmount, currentRate, loanTermYears);
+
+  const rows: AmortizationRow[] = [];
+  let balance = loanAmount;
+
+  for (let paymentNumber = 1; paymentNumber <= numberOfPayments && balance > 0; paymentNumber++) {
+    const yearRate = yearlyRates?.[Math.floor((paymentNumber - 1) / 12)];
+    if (yearRate !== undefined && yearRate !== currentRate) {
+      const remainingPayments = numberOfPayments - paymentNumber + 1;
+      currentRate = yearRate;
+      monthlyRate = currentRate / 100 / 12;
+      scheduledPayment = calculateMonthlyPayment(balance, currentRate, remainingPayments / 12);
+    }
+
+    const interest = roundCurrency(balance * monthlyRate);
+
+    // The final scheduled payment absorbs any rounding drift
+    let principal = paymentNumber === numberOfPayments
+      ? balance
+      : Math.min(roundCurrency(scheduledPayment - interest), balance);
+
+    let extraPrincipal = extras.extra_monthly_payment ?? 0;
+    if (extras.extra_annual_payment && (paymentNumber - 1) % 12 + 1 === annualMonth) {
+      extraPrincipal += extras.extra_annual_payment;
+    }
+    if (extras.one_time_payment && extras.one_time_payment_number === paymentNumber) {
+      extraPrincipal += extras.one_time_payment;
+    }
+    extraPrincipal = roundCurrency(Math.min(extraPrincipal, balance - principal));
+
+    principal = roundCurrency(principal);
+    balance = Math.max(0, roundCurrency(balance - principal - extraPrincipal));
+
+    rows.push({
+      payment_number: paymentNumber,
+      payment_date: addMonths(firstPaymentDate, paymentNumber - 1),
+      payment: roundCurrency(principal + interest),
+      principal,
+      interest,
+      extra_principal: extraPrincipal,
+      remaining_balance: balance
+    });
+  }
+
+  return rows;
+}
+
+export function sumInterest(rows: AmortizationRow[]): number {
+  return roundCurrency(rows.reduce((total, row) => total + row.interest, 0));
+}
@@ -0,0 +1,211 @@
+// Minimal single-page PDF writer: standard Helvetica text, filled rectangles and one embedded image
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  color_space: 'DeviceRGB' | 'DeviceGray';
+  filter: 'DCTDecode' | 'FlateDecode';
+  decode_parms: string | null; // PNG predictor settings for FlateDecode images
+  data: Uint8Array;
+}
+
+export interface PdfPage {
+  width: number; // Points, 72 per inch
+  height: number;
+  operations: string[]; // Content stream operators from the helpers below
+  image: PdfImage | null; // Drawn with pdfDrawImage
+}
+
+export const US_LETTER = { width: 612, height: 792 };
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Average Helvetica glyph width as a fraction of the font size, close enough for wrapping prose
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+const num = (value: number): string => (Math.round(value * 100) / 100).toString();
+
+// Standard fonts use WinAnsiEncoding; characters outside Latin-1 are replaced
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+export function pdfText(text: string, x: number, y: number, size: number, font: PdfFont = 'regular', color: PdfColor = [0, 0, 0]): string {
+  return `BT ${color.map(num).join(' ')} rg /${FONT_NAMES[font]} ${num(size)} Tf ${num(x)} ${num(y)} Td (${escapeText(text)}) Tj ET`;
+}
+
+export function pdfRect(x: number, y: number, width: number, height: number, color: PdfColor): string {
+  return `${color.map(num).join(' ')} rg ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`;
+}
+
+export function pdfDrawImage(x: number, y: number, width: number, height: number): string {
+  return `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im1 Do Q`;
+}
+
+export function textWidth(text: string, size: number): number {
+  return text.length * size * AVERAGE_CHAR_WIDTH;
+}
+
+// Greedy word wrap to lines no wider than maxWidth
+export function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && textWidth(candidate, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  return lines;
+}
+
+const readUint16 = (bytes: Uint8Array, offset: number): number => (bytes[offset] << 8) | bytes[offset + 1];
+const readUint32 = (bytes: Uint8Array, offset: number): number =>
+  ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+
+// Baseline and progressive JPEGs embed as-is; the frame header gives the size
+function parseJpeg(bytes: Uint8Array): PdfImage | null {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const isFrameHeader = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrameHeader) {
+      const components = bytes[offset + 9];
+      if (components !== 1 && components !== 3) return null;
+      return {
+        width: readUint16(bytes, offset + 7),
+        height: readUint16(bytes, offset + 5),
+        color_space: components === 1 ? 'DeviceGray' : 'DeviceRGB',
+        filter: 'DCTDecode',
+        decode_parms: null,
+        data: bytes
+      };
+    }
+    offset += 2 + readUint16(bytes, offset + 2);
+  }
+  return null;
+}
+
+// PNG image data is zlib with per-row filters, which PDF decodes natively via the PNG predictor.
+// Only 8-bit, non-interlaced grayscale and RGB images are supported; alpha needs a separate mask.
+function parsePng(bytes: Uint8Array): PdfImage | null {
+  let offset = 8;
+  let header: { width: number; height: number; bitDepth: number; colorType: number; interlace: number } | null = null;
+  const chunks: Uint8Array[] = [];
+
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      header = {
+        width: readUint32(data, 0),
+        height: readUint32(data, 4),
+        bitDepth: data[8],
+        colorType: data[9],
+        interlace: data[12]
+      };
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  if (!header || header.bitDepth !== 8 || header.interlace !== 0 || chunks.length === 0) return null;
+  if (header.colorType !== 0 && header.colorType !== 2) return null;
+
+  const colors = header.colorType === 0 ? 1 : 3;
+  return {
+    width: header.width,
+    height: header.height,
+    color_space: colors === 1 ? 'DeviceGray' : 'DeviceRGB',
+    filter: 'FlateDecode',
+    decode_parms: `<< /Predictor 15 /Colors ${colors} /BitsPerComponent 8 /Columns ${header.width} >>`,
+    data: Buffer.concat(chunks)
+  };
+}
+
+// Detect the image format from its signature; null for anything that cannot be embedded
+export function loadPdfImage(bytes: Uint8Array): PdfImage | null {
+  if (bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return parseJpeg(bytes);
+  }
+  if (bytes.length > 8 && bytes[0] === 0x89 && String.fromCharCode(...bytes.subarray(1, 4)) === 'PNG') {
+    return parsePng(bytes);
+  }
+  return null;
+}
+
+export function renderPdf(page: PdfPage): Buffer {
+  const content = Buffer.from(page.operations.join('\n'), 'latin1');
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from('<< /Type /Pages /Kids [3 0 R] /Count 1 >>'),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+      `/Resources << /Font << /F1 5 0 R /F2 6 0 R >>${page.image ? ' /XObject << /Im1 7 0 R >>' : ''} >> /Contents 4 0 R >>`
+    ),
+    Buffer.concat([Buffer.from(`<< /Length ${content.length} >>\nstream\n`), content, Buffer.from('\nendstream')]),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'),
+    Buffer.from('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  ];
+
+  if (page.image) {
+    const image = page.image;
+    objects.push(Buffer.concat([
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+        `/ColorSpace /${image.color_space} /BitsPerComponent 8 /Filter /${image.filter}` +
+        `${image.decode_parms ? ` /DecodeParms ${image.decode_parms}` : ''} /Length ${image.data.length} >>\nstream\n`
+      ),
+      Buffer.from(image.data),
+      Buffer.from('\nendstream')
+    ]));
+  }
+
+  // The binary comment marks the file as binary for transfer tools
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let length = parts[0].length;
+  const offsets: number[] = [];
+
+  objects.forEach((object, index) => {
+    offsets.push(length);
+    const part = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`), object, Buffer.from('\nendobj\n')]);
+    parts.push(part);
+    length += part.length;
+  });
+
+  // Cross-reference entries are fixed 20-byte records
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    length.toString(),
+    '%%EOF',
+    ''
+  ].join('\n');
+  parts.push(Buffer.from(xref));
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,110 @@
+import { type LoanType, type PrequalLetter, type RateType } from '../schema';
+import { type PdfColor, type PdfImage, US_LETTER, pdfDrawImage, pdfRect, pdfText, renderPdf, wrapText } from './pdf';
+
+// Pre-qualification letter layout, rendered with the lender's logo when one can be embedded
+
+export interface LetterLender {
+  name: string;
+  phone: string | null;
+  email: string | null;
+  website_url: string | null;
+}
+
+const LOAN_TYPE_LABELS: Record<LoanType, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA',
+  usda: 'USDA',
+  jumbo: 'Jumbo'
+};
+
+const RATE_TYPE_LABELS: Record<RateType, string> = {
+  fixed: 'fixed-rate',
+  arm_5_1: '5/1 adjustable-rate',
+  arm_7_1: '7/1 adjustable-rate',
+  arm_10_1: '10/1 adjustable-rate'
+};
+
+const MARGIN = 72;
+const BRAND_COLOR: PdfColor = [0.15, 0.35, 0.8];
+const MUTED_COLOR: PdfColor = [0.4, 0.4, 0.4];
+const LOGO_MAX_WIDTH = 160;
+const LOGO_MAX_HEIGHT = 48;
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(amount);
+
+// Letters are dated in UTC so the rendered dates match the stored timestamps
+export const formatLetterDate = (date: Date): string =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' });
+
+export const describeLoanProgram = (letter: Pick<PrequalLetter, 'loan_type' | 'loan_term' | 'rate_type'>): string =>
+  `${letter.loan_term}-year ${RATE_TYPE_LABELS[letter.rate_type]} ${LOAN_TYPE_LABELS[letter.loan_type]}`;
+
+export function renderPrequalLetter(letter: PrequalLetter, lender: LetterLender, logo: PdfImage | null): Buffer {
+  const contentWidth = US_LETTER.width - MARGIN * 2;
+  const operations: string[] = [pdfRect(0, US_LETTER.height - 12, US_LETTER.width, 12, BRAND_COLOR)];
+  let y = US_LETTER.height - MARGIN;
+
+  // Letterhead: the logo scaled into a fixed box, otherwise the lender name
+  if (logo) {
+    const scale = Math.min(LOGO_MAX_WIDTH / logo.width, LOGO_MAX_HEIGHT / logo.height, 1);
+    const height = logo.height * scale;
+    operations.push(pdfDrawImage(MARGIN, y - height, logo.width * scale, height));
+    y -= height + 14;
+  } else {
+    operations.push(pdfText(lender.name, MARGIN, y - 20, 22, 'bold', BRAND_COLOR));
+    y -= 34;
+  }
+
+  const contact = [lender.phone, lender.email, lender.website_url].filter(Boolean).join('  |  ');
+  if (contact) {
+    operations.push(pdfText(contact, MARGIN, y, 9, 'regular', MUTED_COLOR));
+    y -= 14;
+  }
+  operations.push(pdfRect(MARGIN, y, contentWidth, 0.75, MUTED_COLOR));
+  y -= 40;
+
+  operations.push(pdfText('Pre-Qualification Letter', MARGIN, y, 20, 'bold'));
+  y -= 24;
+  operations.push(pdfText(formatLetterDate(letter.issued_at), MARGIN, y, 11, 'regular', MUTED_COLOR));
+  y -= 36;
+
+  const paragraph = (text: string) => {
+    for (const line of wrapText(text, 11, contentWidth)) {
+      operations.push(pdfText(line, MARGIN, y, 11));
+      y -= 16;
+    }
+    y -= 10;
+  };
+
+  paragraph(`Dear ${letter.borrower_name},`);
+  paragraph(
+    `Based on the information you provided, ${lender.name} is pleased to inform you that you are pre-qualified ` +
+    `for a ${describeLoanProgram(letter)} mortgage on the following terms:`
+  );
+
+  const terms: [string, string][] = [
+    ['Maximum purchase price', formatCurrency(letter.purchase_price)],
+    ['Loan amount', formatCurrency(letter.loan_amount)],
+    ['Loan program', describeLoanProgram(letter)],
+    ['Interest rate', `${letter.interest_rate.toFixed(3)}% (not locked)`],
+    ['Valid through', formatLetterDate(letter.expires_at)]
+  ];
+  for (const [label, value] of terms) {
+    operations.push(pdfText(label, MARGIN + 12, y, 11, 'bold'));
+    operations.push(pdfText(value, MARGIN + 200, y, 11));
+    y -= 20;
+  }
+  y -= 16;
+
+  paragraph(
+    'This letter is not a commitment to lend. Final loan approval is subject to verification of income, assets, ' +
+    'employment and credit, a satisfactory appraisal of the property, and the lender\'s underwriting guidelines ' +
+    'at the time of application. Interest rates are subject to change until locked.'
+  );
+  paragraph('Sincerely,');
+  operations.push(pdfText(lender.name, MARGIN, y, 11, 'bold'));
+
+  return renderPdf({ ...US_LETTER, operations, image: logo });
+}
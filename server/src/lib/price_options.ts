@@ -0,0 +1,47 @@
+import { type QuotePriceOption, type RatePriceOption } from '../schema';
+import { calculateMonthlyPayment, roundCurrency } from './mortgage_math';
+
+// Rate/points trade-off: buying the rate down costs more upfront and saves monthly, taking a lender
+// credit does the opposite. Each option is measured against par, the option closest to zero points.
+
+function findPar(options: RatePriceOption[]): RatePriceOption {
+  return options.reduce((par, option) => {
+    const distance = Math.abs(option.points) - Math.abs(par.points);
+    return distance < 0 || (distance === 0 && option.interest_rate < par.interest_rate) ? option : par;
+  });
+}
+
+export function comparePriceOptions(loanAmount: number, loanTermYears: number, options: RatePriceOption[]): QuotePriceOption[] {
+  // The same pairing may be published twice, e.g. on the row and again as an option
+  const unique = options.filter((option, index) =>
+    options.findIndex(other => other.interest_rate === option.interest_rate && other.points === option.points) === index
+  );
+  const par = findPar(unique);
+  const price = (option: RatePriceOption) => ({
+    upfront_cost: roundCurrency(loanAmount * option.points / 100),
+    monthly_payment: calculateMonthlyPayment(loanAmount, option.interest_rate, loanTermYears)
+  });
+  const parPrice = price(par);
+
+  return unique
+    .sort((a, b) => b.points - a.points || a.interest_rate - b.interest_rate)
+    .map(option => {
+      const { upfront_cost, monthly_payment } = price(option);
+      const extraCost = roundCurrency(upfront_cost - parPrice.upfront_cost);
+      const monthlySavings = roundCurrency(parPrice.monthly_payment - monthly_payment);
+
+      // Bought-down rates break even once their savings repay the points; lender credits
+      // once the higher payments have used up the credit
+      const breaksEven = (extraCost > 0 && monthlySavings > 0) || (extraCost < 0 && monthlySavings < 0);
+
+      return {
+        interest_rate: option.interest_rate,
+        points: option.points,
+        upfront_cost,
+        monthly_payment,
+        monthly_savings: monthlySavings,
+        break_even_month: breaksEven ? Math.ceil(extraCost / monthlySavings) : null,
+        is_par: option === par
+      };
+    });
+}
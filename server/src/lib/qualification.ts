@@ -0,0 +1,149 @@
+import { type LoanType, type QualificationStatus, type QuoteQualification } from '../schema';
+
+// Debt-to-income qualification rules shared by quoting and pre-qualification
+
+export interface DtiLimits {
+  front_end: number | null; // Housing payment / income, null when the program has no front-end limit
+  back_end: number; // (Housing payment + other debts) / income
+  front_end_margin: number; // How far above the limit compensating factors can stretch
+  back_end_margin: number;
+}
+
+// Standard agency guidelines; a rate's own max_front_end_dti/max_back_end_dti override these limits
+export const DEFAULT_DTI_LIMITS: Record<LoanType, DtiLimits> = {
+  conventional: { front_end: 28, back_end: 45, front_end_margin: 8, back_end_margin: 5 },
+  fha: { front_end: 31, back_end: 43, front_end_margin: 9, back_end_margin: 14 },
+  va: { front_end: null, back_end: 41, front_end_margin: 0, back_end_margin: 9 },
+  usda: { front_end: 29, back_end: 41, front_end_margin: 3, back_end_margin: 3 },
+  jumbo: { front_end: 28, back_end: 43, front_end_margin: 0, back_end_margin: 0 }
+};
+
+export interface DtiAssessmentParams {
+  loan_type: LoanType;
+  housing_payment: number; // Full monthly housing payment (PITI, mortgage insurance and HOA)
+  gross_monthly_income?: number | null;
+  monthly_debts?: number | null;
+  stated_debt_to_income_ratio?: number | null; // Borrower-supplied DTI, used when income is unknown
+  max_front_end_dti?: number | null;
+  max_back_end_dti?: number | null;
+}
+
+const STATUS_SEVERITY: Record<QualificationStatus, number> = {
+  eligible: 0,
+  eligible_with_conditions: 1,
+  ineligible: 2
+};
+
+export function worstStatus(a: QualificationStatus, b: QualificationStatus): QualificationStatus {
+  return STATUS_SEVERITY[a] >= STATUS_SEVERITY[b] ? a : b;
+}
+
+export interface QualificationCheck {
+  status: QualificationStatus;
+  reason: string | null;
+}
+
+export const roundRatio = (ratio: number): number => Math.round(ratio * 100) / 100;
+
+function checkRatio(label: string, ratio: number, limit: number, margin: number): QualificationCheck {
+  if (ratio <= limit) {
+    return { status: 'eligible', reason: null };
+  }
+  if (ratio <= limit + margin) {
+    return {
+      status: 'eligible_with_conditions',
+      reason: `${label} DTI ${ratio.toFixed(2)}% exceeds the ${limit}% guideline; compensating factors required`
+    };
+  }
+  return {
+    status: 'ineligible',
+    reason: `${label} DTI ${ratio.toFixed(2)}% exceeds the maximum of ${limit + margin}%`
+  };
+}
+
+export function assessDti(params: DtiAssessmentParams): QuoteQualification {
+  const defaults = DEFAULT_DTI_LIMITS[params.loan_type];
+  const maxFrontEnd = params.max_front_end_dti ?? defaults.front_end;
+  const maxBackEnd = params.max_back_end_dti ?? defaults.back_end;
+
+  let frontEndDti: number | null = null;
+  let backEndDti: number | null = null;
+
+  if (params.gross_monthly_income) {
+    frontEndDti = roundRatio(params.housing_payment / params.gross_monthly_income * 100);
+    backEndDti = roundRatio((params.housing_payment + (params.monthly_debts ?? 0)) / params.gross_monthly_income * 100);
+  } else if (params.stated_debt_to_income_ratio !== null && params.stated_debt_to_income_ratio !== undefined) {
+    backEndDti = params.stated_debt_to_income_ratio;
+  }
+
+  const qualification: QuoteQualification = {
+    status: 'eligible',
+    front_end_dti: frontEndDti,
+    back_end_dti: backEndDti,
+    max_front_end_dti: maxFrontEnd,
+    max_back_end_dti: maxBackEnd,
+    reasons: []
+  };
+
+  if (backEndDti === null) {
+    qualification.status = 'eligible_with_conditions';
+    qualification.reasons.push('Income and debts not provided; subject to DTI verification');
+    return qualification;
+  }
+
+  const checks = [checkRatio('Back-end', backEndDti, maxBackEnd, defaults.back_end_margin)];
+  if (frontEndDti !== null && maxFrontEnd !== null) {
+    checks.unshift(checkRatio('Front-end', frontEndDti, maxFrontEnd, defaults.front_end_margin));
+  }
+
+  for (const check of checks) {
+    qualification.status = worstStatus(qualification.status, check.status);
+    if (check.reason) qualification.reasons.push(check.reason);
+  }
+
+  return qualification;
+}
+
+export function checkCreditScore(creditScore: number, minCreditScore: number): QualificationCheck {
+  if (creditScore >= minCreditScore) {
+    return { status: 'eligible', reason: null };
+  }
+  return {
+    status: 'ineligible',
+    reason: `Credit score ${creditScore} is below the program minimum of ${minCreditScore}`
+  };
+}
+
+// Rates carry a minimum down payment, so the LTV limit is what remains of the purchase price
+export function checkLoanToValue(loanToValueRatio: number, minDownPaymentPercent: number): QualificationCheck {
+  const maxLtv = 100 - minDownPaymentPercent;
+  if (loanToValueRatio <= maxLtv) {
+    return { status: 'eligible', reason: null };
+  }
+  return {
+    status: 'ineligible',
+    reason: `LTV ${loanToValueRatio.toFixed(2)}% exceeds the maximum of ${maxLtv}%`
+  };
+}
+
+// Short of funds can still close with gifts or seller credits, so it only adds a condition
+export function checkFundsToClose(totalAssets: number, fundsToClose: number): QualificationCheck {
+  if (totalAssets >= fundsToClose) {
+    return { status: 'eligible', reason: null };
+  }
+  return {
+    status: 'eligible_with_conditions',
+    reason: `Assets of $${totalAssets.toFixed(2)} do not cover the $${fundsToClose.toFixed(2)} needed to close`
+  };
+}
+
+// Underwriters want two years of employment history
+export function checkEmploymentHistory(yearsEmployed: number): QualificationCheck {
+  if (yearsEmployed >= 2) {
+    return { status: 'eligible', reason: null };
+  }
+  return {
+    status: 'eligible_with_conditions',
+    reason: `${yearsEmployed} years of employment history is under two years; an explanation of gaps is required`
+  };
+}
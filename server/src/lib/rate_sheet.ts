@@ -0,0 +1,242 @@
+// CSV rate sheet reading and writing shared by bulk rate import and export
+
+import { type AdminMortgageRate, type RatePriceOption } from '../schema';
+
+// Columns a rate sheet may carry, in the order sheets are written
+export const RATE_SHEET_COLUMNS = [
+  'lender_id',
+  'loan_type',
+  'loan_term',
+  'rate_type',
+  'interest_rate',
+  'apr',
+  'points',
+  'price_options',
+  'min_credit_score',
+  'max_loan_amount',
+  'min_down_payment_percent',
+  'closing_costs',
+  'allowed_property_types',
+  'allowed_occupancy_types',
+  'allowed_loan_purposes',
+  'max_units',
+  'max_front_end_dti',
+  'max_back_end_dti',
+  'arm_index',
+  'arm_index_value',
+  'arm_margin',
+  'arm_initial_cap',
+  'arm_periodic_cap',
+  'arm_lifetime_cap',
+  'effective_at',
+  'expires_at',
+  'is_active'
+] as const;
+
+export type RateSheetColumn = typeof RATE_SHEET_COLUMNS[number];
+
+// Descriptive columns written by exports and skipped on import
+export const RATE_SHEET_INFO_COLUMNS = ['lender_name'] as const;
+
+// Columns every sheet must include; lender_id may instead come from the import request
+export const REQUIRED_RATE_SHEET_COLUMNS: RateSheetColumn[] = [
+  'loan_type',
+  'loan_term',
+  'interest_rate',
+  'apr',
+  'points',
+  'min_credit_score',
+  'max_loan_amount',
+  'min_down_payment_percent'
+];
+
+const NUMBER_COLUMNS = new Set<RateSheetColumn>([
+  'lender_id',
+  'interest_rate',
+  'apr',
+  'points',
+  'min_credit_score',
+  'max_loan_amount',
+  'min_down_payment_percent',
+  'closing_costs',
+  'max_units',
+  'max_front_end_dti',
+  'max_back_end_dti',
+  'arm_index_value',
+  'arm_margin',
+  'arm_initial_cap',
+  'arm_periodic_cap',
+  'arm_lifetime_cap'
+]);
+
+// Multi-value cells separate their entries with a pipe, e.g. "single_family|condo"
+const LIST_COLUMNS = new Set<RateSheetColumn>(['allowed_property_types', 'allowed_occupancy_types', 'allowed_loan_purposes']);
+
+// Price options are rate:points pairs in a multi-value cell, e.g. "6.25:1|6.75:-1"
+function parsePriceOptions(cell: string): RatePriceOption[] | string {
+  const options = cell.split('|').map(entry => entry.trim()).filter(entry => entry !== '').map(entry => {
+    const parts = entry.split(':').map(part => part.trim());
+    const [rate, points] = parts.map(Number);
+    return parts.length === 2 && parts.every(part => part !== '') && Number.isFinite(rate) && Number.isFinite(points)
+      ? { interest_rate: rate, points }
+      : null;
+  });
+  return options.every(option => option !== null) ? options as RatePriceOption[] : cell;
+}
+
+const formatPriceOptions = (options: RatePriceOption[]): string =>
+  options.map(option => `${option.interest_rate}:${option.points}`).join('|');
+
+export interface RateSheetRow {
+  row: number; // 1-based line number in the sheet, counting the header
+  values: Partial<Record<RateSheetColumn, string>>;
+}
+
+// Split CSV text into records, honouring quoted fields with embedded commas,
+// newlines and doubled quotes (RFC 4180)
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Rate sheet has an unterminated quoted field');
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no rate
+  return records.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// Read the header and data rows of a rate sheet, rejecting sheets whose
+// columns cannot be mapped so no row is misread
+export function readRateSheet(text: string, hasDefaultLender: boolean): RateSheetRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new Error('Rate sheet is empty');
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const known: readonly string[] = [...RATE_SHEET_COLUMNS, ...RATE_SHEET_INFO_COLUMNS];
+  const unknown = columns.filter(name => !known.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Rate sheet has unknown columns: ${unknown.join(', ')}`);
+  }
+
+  const required = hasDefaultLender ? REQUIRED_RATE_SHEET_COLUMNS : ['lender_id', ...REQUIRED_RATE_SHEET_COLUMNS];
+  const missing = required.filter(name => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Rate sheet is missing required columns: ${missing.join(', ')}`);
+  }
+
+  return records.map((record, index) => {
+    const values: Partial<Record<RateSheetColumn, string>> = {};
+    columns.forEach((name, column) => {
+      if ((RATE_SHEET_COLUMNS as readonly string[]).includes(name)) {
+        values[name as RateSheetColumn] = (record[column] ?? '').trim();
+      }
+    });
+    return { row: index + 2, values };
+  });
+}
+
+// Convert a row's cells to the shape of the create rate input. Blank cells are
+// left out so schema defaults apply; cells that fail to convert are passed
+// through unchanged so validation reports them against their column.
+export function rateSheetRowToInput(values: Partial<Record<RateSheetColumn, string>>): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+
+  for (const [column, cell] of Object.entries(values) as [RateSheetColumn, string][]) {
+    if (cell === '') continue;
+
+    if (NUMBER_COLUMNS.has(column)) {
+      const value = Number(cell);
+      input[column] = Number.isFinite(value) ? value : cell;
+    } else if (column === 'price_options') {
+      input[column] = parsePriceOptions(cell);
+    } else if (LIST_COLUMNS.has(column)) {
+      input[column] = cell.split('|').map(entry => entry.trim()).filter(entry => entry !== '');
+    } else if (column === 'is_active') {
+      const normalized = cell.toLowerCase();
+      input[column] = ['true', 'yes', '1'].includes(normalized) ? true
+        : ['false', 'no', '0'].includes(normalized) ? false
+        : cell;
+    } else {
+      input[column] = cell;
+    }
+  }
+
+  // A blank closing cost means the lender did not quote one
+  if (input['closing_costs'] === undefined) {
+    input['closing_costs'] = null;
+  }
+  // Likewise a blank price options cell offers only the row's own rate and points
+  if (input['price_options'] === undefined) {
+    input['price_options'] = [];
+  }
+
+  return input;
+}
+
+// Rate sheet fields for a stored rate, keyed like the sheet columns so an
+// export can be imported as-is
+export function rateToSheetRecord(rate: AdminMortgageRate): Record<string, unknown> {
+  const record: Record<string, unknown> = { lender_name: rate.lender_name };
+  for (const column of RATE_SHEET_COLUMNS) {
+    record[column] = rate[column];
+  }
+  return record;
+}
+
+// Quote cells that would otherwise split or end the field
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? ''
+    : value instanceof Date ? value.toISOString()
+    : Array.isArray(value) ? value.join('|')
+    : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function formatRateSheetCsv(rates: AdminMortgageRate[]): string {
+  const columns = [RATE_SHEET_COLUMNS[0], ...RATE_SHEET_INFO_COLUMNS, ...RATE_SHEET_COLUMNS.slice(1)];
+  const lines = [columns.join(',')];
+  for (const rate of rates) {
+    const record = rateToSheetRecord(rate);
+    lines.push(columns.map(column =>
+      csvCell(column === 'price_options' ? formatPriceOptions(rate.price_options) : record[column])
+    ).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
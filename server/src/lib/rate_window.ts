@@ -0,0 +1,19 @@
+import { and, eq, gt, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import { mortgageRatesTable } from '../db/schema';
+
+// A rate is quoted while active and inside its [effective_at, expires_at) window.
+// The window is checked against the database clock, which also sets the default
+// effective_at, so a rate is live from the moment it is inserted.
+export function liveRateCondition(): SQL {
+  return and(
+    eq(mortgageRatesTable.is_active, true),
+    lte(mortgageRatesTable.effective_at, sql`now()`),
+    or(isNull(mortgageRatesTable.expires_at), gt(mortgageRatesTable.expires_at, sql`now()`))
+  )!;
+}
+
+export function validateRateWindow(effectiveAt: Date, expiresAt: Date | null | undefined): void {
+  if (expiresAt && expiresAt <= effectiveAt) {
+    throw new Error('Rate expires_at must be after effective_at');
+  }
+}
@@ -0,0 +1,152 @@
+import { type CreateMortgageQuoteRequestInput, type LoanType, type RefinanceAnalysis } from '../schema';
+import { calculatePaymentOverMonths, roundCurrency } from './mortgage_math';
+import { type QualificationCheck } from './qualification';
+
+// Refinance quoting: the new loan pays off the existing balance plus any cash out, and each quote
+// is compared with keeping the existing loan on principal, interest and mortgage insurance
+// (taxes and homeowners insurance do not change)
+
+// Highest LTV a cash-out refinance may reach by program; USDA does not offer cash-out
+export const CASH_OUT_MAX_LTV: Record<LoanType, number | null> = {
+  conventional: 80,
+  fha: 80,
+  va: 100,
+  usda: null,
+  jumbo: 80
+};
+
+export interface ExistingLoan {
+  balance: number;
+  interest_rate: number;
+  remaining_term_months: number;
+  mortgage_insurance_monthly: number; // Zero when the existing loan carries none
+  cash_out: number; // Zero for rate-and-term refinances
+}
+
+export interface RefinancedLoan {
+  monthly_payment: number; // Principal and interest
+  mortgage_insurance_monthly: number;
+  total_interest: number;
+  refinance_costs: number;
+  max_cash_out: number | null;
+}
+
+// Existing loan of a refinance request, null for purchases
+export function existingLoanFor(input: CreateMortgageQuoteRequestInput): ExistingLoan | null {
+  const purpose = input.loan_purpose ?? 'purchase';
+  if (purpose === 'purchase') {
+    return null;
+  }
+
+  // Temporary buydowns are seller-paid, so only a purchase has someone to fund one
+  if (input.temporary_buydown) {
+    throw new Error('Temporary buydowns are only available on purchases');
+  }
+
+  const missing = [
+    input.current_loan_balance == null && 'current_loan_balance',
+    input.current_interest_rate == null && 'current_interest_rate',
+    input.current_remaining_term_months == null && 'current_remaining_term_months',
+    purpose === 'cash_out_refinance' && input.cash_out_amount == null && 'cash_out_amount'
+  ].filter((field): field is string => field !== false);
+  if (missing.length > 0) {
+    throw new Error(`Refinance quotes require ${missing.join(', ')}`);
+  }
+
+  const balance = input.current_loan_balance!;
+  const cashOut = purpose === 'cash_out_refinance' ? input.cash_out_amount! : 0;
+  // Borrowing the full value is allowed, since VA cash-out goes to 100% LTV
+  if (balance + cashOut > input.property_value) {
+    throw new Error(cashOut > 0
+      ? 'Current loan balance plus cash out cannot exceed the estimated home value'
+      : 'Current loan balance cannot exceed the estimated home value');
+  }
+
+  return {
+    balance,
+    interest_rate: input.current_interest_rate!,
+    remaining_term_months: input.current_remaining_term_months!,
+    mortgage_insurance_monthly: input.current_mortgage_insurance_monthly ?? 0,
+    cash_out: cashOut
+  };
+}
+
+// Purchases drop any refinance fields; refinances borrow the existing balance and any cash out
+// against the home's equity
+export function resolveLoanAmounts(input: CreateMortgageQuoteRequestInput): CreateMortgageQuoteRequestInput {
+  const existing = existingLoanFor(input);
+  if (!existing) {
+    return {
+      ...input,
+      loan_purpose: 'purchase',
+      current_loan_balance: null,
+      current_interest_rate: null,
+      current_remaining_term_months: null,
+      current_mortgage_insurance_monthly: null,
+      cash_out_amount: null
+    };
+  }
+
+  const loanAmount = roundCurrency(existing.balance + existing.cash_out);
+  return {
+    ...input,
+    loan_amount: loanAmount,
+    down_payment: roundCurrency(input.property_value - loanAmount),
+    cash_out_amount: existing.cash_out > 0 ? existing.cash_out : null
+  };
+}
+
+// Most cash a rate can pay out: the loan is capped by the program's cash-out LTV, the rate's
+// minimum equity and its maximum loan amount. Null when the program has no cash-out option.
+export function maxCashOut(
+  existing: ExistingLoan,
+  loanType: LoanType,
+  propertyValue: number,
+  rate: { max_loan_amount: number; min_down_payment_percent: number }
+): number | null {
+  const maxLtv = CASH_OUT_MAX_LTV[loanType];
+  if (maxLtv === null) {
+    return null;
+  }
+
+  const maxLoan = Math.min(
+    propertyValue * maxLtv / 100,
+    propertyValue * (100 - rate.min_down_payment_percent) / 100,
+    rate.max_loan_amount
+  );
+  return Math.max(0, roundCurrency(maxLoan - existing.balance));
+}
+
+// Cash out past the program's LTV limit is still quoted, marked ineligible, so the borrower sees
+// how much cash the rate could pay out
+export function checkCashOutLimit(loanType: LoanType, loanToValueRatio: number, maxCashOutAmount: number | null): QualificationCheck {
+  const maxLtv = CASH_OUT_MAX_LTV[loanType];
+  if (maxLtv === null) {
+    return { status: 'ineligible', reason: `${loanType.toUpperCase()} loans do not offer cash-out refinances` };
+  }
+  if (loanToValueRatio <= maxLtv) {
+    return { status: 'eligible', reason: null };
+  }
+  return {
+    status: 'ineligible',
+    reason: `LTV ${loanToValueRatio.toFixed(2)}% exceeds the ${maxLtv}% cash-out limit; up to $${(maxCashOutAmount ?? 0).toFixed(2)} cash out is available`
+  };
+}
+
+export function analyzeRefinance(existing: ExistingLoan, refinanced: RefinancedLoan): RefinanceAnalysis {
+  const currentPrincipalAndInterest = calculatePaymentOverMonths(existing.balance, existing.interest_rate, existing.remaining_term_months);
+  const currentRemainingInterest = roundCurrency(currentPrincipalAndInterest * existing.remaining_term_months - existing.balance);
+  const currentMonthlyPayment = roundCurrency(currentPrincipalAndInterest + existing.mortgage_insurance_monthly);
+  const monthlySavings = roundCurrency(currentMonthlyPayment - refinanced.monthly_payment - refinanced.mortgage_insurance_monthly);
+
+  return {
+    current_monthly_payment: currentMonthlyPayment,
+    monthly_savings: monthlySavings,
+    refinance_costs: roundCurrency(refinanced.refinance_costs),
+    break_even_month: monthlySavings > 0 ? Math.ceil(refinanced.refinance_costs / monthlySavings) : null,
+    current_remaining_interest: currentRemainingInterest,
+    lifetime_interest_difference: roundCurrency(currentRemainingInterest - refinanced.total_interest),
+    cash_out: existing.cash_out,
+    max_cash_out: refinanced.max_cash_out
+  };
+}
@@ -16,6 +16,50 @@ export type PropertyType = z.infer<typeof propertyTypeEnum>;
 export const occupancyTypeEnum = z.enum(['primary', 'secondary', 'investment']);
 export type OccupancyType = z.infer<typeof occupancyTypeEnum>;
 
+// Enum for what a quoted loan is for
+export const loanPurposeEnum = z.enum(['purchase', 'refinance', 'cash_out_refinance']);
+export type LoanPurpose = z.infer<typeof loanPurposeEnum>;
+
+// Enum for seller-paid temporary buydowns, named by the rate reduction in each year
+export const temporaryBuydownEnum = z.enum(['1_0', '2_1', '3_2_1']);
+export type TemporaryBuydown = z.infer<typeof temporaryBuydownEnum>;
+
+// Enum for quote qualification outcomes
+export const qualificationStatusEnum = z.enum(['eligible', 'eligible_with_conditions', 'ineligible']);
+export type QualificationStatus = z.infer<typeof qualificationStatusEnum>;
+
+// Enum for rate products: fixed or x/1 adjustable-rate mortgages
+export const rateTypeEnum = z.enum(['fixed', 'arm_5_1', 'arm_7_1', 'arm_10_1']);
+export type RateType = z.infer<typeof rateTypeEnum>;
+
+// Enum for the index an adjustable rate tracks
+export const armIndexEnum = z.enum(['sofr', 'treasury_1y']);
+export type ArmIndex = z.infer<typeof armIndexEnum>;
+
+// Enum for rate history entries
+export const rateChangeTypeEnum = z.enum(['created', 'updated']);
+export type RateChangeType = z.infer<typeof rateChangeTypeEnum>;
+
+// Enums for rate lock lifecycle and lock periods (in days)
+export const rateLockStatusEnum = z.enum(['requested', 'locked', 'extended', 'expired', 'cancelled']);
+export type RateLockStatus = z.infer<typeof rateLockStatusEnum>;
+
+export const rateLockPeriodEnum = z.enum(['30', '45', '60']);
+export type RateLockPeriod = z.infer<typeof rateLockPeriodEnum>;
+
+export const incomeTypeEnum = z.enum(['salary', 'hourly', 'self_employment', 'bonus_commission', 'rental', 'retirement', 'other']);
+export type IncomeType = z.infer<typeof incomeTypeEnum>;
+
+export const assetTypeEnum = z.enum(['checking', 'savings', 'retirement', 'investment', 'gift', 'other']);
+export type AssetType = z.infer<typeof assetTypeEnum>;
+
+export const liabilityTypeEnum = z.enum(['credit_card', 'auto_loan', 'student_loan', 'personal_loan', 'child_support', 'other']);
+export type LiabilityType = z.infer<typeof liabilityTypeEnum>;
+
+// Enum for user roles
+export const userRoleEnum = z.enum(['platform_admin', 'lender_rep', 'borrower']);
+export type UserRole = z.infer<typeof userRoleEnum>;
+
 // Lender schema
 export const lenderSchema = z.object({
   id: z.number(),
@@ -43,6 +87,15 @@ export const createLenderInputSchema = z.object({
 
 export type CreateLenderInput = z.infer<typeof createLenderInputSchema>;
 
+// Alternative pricing of a rate sheet row: a lower rate for more points, or a higher rate with
+// a lender credit (negative points)
+export const ratePriceOptionSchema = z.object({
+  interest_rate: z.number().positive(),
+  points: z.number().min(-5).max(10)
+});
+
+export type RatePriceOption = z.infer<typeof ratePriceOptionSchema>;
+
 // Mortgage rate schema
 export const mortgageRateSchema = z.object({
   id: z.number(),
@@ -56,6 +109,22 @@ export const mortgageRateSchema = z.object({
   max_loan_amount: z.number(),
   min_down_payment_percent: z.number(),
   closing_costs: z.number().nullable(),
+  allowed_property_types: z.array(propertyTypeEnum),
+  allowed_occupancy_types: z.array(occupancyTypeEnum),
+  allowed_loan_purposes: z.array(loanPurposeEnum),
+  max_units: z.number().int(),
+  max_front_end_dti: z.number().nullable(),
+  max_back_end_dti: z.number().nullable(),
+  rate_type: rateTypeEnum,
+  arm_index: armIndexEnum.nullable(),
+  arm_index_value: z.number().nullable(),
+  arm_margin: z.number().nullable(),
+  arm_initial_cap: z.number().nullable(),
+  arm_periodic_cap: z.number().nullable(),
+  arm_lifetime_cap: z.number().nullable(),
+  price_options: z.array(ratePriceOptionSchema),
+  effective_at: z.coerce.date(),
+  expires_at: z.coerce.date().nullable(),
   is_active: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
@@ -75,6 +144,24 @@ export const createMortgageRateInputSchema = z.object({
   max_loan_amount: z.number().positive(),
   min_down_payment_percent: z.number().min(0).max(100),
   closing_costs: z.number().nonnegative().nullable(),
+  allowed_property_types: z.array(propertyTypeEnum).min(1).optional(), // Defaults to all property types
+  allowed_occupancy_types: z.array(occupancyTypeEnum).min(1).optional(), // Defaults to all occupancy types
+  allowed_loan_purposes: z.array(loanPurposeEnum).min(1).optional(), // Defaults to all loan purposes
+  max_units: z.number().int().min(1).max(4).optional(), // Defaults to 4
+  max_front_end_dti: z.number().positive().max(100).nullable().optional(), // Null uses the loan type default
+  max_back_end_dti: z.number().positive().max(100).nullable().optional(), // Null uses the loan type default
+  rate_type: rateTypeEnum.optional(), // Defaults to fixed
+  // ARM terms, required for adjustable rate types
+  arm_index: armIndexEnum.nullable().optional(),
+  arm_index_value: z.number().nonnegative().nullable().optional(),
+  arm_margin: z.number().nonnegative().nullable().optional(),
+  arm_initial_cap: z.number().nonnegative().nullable().optional(),
+  arm_periodic_cap: z.number().nonnegative().nullable().optional(),
+  arm_lifetime_cap: z.number().nonnegative().nullable().optional(),
+  price_options: z.array(ratePriceOptionSchema).optional(), // Defaults to none, the row's own rate and points only
+  // Quoting window; schedule a rate sheet ahead by setting a future effective_at
+  effective_at: z.coerce.date().optional(), // Defaults to now
+  expires_at: z.coerce.date().nullable().optional(), // Null never expires
   is_active: z.boolean().default(true)
 });
 
@@ -91,8 +178,20 @@ export const mortgageQuoteRequestSchema = z.object({
   loan_term: loanTermEnum,
   property_type: propertyTypeEnum,
   occupancy_type: occupancyTypeEnum,
+  number_of_units: z.number().int(),
   zip_code: z.string(),
   debt_to_income_ratio: z.number().nullable(),
+  gross_monthly_income: z.number().nullable(),
+  monthly_debts: z.number().nullable(),
+  loan_purpose: loanPurposeEnum,
+  current_loan_balance: z.number().nullable(),
+  current_interest_rate: z.number().nullable(),
+  current_remaining_term_months: z.number().int().nullable(),
+  current_mortgage_insurance_monthly: z.number().nullable(),
+  cash_out_amount: z.number().nullable(),
+  temporary_buydown: temporaryBuydownEnum.nullable(),
+  horizon_years: z.number().int().nullable(),
+  share_token: z.string(),
   created_at: z.coerce.date()
 });
 
@@ -108,12 +207,239 @@ export const createMortgageQuoteRequestInputSchema = z.object({
   loan_term: loanTermEnum,
   property_type: propertyTypeEnum,
   occupancy_type: occupancyTypeEnum,
+  number_of_units: z.number().int().min(1).max(4).optional(), // Defaults to 1
   zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format'),
-  debt_to_income_ratio: z.number().min(0).max(100).nullable()
+  debt_to_income_ratio: z.number().min(0).max(100).nullable(),
+  gross_monthly_income: z.number().positive().nullable().optional(),
+  monthly_debts: z.number().nonnegative().nullable().optional(), // Recurring debt payments, excluding housing
+  // Refinances size the new loan from the existing one: property_value is the estimated home value,
+  // and loan_amount and down_payment (the equity) are derived from current_loan_balance plus any cash out
+  loan_purpose: loanPurposeEnum.optional(), // Defaults to purchase
+  current_loan_balance: z.number().positive().nullable().optional(),
+  current_interest_rate: z.number().positive().max(25).nullable().optional(),
+  current_remaining_term_months: z.number().int().min(1).max(480).nullable().optional(),
+  current_mortgage_insurance_monthly: z.number().nonnegative().nullable().optional(), // PMI or MIP on the existing loan, if any
+  cash_out_amount: z.number().positive().nullable().optional(), // Cash-out refinances only
+  temporary_buydown: temporaryBuydownEnum.nullable().optional(), // Purchases only
+  horizon_years: z.number().int().min(1).max(30).nullable().optional() // Years the borrower expects to keep the loan
 });
 
 export type CreateMortgageQuoteRequestInput = z.infer<typeof createMortgageQuoteRequestInputSchema>;
 
+// Loan-level price adjustment (LLPA) schema
+export const llpaAdjustmentSchema = z.object({
+  id: z.number(),
+  lender_id: z.number(),
+  description: z.string(),
+  loan_type: loanTypeEnum.nullable(),
+  min_credit_score: z.number().int().nullable(),
+  max_credit_score: z.number().int().nullable(),
+  min_ltv: z.number().nullable(),
+  max_ltv: z.number().nullable(),
+  occupancy_type: occupancyTypeEnum.nullable(),
+  property_type: propertyTypeEnum.nullable(),
+  loan_purpose: loanPurposeEnum.nullable(),
+  rate_adjustment: z.number(),
+  points_adjustment: z.number(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type LlpaAdjustment = z.infer<typeof llpaAdjustmentSchema>;
+
+// Input schema for creating LLPAs (null criteria match every borrower)
+export const createLlpaAdjustmentInputSchema = z.object({
+  lender_id: z.number(),
+  description: z.string().min(1),
+  loan_type: loanTypeEnum.nullable(),
+  min_credit_score: z.number().int().min(300).max(850).nullable(),
+  max_credit_score: z.number().int().min(300).max(850).nullable(),
+  min_ltv: z.number().min(0).max(125).nullable(),
+  max_ltv: z.number().min(0).max(125).nullable(),
+  occupancy_type: occupancyTypeEnum.nullable(),
+  property_type: propertyTypeEnum.nullable(),
+  loan_purpose: loanPurposeEnum.nullable().optional(), // Defaults to every purpose
+  rate_adjustment: z.number(),
+  points_adjustment: z.number(),
+  is_active: z.boolean().default(true)
+});
+
+export type CreateLlpaAdjustmentInput = z.infer<typeof createLlpaAdjustmentInputSchema>;
+
+export const updateLlpaAdjustmentInputSchema = z.object({
+  id: z.number(),
+  description: z.string().min(1).optional(),
+  loan_type: loanTypeEnum.nullable().optional(),
+  min_credit_score: z.number().int().min(300).max(850).nullable().optional(),
+  max_credit_score: z.number().int().min(300).max(850).nullable().optional(),
+  min_ltv: z.number().min(0).max(125).nullable().optional(),
+  max_ltv: z.number().min(0).max(125).nullable().optional(),
+  occupancy_type: occupancyTypeEnum.nullable().optional(),
+  property_type: propertyTypeEnum.nullable().optional(),
+  loan_purpose: loanPurposeEnum.nullable().optional(),
+  rate_adjustment: z.number().optional(),
+  points_adjustment: z.number().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateLlpaAdjustmentInput = z.infer<typeof updateLlpaAdjustmentInputSchema>;
+
+export const deleteLlpaAdjustmentInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteLlpaAdjustmentInput = z.infer<typeof deleteLlpaAdjustmentInputSchema>;
+
+export const getLlpaAdjustmentsInputSchema = z.object({
+  lender_id: z.number()
+});
+
+export type GetLlpaAdjustmentsInput = z.infer<typeof getLlpaAdjustmentsInputSchema>;
+
+// Price adjustment applied to a quote
+export const priceAdjustmentSchema = z.object({
+  adjustment_id: z.number(),
+  description: z.string(),
+  rate_adjustment: z.number(),
+  points_adjustment: z.number()
+});
+
+export type PriceAdjustment = z.infer<typeof priceAdjustmentSchema>;
+
+// Property cost estimate schema (taxes and insurance for a ZIP code)
+export const propertyCostEstimateSchema = z.object({
+  zip_code: z.string(),
+  county: z.string().nullable(),
+  state: z.string().nullable(),
+  property_tax_rate: z.number(),
+  insurance_rate: z.number(),
+  source: z.enum(['zip', 'zip_prefix', 'national_average'])
+});
+
+export type PropertyCostEstimate = z.infer<typeof propertyCostEstimateSchema>;
+
+// Input schema for property cost estimate lookups
+export const getPropertyCostEstimateInputSchema = z.object({
+  zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format')
+});
+
+export type GetPropertyCostEstimateInput = z.infer<typeof getPropertyCostEstimateInputSchema>;
+
+// Monthly principal, interest, taxes and insurance breakdown
+export const pitiBreakdownSchema = z.object({
+  principal: z.number(),
+  interest: z.number(),
+  taxes: z.number(),
+  insurance: z.number(),
+  mortgage_insurance: z.number(),
+  hoa: z.number(),
+  total: z.number()
+});
+
+export type PitiBreakdown = z.infer<typeof pitiBreakdownSchema>;
+
+// Debt-to-income qualification result for a quote
+export const quoteQualificationSchema = z.object({
+  status: qualificationStatusEnum,
+  front_end_dti: z.number().nullable(),
+  back_end_dti: z.number().nullable(),
+  max_front_end_dti: z.number().nullable(),
+  max_back_end_dti: z.number(),
+  reasons: z.array(z.string())
+});
+
+export type QuoteQualification = z.infer<typeof quoteQualificationSchema>;
+
+// Payment for one loan year of an ARM, under projected and worst-case index movement
+export const armPaymentPathEntrySchema = z.object({
+  year: z.number().int(),
+  projected_rate: z.number(),
+  projected_payment: z.number(),
+  worst_case_rate: z.number(),
+  worst_case_payment: z.number()
+});
+
+export type ArmPaymentPathEntry = z.infer<typeof armPaymentPathEntrySchema>;
+
+// Adjustable-rate projection attached to ARM quotes
+export const armProjectionSchema = z.object({
+  index: armIndexEnum,
+  index_value: z.number(),
+  margin: z.number(),
+  initial_cap: z.number(),
+  periodic_cap: z.number(),
+  lifetime_cap: z.number(),
+  initial_period_years: z.number().int(),
+  initial_payment: z.number(),
+  fully_indexed_rate: z.number(),
+  first_adjustment_rate: z.number(), // Rate after the first adjustment if the index holds
+  first_adjustment_payment: z.number(),
+  worst_case_rate: z.number(), // Lifetime cap rate
+  worst_case_payment: z.number(), // Highest payment if every adjustment hits its cap
+  payment_path: z.array(armPaymentPathEntrySchema)
+});
+
+export type ArmProjection = z.infer<typeof armProjectionSchema>;
+
+// One rate/points pairing of a quote, compared with the option closest to zero points (par)
+export const quotePriceOptionSchema = z.object({
+  interest_rate: z.number(),
+  points: z.number(), // Negative for a lender credit
+  upfront_cost: z.number(), // Cost of the points, negative when the lender pays a credit
+  monthly_payment: z.number(),
+  monthly_savings: z.number(), // Against par, negative when the payment is higher
+  break_even_month: z.number().int().nullable(), // Month the option and par cost the same, null for par or when one is better throughout
+  is_par: z.boolean()
+});
+
+export type QuotePriceOption = z.infer<typeof quotePriceOptionSchema>;
+
+// New loan compared with keeping the existing one, on principal, interest and mortgage insurance
+export const refinanceAnalysisSchema = z.object({
+  current_monthly_payment: z.number(), // Principal, interest and any mortgage insurance on the existing loan
+  monthly_savings: z.number(), // Negative when the new payment is higher
+  refinance_costs: z.number(), // Closing costs, points and upfront mortgage insurance
+  break_even_month: z.number().int().nullable(), // Month savings repay the costs, null if they never do
+  current_remaining_interest: z.number(),
+  lifetime_interest_difference: z.number(), // Interest saved over the life of the loans, negative when refinancing costs more
+  cash_out: z.number(), // Zero for rate-and-term refinances
+  max_cash_out: z.number().nullable() // Most cash the program and rate allow, null for rate-and-term refinances
+});
+
+export type RefinanceAnalysis = z.infer<typeof refinanceAnalysisSchema>;
+
+// One year of a temporary buydown: the borrower pays the bought-down rate and escrow covers the rest
+export const buydownYearSchema = z.object({
+  year: z.number().int(),
+  interest_rate: z.number(),
+  monthly_payment: z.number(), // Principal and interest the borrower pays
+  monthly_subsidy: z.number() // Drawn from the subsidy escrow, zero once the note rate applies
+});
+
+export type BuydownYear = z.infer<typeof buydownYearSchema>;
+
+export const temporaryBuydownScheduleSchema = z.object({
+  type: temporaryBuydownEnum,
+  years: z.array(buydownYearSchema), // Each bought-down year, then the first year at the note rate
+  subsidy_escrow: z.number(), // Funded at closing, usually by the seller
+  effective_first_year_payment: z.number() // Total housing payment in year one after the subsidy
+});
+
+export type TemporaryBuydownSchedule = z.infer<typeof temporaryBuydownScheduleSchema>;
+
+// What a loan costs if it is paid off or sold after the borrower's horizon
+export const horizonCostSchema = z.object({
+  horizon_years: z.number().int(),
+  upfront_costs: z.number(), // Points, closing costs and upfront mortgage insurance
+  interest_paid: z.number(),
+  mortgage_insurance_paid: z.number(),
+  remaining_balance: z.number(), // Owed when the horizon ends
+  total_cost: z.number()
+});
+
+export type HorizonCost = z.infer<typeof horizonCostSchema>;
+
 // Mortgage quote response schema (combines rate with lender info)
 export const mortgageQuoteSchema = z.object({
   rate_id: z.number(),
@@ -122,18 +448,279 @@ export const mortgageQuoteSchema = z.object({
   lender_logo_url: z.string().nullable(),
   loan_type: loanTypeEnum,
   loan_term: loanTermEnum,
+  rate_type: rateTypeEnum,
+  base_interest_rate: z.number(),
+  base_points: z.number(),
+  price_adjustments: z.array(priceAdjustmentSchema),
   interest_rate: z.number(),
-  apr: z.number(),
+  apr: z.number(), // Rate sheet APR, shifted by any rate adjustments
+  calculated_apr: z.number(), // Reg Z APR for the borrower's loan amount and finance charges
   points: z.number(),
   monthly_payment: z.number(),
   total_interest: z.number(),
   closing_costs: z.number().nullable(),
   down_payment_percent: z.number(),
-  loan_to_value_ratio: z.number()
+  loan_to_value_ratio: z.number(),
+  mortgage_insurance_monthly: z.number(),
+  mortgage_insurance_upfront: z.number(),
+  mortgage_insurance_drop_off_month: z.number().int().nullable(),
+  total_mortgage_insurance: z.number(),
+  piti_monthly: pitiBreakdownSchema,
+  qualification: quoteQualificationSchema,
+  arm_projection: armProjectionSchema.nullable(), // Null for fixed-rate quotes
+  price_options: z.array(quotePriceOptionSchema), // Every rate/points pairing of the product, most points first
+  temporary_buydown: temporaryBuydownScheduleSchema.nullable(), // Null without a buydown
+  horizon_cost: horizonCostSchema.nullable(), // Null unless the request set horizon_years
+  refinance: refinanceAnalysisSchema.nullable() // Null for purchase quotes
 });
 
 export type MortgageQuote = z.infer<typeof mortgageQuoteSchema>;
 
+// Quote snapshot saved with a quote request
+export const savedQuoteSchema = mortgageQuoteSchema.extend({
+  quote_result_id: z.number()
+});
+
+export type SavedQuote = z.infer<typeof savedQuoteSchema>;
+
+// A quote request together with the quotes it returned
+export const savedQuotesSchema = z.object({
+  quote_request: mortgageQuoteRequestSchema,
+  quotes: z.array(savedQuoteSchema)
+});
+
+export type SavedQuotes = z.infer<typeof savedQuotesSchema>;
+
+export const getSavedQuotesInputSchema = z.object({
+  share_token: z.string().uuid()
+});
+
+export type GetSavedQuotesInput = z.infer<typeof getSavedQuotesInputSchema>;
+
+// Rate lock on a saved quote; pricing is fixed when the lock is requested
+export const rateLockSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  quote_request_id: z.number().nullable(),
+  quote_result_id: z.number().nullable(),
+  rate_id: z.number().nullable(),
+  lender_id: z.number(),
+  lender_name: z.string(),
+  lock_period: rateLockPeriodEnum,
+  status: rateLockStatusEnum,
+  loan_type: loanTypeEnum,
+  loan_term: loanTermEnum,
+  rate_type: rateTypeEnum,
+  loan_amount: z.number(),
+  interest_rate: z.number(),
+  apr: z.number(),
+  points: z.number(),
+  monthly_payment: z.number(),
+  price_adjustments: z.array(priceAdjustmentSchema),
+  locked_at: z.coerce.date().nullable(),
+  expires_at: z.coerce.date().nullable(),
+  cancelled_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type RateLock = z.infer<typeof rateLockSchema>;
+
+// The share token proves the caller was given the quote, since result IDs are sequential
+export const requestRateLockInputSchema = z.object({
+  share_token: z.string().uuid(),
+  quote_result_id: z.number(),
+  lock_period: rateLockPeriodEnum
+});
+
+export type RequestRateLockInput = z.infer<typeof requestRateLockInputSchema>;
+
+export const confirmRateLockInputSchema = z.object({
+  id: z.number()
+});
+
+export type ConfirmRateLockInput = z.infer<typeof confirmRateLockInputSchema>;
+
+export const extendRateLockInputSchema = z.object({
+  id: z.number(),
+  extension_days: z.number().int().min(1).max(30)
+});
+
+export type ExtendRateLockInput = z.infer<typeof extendRateLockInputSchema>;
+
+export const cancelRateLockInputSchema = z.object({
+  id: z.number()
+});
+
+export type CancelRateLockInput = z.infer<typeof cancelRateLockInputSchema>;
+
+// All filters are optional and combined
+export const getRateLocksInputSchema = z.object({
+  lender_id: z.number().optional(),
+  status: rateLockStatusEnum.optional()
+});
+
+export type GetRateLocksInput = z.infer<typeof getRateLocksInputSchema>;
+
+// Input schema for solving what a borrower can afford; rates are priced as a primary single-family home
+export const getAffordabilityInputSchema = z.object({
+  gross_monthly_income: z.number().positive(),
+  monthly_debts: z.number().nonnegative(),
+  available_cash: z.number().nonnegative(), // Cash for the down payment, closing costs and points
+  credit_score: z.number().int().min(300).max(850),
+  zip_code: z.string().regex(/^\d{5}(-\d{4})?$/, 'Invalid ZIP code format'),
+  loan_type: loanTypeEnum
+});
+
+export type GetAffordabilityInput = z.infer<typeof getAffordabilityInputSchema>;
+
+// The constraint that stops the purchase price from going higher
+export const affordabilityLimitEnum = z.enum(['dti', 'down_payment', 'max_loan_amount']);
+export type AffordabilityLimit = z.infer<typeof affordabilityLimitEnum>;
+
+// Largest purchase the borrower can carry on one rate
+export const affordabilityOptionSchema = z.object({
+  rate_id: z.number(),
+  lender_id: z.number(),
+  lender_name: z.string(),
+  loan_type: loanTypeEnum,
+  loan_term: loanTermEnum,
+  rate_type: rateTypeEnum,
+  interest_rate: z.number(),
+  points: z.number(),
+  price_adjustments: z.array(priceAdjustmentSchema),
+  max_purchase_price: z.number(),
+  loan_amount: z.number(),
+  down_payment: z.number(),
+  cash_to_close: z.number(), // Down payment, closing costs and points
+  monthly_payment: z.number(),
+  piti_monthly: pitiBreakdownSchema,
+  front_end_dti: z.number(),
+  back_end_dti: z.number(),
+  loan_to_value_ratio: z.number(),
+  limited_by: affordabilityLimitEnum
+});
+
+export type AffordabilityOption = z.infer<typeof affordabilityOptionSchema>;
+
+// Pre-qualification application sections
+export const prequalEmploymentSchema = z.object({
+  employer_name: z.string().min(1),
+  job_title: z.string().nullable(),
+  years_employed: z.number().nonnegative().max(99),
+  is_current: z.boolean(),
+  is_self_employed: z.boolean()
+});
+
+export type PrequalEmployment = z.infer<typeof prequalEmploymentSchema>;
+
+export const prequalIncomeSchema = z.object({
+  income_type: incomeTypeEnum,
+  description: z.string().nullable(),
+  monthly_amount: z.number().positive() // Gross, before taxes
+});
+
+export type PrequalIncome = z.infer<typeof prequalIncomeSchema>;
+
+export const prequalAssetSchema = z.object({
+  asset_type: assetTypeEnum,
+  institution: z.string().nullable(),
+  balance: z.number().nonnegative()
+});
+
+export type PrequalAsset = z.infer<typeof prequalAssetSchema>;
+
+export const prequalLiabilitySchema = z.object({
+  liability_type: liabilityTypeEnum,
+  creditor: z.string().nullable(),
+  monthly_payment: z.number().nonnegative(),
+  balance: z.number().nonnegative()
+});
+
+export type PrequalLiability = z.infer<typeof prequalLiabilitySchema>;
+
+// Pre-qualification letter; the amounts come from the quote request the borrower applied with
+export const prequalLetterSchema = z.object({
+  id: z.number(),
+  application_id: z.number(),
+  lender_id: z.number(),
+  lender_name: z.string(),
+  borrower_name: z.string(),
+  loan_type: loanTypeEnum,
+  loan_term: loanTermEnum,
+  rate_type: rateTypeEnum,
+  interest_rate: z.number(),
+  loan_amount: z.number(),
+  purchase_price: z.number(),
+  issued_at: z.coerce.date(),
+  expires_at: z.coerce.date()
+});
+
+export type PrequalLetter = z.infer<typeof prequalLetterSchema>;
+
+// Submitted application with its qualification result
+export const prequalApplicationSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  quote_request_id: z.number(),
+  quote_result_id: z.number().nullable(),
+  rate_id: z.number().nullable(),
+  lender_id: z.number(),
+  first_name: z.string(),
+  last_name: z.string(),
+  email: z.string().email(),
+  phone: z.string().nullable(),
+  employments: z.array(prequalEmploymentSchema),
+  incomes: z.array(prequalIncomeSchema),
+  assets: z.array(prequalAssetSchema),
+  liabilities: z.array(prequalLiabilitySchema),
+  gross_monthly_income: z.number(),
+  monthly_debts: z.number(),
+  total_assets: z.number(),
+  funds_to_close: z.number(),
+  status: qualificationStatusEnum,
+  front_end_dti: z.number().nullable(),
+  back_end_dti: z.number().nullable(),
+  loan_to_value_ratio: z.number(),
+  reasons: z.array(z.string()),
+  letter: prequalLetterSchema.nullable(), // Null when the application is ineligible
+  created_at: z.coerce.date()
+});
+
+export type PrequalApplication = z.infer<typeof prequalApplicationSchema>;
+
+// Input schema for submitting a pre-qualification application against a saved quote
+// Like a rate lock, the quote is identified by its result ID and its saved quotes' share token
+export const submitPrequalApplicationInputSchema = z.object({
+  share_token: z.string().uuid(),
+  quote_result_id: z.number(),
+  first_name: z.string().min(1),
+  last_name: z.string().min(1),
+  email: z.string().email(),
+  phone: z.string().nullable(),
+  employments: z.array(prequalEmploymentSchema),
+  incomes: z.array(prequalIncomeSchema).min(1),
+  assets: z.array(prequalAssetSchema),
+  liabilities: z.array(prequalLiabilitySchema)
+});
+
+export type SubmitPrequalApplicationInput = z.infer<typeof submitPrequalApplicationInputSchema>;
+
+export const getPrequalLetterPdfInputSchema = z.object({
+  application_id: z.number()
+});
+
+export type GetPrequalLetterPdfInput = z.infer<typeof getPrequalLetterPdfInputSchema>;
+
+// Rendered letter; the binary PDF is base64 encoded for transport over tRPC
+export const prequalLetterPdfSchema = z.object({
+  filename: z.string(),
+  content_type: z.literal('application/pdf'),
+  content: z.string()
+});
+
+export type PrequalLetterPdf = z.infer<typeof prequalLetterPdfSchema>;
+
 // Update schemas
 export const updateLenderInputSchema = z.object({
   id: z.number(),
@@ -159,7 +746,276 @@ export const updateMortgageRateInputSchema = z.object({
   max_loan_amount: z.number().positive().optional(),
   min_down_payment_percent: z.number().min(0).max(100).optional(),
   closing_costs: z.number().nonnegative().nullable().optional(),
+  allowed_property_types: z.array(propertyTypeEnum).min(1).optional(),
+  allowed_occupancy_types: z.array(occupancyTypeEnum).min(1).optional(),
+  allowed_loan_purposes: z.array(loanPurposeEnum).min(1).optional(),
+  max_units: z.number().int().min(1).max(4).optional(),
+  max_front_end_dti: z.number().positive().max(100).nullable().optional(),
+  max_back_end_dti: z.number().positive().max(100).nullable().optional(),
+  rate_type: rateTypeEnum.optional(),
+  arm_index: armIndexEnum.nullable().optional(),
+  arm_index_value: z.number().nonnegative().nullable().optional(),
+  arm_margin: z.number().nonnegative().nullable().optional(),
+  arm_initial_cap: z.number().nonnegative().nullable().optional(),
+  arm_periodic_cap: z.number().nonnegative().nullable().optional(),
+  arm_lifetime_cap: z.number().nonnegative().nullable().optional(),
+  price_options: z.array(ratePriceOptionSchema).optional(), // Replaces every option
+  effective_at: z.coerce.date().optional(),
+  expires_at: z.coerce.date().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type UpdateMortgageRateInput = z.infer<typeof updateMortgageRateInputSchema>;
+
+// Admin list filters; unlike the public lists these include inactive rows
+export const listLendersInputSchema = z.object({
+  search: z.string().optional(), // Case-insensitive match on name
   is_active: z.boolean().optional()
 });
 
-export type UpdateMortgageRateInput = z.infer<typeof updateMortgageRateInputSchema>;
\ No newline at end of file
+export type ListLendersInput = z.infer<typeof listLendersInputSchema>;
+
+export const listMortgageRatesInputSchema = z.object({
+  search: z.string().optional(), // Case-insensitive match on lender name
+  lender_id: z.number().optional(),
+  loan_type: loanTypeEnum.optional(),
+  loan_term: loanTermEnum.optional(),
+  is_active: z.boolean().optional()
+});
+
+export type ListMortgageRatesInput = z.infer<typeof listMortgageRatesInputSchema>;
+
+// Rate with its lender's name for admin tables
+export const adminMortgageRateSchema = mortgageRateSchema.extend({
+  lender_name: z.string(),
+  lender_is_active: z.boolean()
+});
+
+export type AdminMortgageRate = z.infer<typeof adminMortgageRateSchema>;
+
+// Active rates whose expires_at falls within the next within_hours
+export const getExpiringRatesInputSchema = z.object({
+  within_hours: z.number().positive().max(24 * 30).default(24)
+});
+
+export type GetExpiringRatesInput = z.infer<typeof getExpiringRatesInputSchema>;
+
+// Lender portal inputs: the lender always comes from the signed-in rep, never the request
+export const createLenderRateInputSchema = createMortgageRateInputSchema.omit({ lender_id: true });
+
+export type CreateLenderRateInput = z.infer<typeof createLenderRateInputSchema>;
+
+export const updateLenderRateInputSchema = updateMortgageRateInputSchema.omit({ lender_id: true });
+
+export type UpdateLenderRateInput = z.infer<typeof updateLenderRateInputSchema>;
+
+export const deactivateLenderRateInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeactivateLenderRateInput = z.infer<typeof deactivateLenderRateInputSchema>;
+
+// Input schema for amortization schedules (quote inputs plus optional extra principal payments)
+export const amortizationScheduleInputSchema = createMortgageQuoteRequestInputSchema.extend({
+  rate_id: z.number(),
+  extra_monthly_payment: z.number().nonnegative().optional(),
+  extra_annual_payment: z.number().nonnegative().optional(),
+  extra_annual_payment_month: z.number().int().min(1).max(12).optional(),
+  one_time_payment: z.number().nonnegative().optional(),
+  one_time_payment_number: z.number().int().positive().optional(),
+  first_payment_date: z.coerce.date().optional()
+});
+
+export type AmortizationScheduleInput = z.infer<typeof amortizationScheduleInputSchema>;
+
+// Single month in an amortization schedule
+export const amortizationPaymentSchema = z.object({
+  payment_number: z.number().int(),
+  payment_date: z.coerce.date(),
+  payment: z.number(),
+  principal: z.number(),
+  interest: z.number(),
+  extra_principal: z.number(),
+  mortgage_insurance: z.number(),
+  remaining_balance: z.number()
+});
+
+export type AmortizationPayment = z.infer<typeof amortizationPaymentSchema>;
+
+// Amortization schedule response schema
+export const amortizationScheduleSchema = z.object({
+  rate_id: z.number(),
+  lender_id: z.number(),
+  loan_amount: z.number(),
+  interest_rate: z.number(),
+  loan_term: loanTermEnum,
+  monthly_payment: z.number(),
+  payments: z.array(amortizationPaymentSchema),
+  total_interest: z.number(),
+  mortgage_insurance_upfront: z.number(),
+  mortgage_insurance_drop_off_month: z.number().int().nullable(),
+  total_mortgage_insurance: z.number(),
+  number_of_payments: z.number().int(),
+  payoff_date: z.coerce.date(),
+  scheduled_payoff_date: z.coerce.date(),
+  months_saved: z.number().int(),
+  interest_saved: z.number()
+});
+
+export type AmortizationSchedule = z.infer<typeof amortizationScheduleSchema>;
+
+// Input schema for checking stored rate sheet APRs against calculated APRs
+export const getAprDiscrepanciesInputSchema = z.object({
+  tolerance: z.number().positive().optional(), // Defaults to the Reg Z tolerance of 0.125
+  reference_loan_amount: z.number().positive().optional() // Defaults to $300,000 capped at each rate's max
+});
+
+export type GetAprDiscrepanciesInput = z.infer<typeof getAprDiscrepanciesInputSchema>;
+
+export const aprDiscrepancySchema = z.object({
+  rate_id: z.number(),
+  lender_id: z.number(),
+  lender_name: z.string(),
+  loan_type: loanTypeEnum,
+  loan_term: loanTermEnum,
+  interest_rate: z.number(),
+  points: z.number(),
+  closing_costs: z.number().nullable(),
+  reference_loan_amount: z.number(),
+  stored_apr: z.number(),
+  calculated_apr: z.number(),
+  difference: z.number()
+});
+
+export type AprDiscrepancy = z.infer<typeof aprDiscrepancySchema>;
+
+// Rate history entry: a rate's pricing as of recorded_at
+export const rateHistoryEntrySchema = z.object({
+  id: z.number(),
+  rate_id: z.number(),
+  change_type: rateChangeTypeEnum,
+  lender_id: z.number(),
+  lender_name: z.string(),
+  loan_type: loanTypeEnum,
+  loan_term: loanTermEnum,
+  rate_type: rateTypeEnum,
+  interest_rate: z.number(),
+  apr: z.number(),
+  points: z.number(),
+  closing_costs: z.number().nullable(),
+  is_active: z.boolean(),
+  effective_at: z.coerce.date(), // Quoting window as of the change
+  expires_at: z.coerce.date().nullable(),
+  recorded_at: z.coerce.date() // When the change was made
+});
+
+export type RateHistoryEntry = z.infer<typeof rateHistoryEntrySchema>;
+
+// All filters are optional and combined; from/to bound recorded_at inclusively
+export const getRateHistoryInputSchema = z.object({
+  rate_id: z.number().optional(),
+  lender_id: z.number().optional(),
+  loan_type: loanTypeEnum.optional(),
+  loan_term: loanTermEnum.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export type GetRateHistoryInput = z.infer<typeof getRateHistoryInputSchema>;
+
+// Bulk rate sheet import; lender_id applies to rows whose sheet has no lender_id column or cell
+export const importRateSheetInputSchema = z.object({
+  csv: z.string().min(1),
+  lender_id: z.number().int().optional(),
+  dry_run: z.boolean().default(false), // Validate and preview without saving
+  replace_existing: z.boolean().default(false) // Retire the imported lenders' current rates once the new sheet takes effect
+});
+
+export type ImportRateSheetInput = z.infer<typeof importRateSheetInputSchema>;
+
+export const rateSheetRowErrorSchema = z.object({
+  row: z.number().int(), // Line number in the sheet, counting the header as line 1
+  messages: z.array(z.string())
+});
+
+export type RateSheetRowError = z.infer<typeof rateSheetRowErrorSchema>;
+
+export const rateSheetRowPreviewSchema = z.object({
+  row: z.number().int(),
+  rate: createMortgageRateInputSchema
+});
+
+export type RateSheetRowPreview = z.infer<typeof rateSheetRowPreviewSchema>;
+
+export const importRateSheetResultSchema = z.object({
+  dry_run: z.boolean(),
+  total_rows: z.number().int(),
+  valid_rows: z.array(rateSheetRowPreviewSchema),
+  errors: z.array(rateSheetRowErrorSchema),
+  imported_count: z.number().int(), // Zero on a dry run
+  deactivated_count: z.number().int() // Existing rates replaced, or that would be on a dry run
+});
+
+export type ImportRateSheetResult = z.infer<typeof importRateSheetResultSchema>;
+
+// Rate sheet export, filtered like the admin rate list
+export const exportRateSheetInputSchema = listMortgageRatesInputSchema.omit({ search: true }).extend({
+  format: z.enum(['csv', 'json'])
+});
+
+export type ExportRateSheetInput = z.infer<typeof exportRateSheetInputSchema>;
+
+export const rateSheetExportSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  filename: z.string(),
+  content: z.string(), // CSV text, or a JSON array of rate sheet rows with their lender names
+  rate_count: z.number().int()
+});
+
+export type RateSheetExport = z.infer<typeof rateSheetExportSchema>;
+
+// User schema (password hash is never exposed)
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string(),
+  role: userRoleEnum,
+  lender_id: z.number().nullable(), // Set for lender reps
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Self-service sign up, always as a borrower
+export const registerUserInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(8),
+  name: z.string().min(1)
+});
+
+export type RegisterUserInput = z.infer<typeof registerUserInputSchema>;
+
+// Admin-created accounts of any role
+export const createUserInputSchema = registerUserInputSchema.extend({
+  role: userRoleEnum,
+  lender_id: z.number().nullable().optional() // Required for lender reps
+});
+
+export type CreateUserInput = z.infer<typeof createUserInputSchema>;
+
+export const loginInputSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1)
+});
+
+export type LoginInput = z.infer<typeof loginInputSchema>;
+
+export const authSessionSchema = z.object({
+  token: z.string(), // Send as "Authorization: Bearer <token>"
+  expires_at: z.coerce.date(),
+  user: userSchema
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
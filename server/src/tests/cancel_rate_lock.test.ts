@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { cancelRateLock } from '../handlers/cancel_rate_lock';
+import { confirmRateLock } from '../handlers/confirm_rate_lock';
+import { requestRateLock } from '../handlers/request_rate_lock';
+import { requestQuotes } from '../handlers/request_quotes';
+import { toUser } from '../handlers/create_user';
+
+describe('cancelRateLock', () => {
+  let lenderId: number;
+  let otherLenderId: number;
+  let lockId: number;
+  let borrower: User;
+  let otherBorrower: User;
+  let lenderRep: User;
+  let otherLenderRep: User;
+  let admin: User;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Summit Bank' }, { name: 'Harbor Credit Union' }])
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+    otherLenderId = lenders[1].id;
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' },
+        { email: 'other@example.com', password_hash: 'unused', name: 'Otto Other', role: 'borrower' },
+        { email: 'rep@summit.example', password_hash: 'unused', name: 'Sam Rep', role: 'lender_rep', lender_id: lenderId },
+        { email: 'rep@harbor.example', password_hash: 'unused', name: 'Hal Rep', role: 'lender_rep', lender_id: otherLenderId },
+        { email: 'admin@example.com', password_hash: 'unused', name: 'Ada Admin', role: 'platform_admin' }
+      ])
+      .returning()
+      .execute();
+    [borrower, otherBorrower, lenderRep, otherLenderRep, admin] = users.map(toUser);
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    const lock = await requestRateLock(borrower.id, { share_token: saved.quote_request.share_token, quote_result_id: saved.quotes[0].quote_result_id, lock_period: '45' });
+    lockId = lock.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should let the borrower cancel their own lock', async () => {
+    const lock = await cancelRateLock(borrower, { id: lockId });
+
+    expect(lock.status).toEqual('cancelled');
+    expect(lock.cancelled_at).toBeInstanceOf(Date);
+  });
+
+  it('should let the lender and admins cancel a confirmed lock', async () => {
+    await confirmRateLock(lenderId, { id: lockId });
+    expect((await cancelRateLock(lenderRep, { id: lockId })).status).toEqual('cancelled');
+  });
+
+  it('should let admins cancel any lock', async () => {
+    expect((await cancelRateLock(admin, { id: lockId })).status).toEqual('cancelled');
+  });
+
+  it('should hide the lock from other borrowers and lenders', async () => {
+    await expect(cancelRateLock(otherBorrower, { id: lockId })).rejects.toThrow(/not found/);
+    await expect(cancelRateLock(otherLenderRep, { id: lockId })).rejects.toThrow(/not found/);
+  });
+
+  it('should not cancel a lock twice', async () => {
+    await cancelRateLock(borrower, { id: lockId });
+
+    await expect(cancelRateLock(borrower, { id: lockId }))
+      .rejects.toThrow(/cannot be cancelled from status cancelled/i);
+  });
+
+  it('should cancel a lock only once under concurrent requests', async () => {
+    const results = await Promise.allSettled([
+      cancelRateLock(borrower, { id: lockId }),
+      cancelRateLock(admin, { id: lockId })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, usersTable } from '../db/schema';
+import { confirmRateLock } from '../handlers/confirm_rate_lock';
+import { requestRateLock } from '../handlers/request_rate_lock';
+import { requestQuotes } from '../handlers/request_quotes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('confirmRateLock', () => {
+  let lenderId: number;
+  let otherLenderId: number;
+  let lockId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Summit Bank' }, { name: 'Harbor Credit Union' }])
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+    otherLenderId = lenders[1].id;
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    const lock = await requestRateLock(users[0].id, { share_token: saved.quote_request.share_token, quote_result_id: saved.quotes[0].quote_result_id, lock_period: '45' });
+    lockId = lock.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should lock a requested lock for its lock period', async () => {
+    const lock = await confirmRateLock(lenderId, { id: lockId });
+
+    expect(lock.status).toEqual('locked');
+    expect(lock.locked_at).toBeInstanceOf(Date);
+    expect(lock.expires_at!.getTime() - lock.locked_at!.getTime()).toEqual(45 * DAY_MS);
+  });
+
+  it('should only confirm requested locks', async () => {
+    await confirmRateLock(lenderId, { id: lockId });
+
+    await expect(confirmRateLock(lenderId, { id: lockId }))
+      .rejects.toThrow(/cannot be locked from status locked/i);
+  });
+
+  it('should not confirm another lender\'s lock', async () => {
+    await expect(confirmRateLock(otherLenderId, { id: lockId }))
+      .rejects.toThrow(/Rate lock with ID \d+ not found/);
+    await expect(confirmRateLock(lenderId, { id: 99999 }))
+      .rejects.toThrow(/Rate lock with ID 99999 not found/);
+  });
+
+  it('should confirm a lock only once under concurrent requests', async () => {
+    const results = await Promise.allSettled([
+      confirmRateLock(lenderId, { id: lockId }),
+      confirmRateLock(lenderId, { id: lockId })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.filter(result => result.status === 'rejected')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable } from '../db/schema';
+import { type CreateLenderRateInput } from '../schema';
+import { createLenderRate } from '../handlers/create_lender_rate';
+
+const testInput: CreateLenderRateInput = {
+  loan_type: 'fha',
+  loan_term: '30',
+  interest_rate: 6.125,
+  apr: 6.9,
+  points: 0,
+  min_credit_score: 580,
+  max_loan_amount: 498257,
+  min_down_payment_percent: 3.5,
+  closing_costs: 4000,
+  is_active: true
+};
+
+describe('createLenderRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create the rate for the rep\'s lender', async () => {
+    const lender = await db.insert(lendersTable)
+      .values({ name: 'Own Bank' })
+      .returning()
+      .execute();
+
+    const result = await createLenderRate(lender[0].id, testInput);
+
+    expect(result.lender_id).toEqual(lender[0].id);
+    expect(result.loan_type).toEqual('fha');
+    expect(result.interest_rate).toEqual(6.125);
+  });
+
+  it('should ignore a lender_id smuggled into the input', async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Own Bank' }, { name: 'Other Bank' }])
+      .returning()
+      .execute();
+
+    const result = await createLenderRate(lenders[0].id, { ...testInput, lender_id: lenders[1].id } as CreateLenderRateInput);
+
+    expect(result.lender_id).toEqual(lenders[0].id);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { llpaAdjustmentsTable, lendersTable } from '../db/schema';
+import { type CreateLlpaAdjustmentInput } from '../schema';
+import { createLlpaAdjustment } from '../handlers/create_llpa_adjustment';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateLlpaAdjustmentInput = {
+  lender_id: 1, // Will be updated after creating lender
+  description: '680-699 credit, 75-80% LTV',
+  loan_type: 'conventional',
+  min_credit_score: 680,
+  max_credit_score: 699,
+  min_ltv: 75,
+  max_ltv: 80,
+  occupancy_type: null,
+  property_type: null,
+  rate_adjustment: 0.25,
+  points_adjustment: 1.375,
+  is_active: true
+};
+
+describe('createLlpaAdjustment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create an LLPA adjustment', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const result = await createLlpaAdjustment({ ...testInput, lender_id: lenderResult[0].id });
+
+    expect(result.id).toBeDefined();
+    expect(result.lender_id).toEqual(lenderResult[0].id);
+    expect(result.description).toEqual('680-699 credit, 75-80% LTV');
+    expect(result.loan_type).toEqual('conventional');
+    expect(result.min_credit_score).toEqual(680);
+    expect(result.max_credit_score).toEqual(699);
+    expect(result.min_ltv).toEqual(75);
+    expect(typeof result.min_ltv).toBe('number');
+    expect(result.max_ltv).toEqual(80);
+    expect(result.occupancy_type).toBeNull();
+    expect(result.property_type).toBeNull();
+    expect(result.loan_purpose).toBeNull(); // Applies to every loan purpose
+    expect(result.rate_adjustment).toEqual(0.25);
+    expect(typeof result.rate_adjustment).toBe('number');
+    expect(result.points_adjustment).toEqual(1.375);
+    expect(result.is_active).toBe(true);
+    expect(result.created_at).toBeInstanceOf(Date);
+  });
+
+  it('should save an occupancy adder with negative adjustments', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const result = await createLlpaAdjustment({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      description: 'Primary residence credit',
+      loan_type: null,
+      min_credit_score: null,
+      max_credit_score: null,
+      min_ltv: null,
+      max_ltv: null,
+      occupancy_type: 'primary',
+      rate_adjustment: -0.125,
+      points_adjustment: -0.25
+    });
+
+    const saved = await db.select()
+      .from(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.id, result.id))
+      .execute();
+
+    expect(saved).toHaveLength(1);
+    expect(saved[0].occupancy_type).toEqual('primary');
+    expect(saved[0].min_ltv).toBeNull();
+    expect(parseFloat(saved[0].rate_adjustment)).toEqual(-0.125);
+    expect(parseFloat(saved[0].points_adjustment)).toEqual(-0.25);
+  });
+
+  it('should throw error for non-existent lender', async () => {
+    await expect(createLlpaAdjustment({ ...testInput, lender_id: 99999 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -205,4 +205,79 @@ describe('createMortgageQuoteRequest', () => {
       expect(result.credit_score).toEqual(creditScore);
     }
   });
-});
\ No newline at end of file
+
+  it('should default to a single unit property', async () => {
+    const result = await createMortgageQuoteRequest(testInput);
+    expect(result.number_of_units).toEqual(1);
+
+    const multiUnit = await createMortgageQuoteRequest({
+      ...testInput,
+      property_type: 'multi_family',
+      number_of_units: 3
+    });
+    expect(multiUnit.number_of_units).toEqual(3);
+  });
+
+  it('should save income and monthly debts', async () => {
+    const result = await createMortgageQuoteRequest({
+      ...testInput,
+      gross_monthly_income: 12500.5,
+      monthly_debts: 850
+    });
+
+    expect(result.gross_monthly_income).toEqual(12500.5);
+    expect(typeof result.gross_monthly_income).toBe('number');
+    expect(result.monthly_debts).toEqual(850);
+
+    const withoutIncome = await createMortgageQuoteRequest(testInput);
+    expect(withoutIncome.gross_monthly_income).toBeNull();
+    expect(withoutIncome.monthly_debts).toBeNull();
+  });
+
+  it('should derive the loan amount and equity of a refinance', async () => {
+    const result = await createMortgageQuoteRequest({
+      ...testInput,
+      loan_purpose: 'refinance',
+      current_loan_balance: 320000.5,
+      current_interest_rate: 7.125,
+      current_remaining_term_months: 312
+    });
+
+    expect(result.loan_purpose).toEqual('refinance');
+    expect(result.loan_amount).toEqual(320000.5);
+    expect(result.down_payment).toEqual(result.property_value - 320000.5);
+    expect(result.current_loan_balance).toEqual(320000.5);
+    expect(result.current_interest_rate).toEqual(7.125);
+    expect(result.current_remaining_term_months).toEqual(312);
+  });
+
+  it('should default to a purchase without existing loan details', async () => {
+    const result = await createMortgageQuoteRequest({
+      ...testInput,
+      current_loan_balance: 320000,
+      current_interest_rate: 7.125
+    });
+
+    expect(result.loan_purpose).toEqual('purchase');
+    expect(result.loan_amount).toEqual(testInput.loan_amount);
+    expect(result.current_loan_balance).toBeNull();
+    expect(result.current_interest_rate).toBeNull();
+    expect(result.current_remaining_term_months).toBeNull();
+  });
+
+  it('should save a temporary buydown', async () => {
+    const result = await createMortgageQuoteRequest({ ...testInput, temporary_buydown: '2_1' });
+    expect(result.temporary_buydown).toEqual('2_1');
+
+    const withoutBuydown = await createMortgageQuoteRequest(testInput);
+    expect(withoutBuydown.temporary_buydown).toBeNull();
+  });
+
+  it('should save the borrower\'s horizon', async () => {
+    const result = await createMortgageQuoteRequest({ ...testInput, horizon_years: 7 });
+    expect(result.horizon_years).toEqual(7);
+
+    const withoutHorizon = await createMortgageQuoteRequest(testInput);
+    expect(withoutHorizon.horizon_years).toBeNull();
+  });
+});
@@ -180,4 +180,162 @@ describe('createMortgageRate', () => {
     expect(result.min_down_payment_percent).toEqual(5.25);
     expect(result.closing_costs).toEqual(2750.50);
   });
-});
\ No newline at end of file
+
+  it('should default eligibility to all property and occupancy types', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const result = await createMortgageRate({ ...testInput, lender_id: lenderResult[0].id });
+
+    expect(result.allowed_property_types).toEqual(['single_family', 'condo', 'townhouse', 'multi_family']);
+    expect(result.allowed_occupancy_types).toEqual(['primary', 'secondary', 'investment']);
+    expect(result.allowed_loan_purposes).toEqual(['purchase', 'refinance', 'cash_out_refinance']);
+    expect(result.price_options).toEqual([]);
+    expect(result.max_units).toEqual(4);
+  });
+
+  it('should save eligibility restrictions', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const result = await createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      allowed_property_types: ['single_family', 'townhouse'],
+      allowed_occupancy_types: ['primary'],
+      allowed_loan_purposes: ['purchase', 'refinance'],
+      max_units: 1
+    });
+
+    const rates = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.id, result.id))
+      .execute();
+
+    expect(rates[0].allowed_property_types).toEqual(['single_family', 'townhouse']);
+    expect(rates[0].allowed_occupancy_types).toEqual(['primary']);
+    expect(rates[0].allowed_loan_purposes).toEqual(['purchase', 'refinance']);
+    expect(rates[0].max_units).toEqual(1);
+  });
+
+  it('should save DTI limits', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const defaults = await createMortgageRate({ ...testInput, lender_id: lenderResult[0].id });
+    expect(defaults.max_front_end_dti).toBeNull();
+    expect(defaults.max_back_end_dti).toBeNull();
+
+    const result = await createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      max_front_end_dti: 31,
+      max_back_end_dti: 43.5
+    });
+    expect(result.max_front_end_dti).toEqual(31);
+    expect(result.max_back_end_dti).toEqual(43.5);
+    expect(typeof result.max_back_end_dti).toBe('number');
+  });
+
+  it('should save price options including lender credits', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const priceOptions = [
+      { interest_rate: 6.25, points: 1 },
+      { interest_rate: 6.875, points: -0.75 }
+    ];
+    const result = await createMortgageRate({ ...testInput, lender_id: lenderResult[0].id, price_options: priceOptions });
+
+    expect(result.price_options).toEqual(priceOptions);
+  });
+
+  it('should save ARM terms', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const fixed = await createMortgageRate({ ...testInput, lender_id: lenderResult[0].id });
+    expect(fixed.rate_type).toEqual('fixed');
+    expect(fixed.arm_margin).toBeNull();
+
+    const result = await createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      rate_type: 'arm_7_1',
+      arm_index: 'treasury_1y',
+      arm_index_value: 4.125,
+      arm_margin: 2.75,
+      arm_initial_cap: 5,
+      arm_periodic_cap: 2,
+      arm_lifetime_cap: 5
+    });
+    expect(result.rate_type).toEqual('arm_7_1');
+    expect(result.arm_index).toEqual('treasury_1y');
+    expect(result.arm_index_value).toEqual(4.125);
+    expect(result.arm_margin).toEqual(2.75);
+    expect(result.arm_lifetime_cap).toEqual(5);
+  });
+
+  it('should reject ARM rates without full ARM terms', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    await expect(createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      rate_type: 'arm_5_1',
+      arm_index: 'sofr',
+      arm_margin: 2.75
+    })).rejects.toThrow(/requires arm_index_value/i);
+  });
+
+  it('should save a scheduled effective window', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    const effectiveAt = new Date('2030-01-02T13:00:00Z');
+    const expiresAt = new Date('2030-01-03T13:00:00Z');
+    const result = await createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      effective_at: effectiveAt,
+      expires_at: expiresAt
+    });
+
+    expect(result.effective_at).toEqual(effectiveAt);
+    expect(result.expires_at).toEqual(expiresAt);
+
+    // Effective immediately and open-ended by default
+    const immediate = await createMortgageRate({ ...testInput, lender_id: lenderResult[0].id });
+    expect(immediate.effective_at.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(immediate.expires_at).toBeNull();
+  });
+
+  it('should reject rates that expire before they take effect', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values(testLender)
+      .returning()
+      .execute();
+
+    await expect(createMortgageRate({
+      ...testInput,
+      lender_id: lenderResult[0].id,
+      effective_at: new Date('2030-01-02T13:00:00Z'),
+      expires_at: new Date('2030-01-01T13:00:00Z')
+    })).rejects.toThrow(/expires_at must be after effective_at/i);
+  });
+});
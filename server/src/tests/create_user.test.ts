@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, usersTable } from '../db/schema';
+import { type CreateUserInput } from '../schema';
+import { createUser } from '../handlers/create_user';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateUserInput = {
+  email: 'Rep@Example.com',
+  password: 'correct horse battery',
+  name: 'Rate Desk',
+  role: 'platform_admin'
+};
+
+describe('createUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user with a hashed password', async () => {
+    const result = await createUser(testInput);
+
+    expect(result.id).toBeDefined();
+    expect(result.email).toEqual('rep@example.com');
+    expect(result.role).toEqual('platform_admin');
+    expect(result.lender_id).toBeNull();
+    expect(result.is_active).toBe(true);
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const rows = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.id))
+      .execute();
+    expect(rows[0].password_hash).toStartWith('scrypt:');
+    expect(rows[0].password_hash).not.toContain(testInput.password);
+  });
+
+  it('should link lender reps to their lender', async () => {
+    const lender = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    const result = await createUser({ ...testInput, role: 'lender_rep', lender_id: lender[0].id });
+
+    expect(result.role).toEqual('lender_rep');
+    expect(result.lender_id).toEqual(lender[0].id);
+  });
+
+  it('should require an existing lender for lender reps', async () => {
+    await expect(createUser({ ...testInput, role: 'lender_rep' }))
+      .rejects.toThrow(/require a lender_id/i);
+    await expect(createUser({ ...testInput, role: 'lender_rep', lender_id: 99999 }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should reject duplicate emails regardless of case', async () => {
+    await createUser(testInput);
+
+    await expect(createUser({ ...testInput, email: 'rep@example.com' }))
+      .rejects.toThrow(/already exists/i);
+  });
+});
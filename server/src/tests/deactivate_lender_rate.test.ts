@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { deactivateLenderRate } from '../handlers/deactivate_lender_rate';
+import { eq } from 'drizzle-orm';
+
+describe('deactivateLenderRate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createRates = async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Own Bank' }, { name: 'Other Bank' }])
+      .returning()
+      .execute();
+
+    const rates = await db.insert(mortgageRatesTable)
+      .values(lenders.map(lender => ({
+        lender_id: lender.id,
+        loan_type: 'conventional' as const,
+        loan_term: '30' as const,
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '1.00',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })))
+      .returning()
+      .execute();
+
+    return { lenders, rates };
+  };
+
+  it('should deactivate the lender\'s own rate without deleting it', async () => {
+    const { lenders, rates } = await createRates();
+
+    const result = await deactivateLenderRate(lenders[0].id, { id: rates[0].id });
+
+    expect(result.is_active).toBe(false);
+    const stored = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.id, rates[0].id))
+      .execute();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].is_active).toBe(false);
+  });
+
+  it('should not deactivate another lender\'s rate', async () => {
+    const { lenders, rates } = await createRates();
+
+    await expect(deactivateLenderRate(lenders[0].id, { id: rates[1].id }))
+      .rejects.toThrow(/not found/i);
+
+    const stored = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.id, rates[1].id))
+      .execute();
+    expect(stored[0].is_active).toBe(true);
+  });
+});
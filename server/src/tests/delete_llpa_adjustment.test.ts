@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { llpaAdjustmentsTable, lendersTable } from '../db/schema';
+import { deleteLlpaAdjustment } from '../handlers/delete_llpa_adjustment';
+import { eq } from 'drizzle-orm';
+
+describe('deleteLlpaAdjustment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the adjustment and return it', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const adjustmentResult = await db.insert(llpaAdjustmentsTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        description: 'Condo adder',
+        property_type: 'condo',
+        rate_adjustment: '0.125',
+        points_adjustment: '0.750'
+      })
+      .returning()
+      .execute();
+
+    const result = await deleteLlpaAdjustment({ id: adjustmentResult[0].id });
+
+    expect(result.id).toEqual(adjustmentResult[0].id);
+    expect(result.points_adjustment).toEqual(0.75);
+
+    const remaining = await db.select()
+      .from(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.id, adjustmentResult[0].id))
+      .execute();
+
+    expect(remaining).toHaveLength(0);
+  });
+
+  it('should throw error when adjustment does not exist', async () => {
+    await expect(deleteLlpaAdjustment({ id: 99999 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
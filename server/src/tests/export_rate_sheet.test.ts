@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { exportRateSheet } from '../handlers/export_rate_sheet';
+import { importRateSheet } from '../handlers/import_rate_sheet';
+import { liveRateCondition } from '../lib/rate_window';
+
+describe('exportRateSheet', () => {
+  let lenderId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank, N.A.' })
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+
+    const baseRate = {
+      lender_id: lenderId,
+      interest_rate: '6.500',
+      apr: '6.750',
+      points: '0.50',
+      min_credit_score: 620,
+      max_loan_amount: '766550.00',
+      min_down_payment_percent: '5.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        {
+          ...baseRate,
+          loan_type: 'conventional',
+          loan_term: '30',
+          closing_costs: '4500.00',
+          allowed_property_types: ['single_family', 'condo'],
+          price_options: [{ interest_rate: 6.25, points: 1 }, { interest_rate: 6.75, points: -1 }]
+        },
+        {
+          ...baseRate,
+          loan_type: 'conventional',
+          loan_term: '30',
+          rate_type: 'arm_5_1',
+          arm_index: 'sofr',
+          arm_index_value: '4.300',
+          arm_margin: '2.750',
+          arm_initial_cap: '2.000',
+          arm_periodic_cap: '1.000',
+          arm_lifetime_cap: '5.000'
+        },
+        { ...baseRate, loan_type: 'fha', loan_term: '15', is_active: false }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should export rates as CSV with lender names', async () => {
+    const result = await exportRateSheet({ format: 'csv' });
+    const lines = result.content.trim().split('\n');
+
+    expect(result.format).toEqual('csv');
+    expect(result.filename).toMatch(/^rate-sheet-\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(result.rate_count).toEqual(3);
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toStartWith('lender_id,lender_name,loan_type,loan_term,rate_type');
+    expect(lines[1]).toContain('"Summit Bank, N.A."');
+    expect(lines[1]).toContain('single_family|condo');
+    expect(lines[1]).toContain(',6.25:1|6.75:-1,');
+  });
+
+  it('should export rates as JSON', async () => {
+    const result = await exportRateSheet({ format: 'json', is_active: true });
+    const rows = JSON.parse(result.content);
+
+    expect(result.rate_count).toEqual(2);
+    expect(rows).toHaveLength(2);
+    expect(rows[0].lender_name).toEqual('Summit Bank, N.A.');
+    expect(rows[0].interest_rate).toEqual(6.5);
+    expect(rows[1].arm_margin).toEqual(2.75);
+  });
+
+  it('should apply filters', async () => {
+    expect((await exportRateSheet({ format: 'csv', loan_type: 'fha' })).rate_count).toEqual(1);
+    expect((await exportRateSheet({ format: 'csv', loan_term: '30' })).rate_count).toEqual(2);
+    expect((await exportRateSheet({ format: 'csv', lender_id: lenderId + 1 })).rate_count).toEqual(0);
+  });
+
+  it('should round-trip through a rate sheet import', async () => {
+    const exported = await exportRateSheet({ format: 'csv' });
+    const original = JSON.parse((await exportRateSheet({ format: 'json' })).content);
+
+    const result = await importRateSheet({ csv: exported.content, dry_run: true, replace_existing: false });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.valid_rows).toHaveLength(3);
+    result.valid_rows.forEach(({ rate }, index) => {
+      const { lender_name, ...fields }: Record<string, unknown> = original[index];
+      // Compare as JSON so imported dates match their exported ISO strings
+      const imported: Record<string, unknown> = JSON.parse(JSON.stringify(rate));
+      expect(lender_name).toEqual('Summit Bank, N.A.');
+      for (const [column, value] of Object.entries(fields)) {
+        expect<unknown>(imported[column] ?? null).toEqual(value);
+      }
+    });
+  });
+
+  it('should keep price options when an export replaces the lender\'s rates', async () => {
+    const exported = await exportRateSheet({ format: 'csv', is_active: true });
+
+    const result = await importRateSheet({ csv: exported.content, dry_run: false, replace_existing: true });
+    expect(result.errors).toHaveLength(0);
+    expect(result.deactivated_count).toEqual(2);
+
+    const rates = await db.select().from(mortgageRatesTable).where(liveRateCondition()).execute();
+    expect(rates).toHaveLength(2);
+    expect(rates.map(rate => rate.price_options)).toContainEqual([
+      { interest_rate: 6.25, points: 1 },
+      { interest_rate: 6.75, points: -1 }
+    ]);
+  });
+});
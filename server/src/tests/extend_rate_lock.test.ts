@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, usersTable } from '../db/schema';
+import { confirmRateLock } from '../handlers/confirm_rate_lock';
+import { extendRateLock } from '../handlers/extend_rate_lock';
+import { requestRateLock } from '../handlers/request_rate_lock';
+import { requestQuotes } from '../handlers/request_quotes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('extendRateLock', () => {
+  let lenderId: number;
+  let otherLenderId: number;
+  let lockId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Summit Bank' }, { name: 'Harbor Credit Union' }])
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+    otherLenderId = lenders[1].id;
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    const lock = await requestRateLock(users[0].id, { share_token: saved.quote_request.share_token, quote_result_id: saved.quotes[0].quote_result_id, lock_period: '45' });
+    lockId = lock.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should push back the expiry of a locked rate', async () => {
+    const locked = await confirmRateLock(lenderId, { id: lockId });
+    const extended = await extendRateLock(lenderId, { id: lockId, extension_days: 15 });
+
+    expect(extended.status).toEqual('extended');
+    expect(extended.expires_at!.getTime() - locked.expires_at!.getTime()).toEqual(15 * DAY_MS);
+
+    // Extensions stack
+    const again = await extendRateLock(lenderId, { id: lockId, extension_days: 7 });
+    expect(again.expires_at!.getTime() - locked.expires_at!.getTime()).toEqual(22 * DAY_MS);
+  });
+
+  it('should not extend a lock that was never confirmed', async () => {
+    await expect(extendRateLock(lenderId, { id: lockId, extension_days: 15 }))
+      .rejects.toThrow(/cannot be extended from status requested/i);
+  });
+
+  it('should not extend another lender\'s lock', async () => {
+    await confirmRateLock(lenderId, { id: lockId });
+
+    await expect(extendRateLock(otherLenderId, { id: lockId, extension_days: 15 }))
+      .rejects.toThrow(/Rate lock with ID \d+ not found/);
+  });
+
+  it('should not lose an extension under concurrent requests', async () => {
+    const locked = await confirmRateLock(lenderId, { id: lockId });
+
+    const results = await Promise.allSettled([
+      extendRateLock(lenderId, { id: lockId, extension_days: 15 }),
+      extendRateLock(lenderId, { id: lockId, extension_days: 15 })
+    ]);
+
+    // Each successful extension adds its days once; one that raced another is refused, not applied twice
+    const extended = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const latest = Math.max(...extended.map(lock => lock.expires_at!.getTime()));
+    expect(extended.length).toBeGreaterThan(0);
+    expect(latest - locked.expires_at!.getTime()).toEqual(extended.length * 15 * DAY_MS);
+    results.forEach(result => {
+      if (result.status === 'rejected') expect(String(result.reason)).toMatch(/changed by another request/);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, llpaAdjustmentsTable, mortgageRatesTable } from '../db/schema';
+import { type GetAffordabilityInput } from '../schema';
+import { getAffordability } from '../handlers/get_affordability';
+import { getMortgageQuotes } from '../handlers/get_mortgage_quotes';
+import { PRICE_STEP } from '../lib/affordability';
+
+const testInput: GetAffordabilityInput = {
+  gross_monthly_income: 10000,
+  monthly_debts: 500,
+  available_cash: 200000,
+  credit_score: 760,
+  zip_code: '90210',
+  loan_type: 'conventional'
+};
+
+describe('getAffordability', () => {
+  let lenderId: number;
+
+  const insertRate = async (values: Partial<typeof mortgageRatesTable.$inferInsert> = {}) => {
+    const rates = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.00',
+        min_credit_score: 620,
+        max_loan_amount: '2000000.00',
+        min_down_payment_percent: '5.00',
+        closing_costs: '5000.00',
+        ...values
+      })
+      .returning()
+      .execute();
+    return rates[0];
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should stop at the front-end DTI guideline for an income-limited borrower', async () => {
+    const rate = await insertRate();
+
+    const options = await getAffordability(testInput);
+
+    expect(options).toHaveLength(1);
+    const option = options[0];
+    expect(option.rate_id).toEqual(rate.id);
+    expect(option.lender_name).toEqual('Summit Bank');
+    expect(option.limited_by).toEqual('dti');
+    expect(option.front_end_dti).toBeLessThanOrEqual(28);
+    expect(option.front_end_dti).toBeGreaterThan(27);
+    expect(option.max_purchase_price % PRICE_STEP).toEqual(0);
+    expect(option.loan_amount).toEqual(option.max_purchase_price - 195000); // All cash after closing costs goes down
+    expect(option.down_payment).toEqual(195000);
+    expect(option.cash_to_close).toEqual(200000);
+    expect(option.piti_monthly.total).toBeCloseTo(2800, -2);
+  });
+
+  it('should price the housing payment the same way quotes do', async () => {
+    await insertRate();
+
+    const [option] = await getAffordability(testInput);
+    const quotes = await getMortgageQuotes({
+      loan_amount: option.loan_amount,
+      property_value: option.max_purchase_price,
+      down_payment: option.down_payment,
+      credit_score: testInput.credit_score,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: testInput.zip_code,
+      debt_to_income_ratio: null,
+      gross_monthly_income: testInput.gross_monthly_income,
+      monthly_debts: testInput.monthly_debts
+    });
+
+    expect(quotes[0].piti_monthly).toEqual(option.piti_monthly);
+    expect(quotes[0].monthly_payment).toEqual(option.monthly_payment);
+    expect(quotes[0].qualification.front_end_dti).toEqual(option.front_end_dti);
+    expect(quotes[0].qualification.status).toEqual('eligible');
+  });
+
+  it('should stop at the minimum down payment for a cash-limited borrower', async () => {
+    await insertRate({ closing_costs: null });
+
+    const [option] = await getAffordability({ ...testInput, gross_monthly_income: 60000, available_cash: 20000 });
+
+    expect(option.limited_by).toEqual('down_payment');
+    expect(option.max_purchase_price).toEqual(400000);
+    expect(option.loan_to_value_ratio).toEqual(95);
+    expect(option.down_payment).toEqual(20000);
+  });
+
+  it("should cap the loan at the rate's maximum loan amount", async () => {
+    await insertRate({ max_loan_amount: '300000.00' });
+
+    const [option] = await getAffordability({ ...testInput, gross_monthly_income: 60000 });
+
+    expect(option.limited_by).toEqual('max_loan_amount');
+    expect(option.loan_amount).toBeLessThanOrEqual(300000);
+    expect(option.max_purchase_price).toEqual(495000);
+  });
+
+  it('should apply LTV-based price adjustments to the solved loan', async () => {
+    await insertRate();
+    await db.insert(llpaAdjustmentsTable)
+      .values({ lender_id: lenderId, description: 'LTV over 60%', min_ltv: '60.00', rate_adjustment: '0.250', points_adjustment: '0.000' })
+      .execute();
+
+    const [adjusted] = await getAffordability({ ...testInput, available_cash: 50000 });
+
+    expect(adjusted.loan_to_value_ratio).toBeGreaterThan(60);
+    expect(adjusted.interest_rate).toEqual(6.75);
+    expect(adjusted.price_adjustments.map(adjustment => adjustment.description)).toEqual(['LTV over 60%']);
+  });
+
+  it('should rank rates by maximum purchase price and skip ineligible ones', async () => {
+    const cheaper = await insertRate({ interest_rate: '5.500', apr: '5.700' });
+    const pricier = await insertRate();
+    await insertRate({ min_credit_score: 780 });
+    await insertRate({ loan_type: 'fha' });
+
+    const options = await getAffordability(testInput);
+
+    expect(options.map(option => option.rate_id)).toEqual([cheaper.id, pricier.id]);
+    expect(options[0].max_purchase_price).toBeGreaterThan(options[1].max_purchase_price);
+  });
+
+  it('should skip rates that are not offered on purchases', async () => {
+    const purchase = await insertRate();
+    await insertRate({ allowed_loan_purposes: ['refinance'] });
+    await insertRate({ allowed_loan_purposes: ['cash_out_refinance'] });
+
+    const options = await getAffordability(testInput);
+
+    expect(options.map(option => option.rate_id)).toEqual([purchase.id]);
+  });
+
+  it('should return no options when debts alone exceed the DTI limit', async () => {
+    await insertRate();
+
+    const options = await getAffordability({ ...testInput, monthly_debts: 5000 });
+
+    expect(options).toEqual([]);
+  });
+});
@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { type AmortizationScheduleInput } from '../schema';
+import { getAmortizationSchedule } from '../handlers/get_amortization_schedule';
+
+const baseInput: Omit<AmortizationScheduleInput, 'rate_id'> = {
+  loan_amount: 400000,
+  property_value: 500000,
+  down_payment: 100000,
+  credit_score: 750,
+  loan_type: 'conventional',
+  loan_term: '30',
+  property_type: 'single_family',
+  occupancy_type: 'primary',
+  zip_code: '90210',
+  debt_to_income_ratio: null,
+  first_payment_date: new Date('2025-01-01T00:00:00Z')
+};
+
+const createRate = async (interestRate: string) => {
+  const lenderResult = await db.insert(lendersTable)
+    .values({ name: 'Test Bank', is_active: true })
+    .returning()
+    .execute();
+
+  const rateResult = await db.insert(mortgageRatesTable)
+    .values({
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional',
+      loan_term: '30',
+      interest_rate: interestRate,
+      apr: '6.200',
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      is_active: true
+    })
+    .returning()
+    .execute();
+
+  return rateResult[0];
+};
+
+describe('getAmortizationSchedule', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return a full schedule that pays off the loan', async () => {
+    const rate = await createRate('6.000');
+
+    const result = await getAmortizationSchedule({ ...baseInput, rate_id: rate.id });
+
+    expect(result.rate_id).toEqual(rate.id);
+    expect(result.lender_id).toEqual(rate.lender_id);
+    expect(result.interest_rate).toEqual(6);
+    expect(result.payments).toHaveLength(360);
+    expect(result.number_of_payments).toEqual(360);
+    expect(Math.abs(result.monthly_payment - 2398.20)).toBeLessThan(1);
+
+    // First month: 400k * 0.5% = $2,000 interest
+    const first = result.payments[0];
+    expect(first.payment_number).toEqual(1);
+    expect(first.interest).toEqual(2000);
+    expect(first.principal).toBeCloseTo(398.2, 1);
+    expect(first.payment_date).toEqual(new Date('2025-01-01T00:00:00Z'));
+
+    const last = result.payments[359];
+    expect(last.remaining_balance).toEqual(0);
+    expect(last.payment_date).toEqual(new Date('2054-12-01T00:00:00Z'));
+
+    // Principal portions always add up to the loan amount
+    const principalPaid = result.payments.reduce((sum, p) => sum + p.principal + p.extra_principal, 0);
+    expect(principalPaid).toBeCloseTo(400000, 2);
+
+    expect(result.payoff_date).toEqual(result.scheduled_payoff_date);
+    expect(result.months_saved).toEqual(0);
+    expect(result.interest_saved).toEqual(0);
+  });
+
+  it('should shorten the loan with extra monthly payments', async () => {
+    const rate = await createRate('6.000');
+
+    const result = await getAmortizationSchedule({
+      ...baseInput,
+      rate_id: rate.id,
+      extra_monthly_payment: 500
+    });
+
+    expect(result.payments.length).toBeLessThan(360);
+    expect(result.months_saved).toEqual(360 - result.payments.length);
+    expect(result.interest_saved).toBeGreaterThan(0);
+    expect(result.payoff_date < result.scheduled_payoff_date).toBe(true);
+    expect(result.payments[0].extra_principal).toEqual(500);
+    expect(result.payments[result.payments.length - 1].remaining_balance).toEqual(0);
+  });
+
+  it('should apply annual and one-time payments in the right months', async () => {
+    const rate = await createRate('6.000');
+
+    const result = await getAmortizationSchedule({
+      ...baseInput,
+      rate_id: rate.id,
+      extra_annual_payment: 2000,
+      extra_annual_payment_month: 6,
+      one_time_payment: 10000,
+      one_time_payment_number: 3
+    });
+
+    expect(result.payments[2].extra_principal).toEqual(10000);
+    expect(result.payments[5].extra_principal).toEqual(2000);
+    expect(result.payments[17].extra_principal).toEqual(2000);
+    expect(result.payments[6].extra_principal).toEqual(0);
+    expect(result.interest_saved).toBeGreaterThan(0);
+  });
+
+  it('should keep month-end payment dates at the end of shorter months', async () => {
+    const rate = await createRate('6.000');
+
+    const result = await getAmortizationSchedule({
+      ...baseInput,
+      rate_id: rate.id,
+      first_payment_date: new Date(Date.UTC(2024, 0, 31))
+    });
+
+    const dates = result.payments.slice(0, 5).map(payment => payment.payment_date.toISOString().slice(0, 10));
+    expect(dates).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+    expect(result.payments[13].payment_date.toISOString().slice(0, 10)).toEqual('2025-02-28');
+  });
+
+  it('should handle zero interest rates', async () => {
+    const rate = await createRate('0.000');
+
+    const result = await getAmortizationSchedule({ ...baseInput, rate_id: rate.id });
+
+    expect(result.total_interest).toEqual(0);
+    expect(result.payments).toHaveLength(360);
+    expect(result.payments[359].remaining_balance).toEqual(0);
+  });
+
+  it('should throw error for non-existent rate', async () => {
+    await expect(getAmortizationSchedule({ ...baseInput, rate_id: 99999 }))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should stop PMI earlier when extra payments are made', async () => {
+    const rate = await createRate('6.000');
+    const input = { ...baseInput, rate_id: rate.id, loan_amount: 450000, down_payment: 50000 };
+
+    const scheduled = await getAmortizationSchedule(input);
+    const accelerated = await getAmortizationSchedule({ ...input, extra_monthly_payment: 1000 });
+
+    expect(scheduled.payments[0].mortgage_insurance).toBeGreaterThan(0);
+    expect(scheduled.mortgage_insurance_drop_off_month).not.toBeNull();
+    expect(scheduled.payments[scheduled.mortgage_insurance_drop_off_month! - 1].mortgage_insurance).toEqual(0);
+    expect(accelerated.mortgage_insurance_drop_off_month!).toBeLessThan(scheduled.mortgage_insurance_drop_off_month!);
+    expect(accelerated.total_mortgage_insurance).toBeLessThan(scheduled.total_mortgage_insurance);
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { getAprDiscrepancies } from '../handlers/get_apr_discrepancies';
+
+const baseRate = {
+  loan_type: 'conventional' as const,
+  loan_term: '30' as const,
+  interest_rate: '6.500',
+  points: '1.00',
+  min_credit_score: 700,
+  max_loan_amount: '500000.00',
+  min_down_payment_percent: '10.00',
+  closing_costs: '5000.00',
+  is_active: true
+};
+
+describe('getAprDiscrepancies', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should flag stored APRs outside the Reg Z tolerance', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    // 6.5% with 1 point and $5,000 fees on $300,000 is an APR of about 6.762%
+    const rates = await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, lender_id: lenderResult[0].id, apr: '6.750' }, // Within tolerance
+        { ...baseRate, lender_id: lenderResult[0].id, apr: '6.500' }, // Understated
+        { ...baseRate, lender_id: lenderResult[0].id, apr: '7.100' } // Overstated
+      ])
+      .returning()
+      .execute();
+
+    const result = await getAprDiscrepancies({});
+
+    expect(result).toHaveLength(2);
+    expect(result[0].rate_id).toEqual(rates[1].id);
+    expect(result[0].lender_name).toEqual('Test Bank');
+    expect(result[0].reference_loan_amount).toEqual(300000);
+    expect(result[0].stored_apr).toEqual(6.5);
+    expect(result[0].calculated_apr).toBeCloseTo(6.762, 2);
+    expect(result[0].difference).toBeLessThan(-0.125);
+    expect(result[1].rate_id).toEqual(rates[2].id);
+    expect(result[1].difference).toBeGreaterThan(0.125);
+  });
+
+  it('should honor a custom tolerance and reference loan amount', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({ ...baseRate, lender_id: lenderResult[0].id, apr: '6.750' })
+      .execute();
+
+    const strict = await getAprDiscrepancies({ tolerance: 0.001, reference_loan_amount: 400000 });
+
+    expect(strict).toHaveLength(1);
+    expect(strict[0].reference_loan_amount).toEqual(400000);
+    expect(strict[0].calculated_apr).toBeCloseTo(6.72, 2);
+  });
+
+  it('should skip inactive rates', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({ ...baseRate, lender_id: lenderResult[0].id, apr: '9.000', is_active: false })
+      .execute();
+
+    const result = await getAprDiscrepancies({});
+    expect(result).toEqual([]);
+  });
+});
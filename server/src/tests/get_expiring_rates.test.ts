@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { getExpiringRates } from '../handlers/get_expiring_rates';
+
+const hour = 60 * 60 * 1000;
+
+describe('getExpiringRates', () => {
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+
+    const baseRate = {
+      lender_id: lenders[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      interest_rate: '6.500',
+      apr: '6.750',
+      points: '0.00',
+      min_credit_score: 620,
+      max_loan_amount: '750000.00',
+      min_down_payment_percent: '5.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, interest_rate: '6.125', expires_at: new Date(Date.now() + 6 * hour) },
+        { ...baseRate, interest_rate: '6.250', expires_at: new Date(Date.now() + 2 * hour) },
+        { ...baseRate, interest_rate: '6.375', expires_at: new Date(Date.now() + 48 * hour) },
+        { ...baseRate, interest_rate: '6.625', expires_at: new Date(Date.now() - hour) }, // Already expired
+        { ...baseRate, interest_rate: '6.750', expires_at: new Date(Date.now() + hour), is_active: false },
+        { ...baseRate, interest_rate: '6.875' } // Never expires
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should return active rates expiring within the window, soonest first', async () => {
+    const rates = await getExpiringRates({ within_hours: 24 });
+
+    expect(rates).toHaveLength(2);
+    expect(rates[0].interest_rate).toEqual(6.25);
+    expect(rates[1].interest_rate).toEqual(6.125);
+    expect(rates[0].lender_name).toEqual('Summit Bank');
+  });
+
+  it('should widen with the window', async () => {
+    expect(await getExpiringRates({ within_hours: 1 })).toHaveLength(0);
+    expect(await getExpiringRates({ within_hours: 72 })).toHaveLength(3);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { getLenderRates } from '../handlers/get_lender_rates';
+
+const rateFor = (lenderId: number, isActive: boolean) => ({
+  lender_id: lenderId,
+  loan_type: 'conventional' as const,
+  loan_term: '30' as const,
+  interest_rate: '6.500',
+  apr: '6.750',
+  points: '1.00',
+  min_credit_score: 620,
+  max_loan_amount: '750000.00',
+  min_down_payment_percent: '5.00',
+  is_active: isActive
+});
+
+describe('getLenderRates', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the lender\'s own rates, including inactive ones', async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Own Bank' }, { name: 'Other Bank' }])
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values([rateFor(lenders[0].id, true), rateFor(lenders[0].id, false), rateFor(lenders[1].id, true)])
+      .execute();
+
+    const rates = await getLenderRates(lenders[0].id);
+
+    expect(rates).toHaveLength(2);
+    rates.forEach(rate => expect(rate.lender_id).toEqual(lenders[0].id));
+    expect(rates.map(rate => rate.is_active)).toEqual([true, false]);
+    expect(rates[0].interest_rate).toEqual(6.5);
+    expect(typeof rates[0].max_loan_amount).toBe('number');
+  });
+
+  it('should return an empty list for a lender without rates', async () => {
+    expect(await getLenderRates(99999)).toEqual([]);
+  });
+});
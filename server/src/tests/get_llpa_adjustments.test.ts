@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { llpaAdjustmentsTable, lendersTable } from '../db/schema';
+import { getLlpaAdjustments } from '../handlers/get_llpa_adjustments';
+
+describe('getLlpaAdjustments', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should return only the given lender\'s adjustments', async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Bank A', is_active: true }, { name: 'Bank B', is_active: true }])
+      .returning()
+      .execute();
+
+    await db.insert(llpaAdjustmentsTable)
+      .values([
+        { lender_id: lenders[0].id, description: 'Condo adder', property_type: 'condo', rate_adjustment: '0.125', points_adjustment: '0.750' },
+        { lender_id: lenders[0].id, description: 'Investment adder', occupancy_type: 'investment', rate_adjustment: '0.500', points_adjustment: '2.125', is_active: false },
+        { lender_id: lenders[1].id, description: 'Other lender', rate_adjustment: '0.250', points_adjustment: '0.000' }
+      ])
+      .execute();
+
+    const result = await getLlpaAdjustments({ lender_id: lenders[0].id });
+
+    expect(result).toHaveLength(2);
+    expect(result[0].description).toEqual('Condo adder');
+    expect(result[0].property_type).toEqual('condo');
+    expect(result[0].rate_adjustment).toEqual(0.125);
+    expect(typeof result[0].points_adjustment).toBe('number');
+    expect(result[0].min_ltv).toBeNull();
+    // Inactive adjustments are still listed for management
+    expect(result[1].is_active).toBe(false);
+  });
+
+  it('should return empty array when lender has no adjustments', async () => {
+    const result = await getLlpaAdjustments({ lender_id: 1 });
+    expect(result).toEqual([]);
+  });
+});
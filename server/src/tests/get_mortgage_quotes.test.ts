@@ -1,7 +1,7 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { lendersTable, llpaAdjustmentsTable, mortgageRatesTable, propertyCostEstimatesTable } from '../db/schema';
 import { type CreateMortgageQuoteRequestInput } from '../schema';
 import { getMortgageQuotes } from '../handlers/get_mortgage_quotes';
 
@@ -316,4 +316,908 @@ describe('getMortgageQuotes', () => {
     expect(Math.abs(quotes[0].monthly_payment - expectedPayment)).toBeLessThan(0.01);
     expect(quotes[0].total_interest).toEqual(0);
   });
-});
\ No newline at end of file
+
+  it('should not charge mortgage insurance at 80% LTV', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        is_active: true
+      })
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].mortgage_insurance_monthly).toEqual(0);
+    expect(quotes[0].mortgage_insurance_upfront).toEqual(0);
+    expect(quotes[0].mortgage_insurance_drop_off_month).toBeNull();
+    expect(quotes[0].total_mortgage_insurance).toEqual(0);
+  });
+
+  it('should add PMI above 80% LTV until the balance reaches 78% of value', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        is_active: true
+      })
+      .execute();
+
+    const quotes = await getMortgageQuotes({
+      ...testQuoteRequest,
+      loan_amount: 450000,
+      down_payment: 50000
+    });
+
+    expect(quotes).toHaveLength(1);
+    // 90% LTV with a 750 score: 0.34% annually on $450,000
+    expect(quotes[0].mortgage_insurance_monthly).toEqual(127.5);
+    expect(quotes[0].mortgage_insurance_upfront).toEqual(0);
+    expect(quotes[0].mortgage_insurance_drop_off_month).toBeGreaterThan(1);
+    expect(quotes[0].mortgage_insurance_drop_off_month).toBeLessThan(360);
+    expect(quotes[0].total_mortgage_insurance).toBeCloseTo(127.5 * (quotes[0].mortgage_insurance_drop_off_month! - 1), 2);
+  });
+
+  it('should include FHA upfront and annual MIP for the life of the loan', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'fha',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.500',
+        points: '0.00',
+        min_credit_score: 580,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '3.50',
+        is_active: true
+      })
+      .execute();
+
+    const quotes = await getMortgageQuotes({
+      ...testQuoteRequest,
+      loan_type: 'fha',
+      loan_amount: 482500,
+      down_payment: 17500
+    });
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].mortgage_insurance_upfront).toEqual(8443.75); // 1.75% of $482,500
+    // 0.55% annually on the average first-year balance, just under $221.15
+    expect(quotes[0].mortgage_insurance_monthly).toBeGreaterThan(215);
+    expect(quotes[0].mortgage_insurance_monthly).toBeLessThan(221.15);
+    expect(quotes[0].mortgage_insurance_drop_off_month).toBeNull();
+  });
+
+  it('should include the VA funding fee without monthly insurance', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'va',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.200',
+        points: '0.00',
+        min_credit_score: 580,
+        max_loan_amount: '600000.00',
+        min_down_payment_percent: '0.00',
+        is_active: true
+      })
+      .execute();
+
+    const quotes = await getMortgageQuotes({
+      ...testQuoteRequest,
+      loan_type: 'va',
+      loan_amount: 500000,
+      down_payment: 0
+    });
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].mortgage_insurance_upfront).toEqual(10750); // 2.15% with no down payment
+    expect(quotes[0].mortgage_insurance_monthly).toEqual(0);
+    expect(quotes[0].total_mortgage_insurance).toEqual(0);
+  });
+
+  it('should return a PITI breakdown using the ZIP code estimates', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.200',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        is_active: true
+      })
+      .execute();
+
+    await db.insert(propertyCostEstimatesTable)
+      .values({ zip_prefix: '90210', county: 'Los Angeles', state: 'CA', property_tax_rate: '1.200', insurance_rate: '0.240' })
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(1);
+    const piti = quotes[0].piti_monthly;
+    expect(piti.interest).toEqual(2000); // 400k * 6% / 12
+    expect(piti.principal).toBeCloseTo(398.2, 1);
+    expect(piti.taxes).toEqual(500); // 500k * 1.2% / 12
+    expect(piti.insurance).toEqual(100); // 500k * 0.24% / 12
+    expect(piti.mortgage_insurance).toEqual(0);
+    expect(piti.hoa).toEqual(0);
+    expect(piti.total).toBeCloseTo(quotes[0].monthly_payment + 600, 2);
+  });
+
+  it('should filter by property type, occupancy and number of units', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const baseRate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      interest_rate: '6.500',
+      apr: '6.750',
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      is_active: true
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        // Primary single-family only
+        { ...baseRate, allowed_property_types: ['single_family'], allowed_occupancy_types: ['primary'], max_units: 1 },
+        // Any property, any occupancy, up to 2 units
+        { ...baseRate, apr: '7.000', max_units: 2 },
+        // Investment condos
+        { ...baseRate, apr: '7.250', allowed_property_types: ['condo'], allowed_occupancy_types: ['investment'] }
+      ])
+      .execute();
+
+    const primaryHome = await getMortgageQuotes(testQuoteRequest);
+    expect(primaryHome.map(q => q.apr)).toEqual([6.75, 7]);
+
+    const investmentCondo = await getMortgageQuotes({
+      ...testQuoteRequest,
+      property_type: 'condo',
+      occupancy_type: 'investment'
+    });
+    expect(investmentCondo.map(q => q.apr)).toEqual([7, 7.25]);
+
+    const fourPlex = await getMortgageQuotes({
+      ...testQuoteRequest,
+      property_type: 'multi_family',
+      number_of_units: 4
+    });
+    expect(fourPlex).toHaveLength(0);
+  });
+
+  it('should apply matching loan-level price adjustments', async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Adjusting Bank', is_active: true }, { name: 'Flat Bank', is_active: true }])
+      .returning()
+      .execute();
+
+    const baseRate = {
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      interest_rate: '6.000',
+      points: '0.50',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      is_active: true
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, lender_id: lenders[0].id, apr: '6.100' },
+        { ...baseRate, lender_id: lenders[1].id, apr: '6.200' }
+      ])
+      .execute();
+
+    await db.insert(llpaAdjustmentsTable)
+      .values([
+        // Matches: 750 credit at exactly 80% LTV
+        { lender_id: lenders[0].id, description: '740-759 credit, 75-80% LTV', min_credit_score: 740, max_credit_score: 759, min_ltv: '75.00', max_ltv: '80.00', rate_adjustment: '0.250', points_adjustment: '0.875' },
+        // Matches: single family property adder
+        { lender_id: lenders[0].id, description: 'Single family', property_type: 'single_family', rate_adjustment: '0.000', points_adjustment: '-0.125' },
+        // Does not match: LTV band above 80%
+        { lender_id: lenders[0].id, description: '80-85% LTV', min_ltv: '80.00', max_ltv: '85.00', rate_adjustment: '0.500', points_adjustment: '1.000' },
+        // Does not match: investment only
+        { lender_id: lenders[0].id, description: 'Investment', occupancy_type: 'investment', rate_adjustment: '0.750', points_adjustment: '2.000' },
+        // Does not match: inactive
+        { lender_id: lenders[0].id, description: 'Inactive', rate_adjustment: '1.000', points_adjustment: '0.000', is_active: false }
+      ])
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(2);
+
+    // The adjusted lender now prices above the flat lender
+    expect(quotes[0].lender_name).toEqual('Flat Bank');
+    expect(quotes[0].price_adjustments).toEqual([]);
+    expect(quotes[0].interest_rate).toEqual(6);
+
+    const adjusted = quotes[1];
+    expect(adjusted.lender_name).toEqual('Adjusting Bank');
+    expect(adjusted.base_interest_rate).toEqual(6);
+    expect(adjusted.base_points).toEqual(0.5);
+    expect(adjusted.interest_rate).toEqual(6.25);
+    expect(adjusted.points).toEqual(1.25);
+    expect(adjusted.apr).toEqual(6.35);
+    expect(adjusted.price_adjustments.map(a => a.description)).toEqual([
+      '740-759 credit, 75-80% LTV',
+      'Single family'
+    ]);
+    expect(adjusted.monthly_payment).toBeGreaterThan(quotes[0].monthly_payment);
+  });
+
+  it('should mark quotes by debt-to-income qualification', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.200',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        is_active: true
+      })
+      .execute();
+
+    // Stated DTI only, no income: compared against the back-end limit as given
+    const stated = await getMortgageQuotes(testQuoteRequest);
+    expect(stated[0].qualification.status).toEqual('eligible');
+    expect(stated[0].qualification.back_end_dti).toEqual(35.5);
+    expect(stated[0].qualification.front_end_dti).toBeNull();
+
+    // No income and no stated DTI
+    const unknown = await getMortgageQuotes({ ...testQuoteRequest, debt_to_income_ratio: null });
+    expect(unknown[0].qualification.status).toEqual('eligible_with_conditions');
+    expect(unknown[0].qualification.reasons[0]).toMatch(/not provided/i);
+
+    // Housing payment is about $3,044 (P&I, national average taxes and insurance)
+    const comfortable = await getMortgageQuotes({ ...testQuoteRequest, gross_monthly_income: 12000, monthly_debts: 1500 });
+    expect(comfortable[0].qualification.status).toEqual('eligible');
+    expect(comfortable[0].qualification.front_end_dti).toBeCloseTo(25.37, 1);
+    expect(comfortable[0].qualification.back_end_dti).toBeCloseTo(37.87, 1);
+    expect(comfortable[0].qualification.max_front_end_dti).toEqual(28);
+    expect(comfortable[0].qualification.max_back_end_dti).toEqual(45);
+    expect(comfortable[0].qualification.reasons).toEqual([]);
+
+    const stretched = await getMortgageQuotes({ ...testQuoteRequest, gross_monthly_income: 10000, monthly_debts: 1500 });
+    expect(stretched[0].qualification.status).toEqual('eligible_with_conditions');
+    expect(stretched[0].qualification.reasons).toHaveLength(2);
+
+    const overextended = await getMortgageQuotes({ ...testQuoteRequest, gross_monthly_income: 6000, monthly_debts: 500 });
+    expect(overextended).toHaveLength(1); // Ineligible quotes are flagged, not hidden
+    expect(overextended[0].qualification.status).toEqual('ineligible');
+    expect(overextended[0].qualification.reasons.join(' ')).toMatch(/exceeds the maximum/i);
+  });
+
+  it('should use rate-specific DTI limits over loan type defaults', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.200',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        max_front_end_dti: '32.00',
+        max_back_end_dti: '50.00',
+        is_active: true
+      })
+      .execute();
+
+    const quotes = await getMortgageQuotes({ ...testQuoteRequest, gross_monthly_income: 10000, monthly_debts: 1500 });
+
+    expect(quotes[0].qualification.max_front_end_dti).toEqual(32);
+    expect(quotes[0].qualification.max_back_end_dti).toEqual(50);
+    expect(quotes[0].qualification.status).toEqual('eligible');
+  });
+
+  it('should calculate APR from the borrower\'s finance charges', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        {
+          lender_id: lenderResult[0].id,
+          loan_type: 'conventional',
+          loan_term: '30',
+          interest_rate: '6.500',
+          apr: '6.750',
+          points: '1.00',
+          min_credit_score: 700,
+          max_loan_amount: '500000.00',
+          min_down_payment_percent: '10.00',
+          closing_costs: '5000.00',
+          is_active: true
+        },
+        {
+          lender_id: lenderResult[0].id,
+          loan_type: 'conventional',
+          loan_term: '30',
+          interest_rate: '6.000',
+          apr: '6.900', // Stale rate sheet APR
+          points: '0.00',
+          min_credit_score: 700,
+          max_loan_amount: '500000.00',
+          min_down_payment_percent: '10.00',
+          is_active: true
+        }
+      ])
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(2);
+    // $4,000 in points plus $5,000 fees on $400,000
+    expect(quotes[0].calculated_apr).toBeCloseTo(6.72, 2);
+    // No finance charges: APR equals the note rate regardless of the stored value
+    expect(quotes[1].apr).toEqual(6.9);
+    expect(quotes[1].calculated_apr).toEqual(6);
+  });
+
+  it('should project initial, adjusted and worst-case payments for ARMs', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const baseRate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      is_active: true
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, interest_rate: '6.500', apr: '6.500' },
+        {
+          ...baseRate,
+          interest_rate: '5.500',
+          apr: '6.400',
+          rate_type: 'arm_5_1',
+          arm_index: 'sofr',
+          arm_index_value: '4.000',
+          arm_margin: '2.750',
+          arm_initial_cap: '2.000',
+          arm_periodic_cap: '1.000',
+          arm_lifetime_cap: '5.000'
+        }
+      ])
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(2);
+    const arm = quotes.find(quote => quote.rate_type === 'arm_5_1')!;
+    const fixed = quotes.find(quote => quote.rate_type === 'fixed')!;
+
+    expect(fixed.arm_projection).toBeNull();
+
+    const projection = arm.arm_projection!;
+    expect(projection.initial_period_years).toEqual(5);
+    expect(projection.initial_payment).toEqual(arm.monthly_payment);
+    // Index 4.00 + margin 2.75, reachable within the 2% initial cap
+    expect(projection.fully_indexed_rate).toEqual(6.75);
+    expect(projection.first_adjustment_rate).toEqual(6.75);
+    expect(projection.first_adjustment_payment).toBeGreaterThan(projection.initial_payment);
+    // Initial rate plus the 5% lifetime cap
+    expect(projection.worst_case_rate).toEqual(10.5);
+    expect(projection.worst_case_payment).toBeGreaterThan(projection.first_adjustment_payment);
+
+    expect(projection.payment_path).toHaveLength(30);
+    expect(projection.payment_path[4].projected_rate).toEqual(5.5);
+    expect(projection.payment_path[5].projected_rate).toEqual(6.75);
+    expect(projection.payment_path[5].worst_case_rate).toEqual(7.5);
+    expect(projection.payment_path[6].worst_case_rate).toEqual(8.5);
+    expect(projection.payment_path[29].worst_case_rate).toEqual(10.5);
+
+    // APR reflects the fully indexed rate after the fixed period
+    expect(arm.calculated_apr).toBeGreaterThan(5.5);
+    expect(arm.calculated_apr).toBeLessThan(6.75);
+  });
+
+  it('should not quote scheduled or expired rates', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    const hour = 60 * 60 * 1000;
+    const baseRate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      apr: '6.750',
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, interest_rate: '6.500', effective_at: new Date(Date.now() - hour), expires_at: new Date(Date.now() + hour) },
+        { ...baseRate, interest_rate: '6.125', effective_at: new Date(Date.now() + hour) }, // Tomorrow's sheet
+        { ...baseRate, interest_rate: '6.875', expires_at: new Date(Date.now() - 1000) } // Yesterday's sheet
+      ])
+      .execute();
+
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].interest_rate).toEqual(6.5);
+  });
+
+  it('should compare refinance quotes with keeping the existing loan', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    const baseRate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      closing_costs: '3000.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, interest_rate: '6.000', apr: '6.100' },
+        { ...baseRate, interest_rate: '8.500', apr: '8.600' }
+      ])
+      .execute();
+
+    // 25 years left on a $300,000 balance at 7.5%, against a $500,000 home
+    const quotes = await getMortgageQuotes({
+      ...testQuoteRequest,
+      loan_purpose: 'refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300
+    });
+
+    expect(quotes).toHaveLength(2);
+    const [lower, higher] = quotes;
+
+    // The new loan pays off the existing balance; the rest of the value is equity
+    expect(lower.loan_to_value_ratio).toEqual(60);
+    expect(lower.down_payment_percent).toEqual(40);
+    expect(lower.monthly_payment).toEqual(1798.65);
+
+    const savings = lower.refinance!;
+    expect(savings.current_monthly_payment).toEqual(2216.97);
+    expect(savings.monthly_savings).toEqual(418.32);
+    expect(savings.refinance_costs).toEqual(3000);
+    expect(savings.break_even_month).toEqual(8); // $3,000 / $418.32 a month
+    expect(savings.current_remaining_interest).toEqual(365091);
+    expect(savings.lifetime_interest_difference).toBeCloseTo(365091 - lower.total_interest, 2);
+
+    // A higher rate never pays back its closing costs
+    expect(higher.refinance!.monthly_savings).toBeLessThan(0);
+    expect(higher.refinance!.break_even_month).toBeNull();
+    expect(higher.refinance!.lifetime_interest_difference).toBeLessThan(0);
+  });
+
+  it('should count mortgage insurance in FHA refinance savings', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'fha',
+        loan_term: '30',
+        interest_rate: '6.000',
+        apr: '6.100',
+        points: '0.00',
+        min_credit_score: 580,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '3.50',
+        closing_costs: '3000.00'
+      })
+      .execute();
+
+    const refinance: CreateMortgageQuoteRequestInput = {
+      ...testQuoteRequest,
+      loan_type: 'fha',
+      loan_purpose: 'refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300
+    };
+
+    // FHA charges annual MIP whatever the equity, which eats into the P&I savings
+    const [quote] = await getMortgageQuotes(refinance);
+    expect(quote.mortgage_insurance_monthly).toBeGreaterThan(0);
+    expect(quote.refinance!.current_monthly_payment).toEqual(2216.97);
+    expect(quote.refinance!.monthly_savings).toBeCloseTo(2216.97 - quote.monthly_payment - quote.mortgage_insurance_monthly, 2);
+    expect(quote.refinance!.monthly_savings).toBeLessThan(418.32);
+    expect(quote.refinance!.break_even_month).toEqual(
+      Math.ceil(quote.refinance!.refinance_costs / quote.refinance!.monthly_savings)
+    );
+
+    // MIP already paid on the existing loan counts on the other side
+    const [withCurrentMip] = await getMortgageQuotes({ ...refinance, current_mortgage_insurance_monthly: 150 });
+    expect(withCurrentMip.refinance!.current_monthly_payment).toEqual(2366.97);
+    expect(withCurrentMip.refinance!.monthly_savings).toBeCloseTo(quote.refinance!.monthly_savings + 150, 2);
+  });
+
+  it('should require the existing loan for refinance quotes', async () => {
+    const refinance: CreateMortgageQuoteRequestInput = {
+      ...testQuoteRequest,
+      loan_purpose: 'refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300
+    };
+
+    await expect(getMortgageQuotes({ ...refinance, current_interest_rate: null, current_remaining_term_months: undefined }))
+      .rejects.toThrow(/require current_interest_rate, current_remaining_term_months/i);
+    await expect(getMortgageQuotes({ ...refinance, current_loan_balance: 500001 }))
+      .rejects.toThrow(/cannot exceed the estimated home value/i);
+
+    // Purchase quotes carry no refinance comparison
+    const quotes = await getMortgageQuotes(testQuoteRequest);
+    quotes.forEach(quote => expect(quote.refinance).toBeNull());
+  });
+
+  it('should size cash-out refinances within the program LTV limit', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+    const lenderId = lenderResult[0].id;
+
+    const baseRate = {
+      lender_id: lenderId,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      interest_rate: '6.000',
+      points: '0.00',
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '5.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, apr: '6.100' },
+        { ...baseRate, apr: '6.050', allowed_loan_purposes: ['purchase', 'refinance'] }
+      ])
+      .execute();
+    await db.insert(llpaAdjustmentsTable)
+      .values({ lender_id: lenderId, description: 'Cash-out refinance', loan_purpose: 'cash_out_refinance', rate_adjustment: '0.375' })
+      .execute();
+
+    const cashOut: CreateMortgageQuoteRequestInput = {
+      ...testQuoteRequest,
+      loan_purpose: 'cash_out_refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300,
+      cash_out_amount: 80000
+    };
+
+    const quotes = await getMortgageQuotes(cashOut);
+
+    // Only the rate offered for cash-out, priced with the cash-out adjustment
+    expect(quotes).toHaveLength(1);
+    const [quote] = quotes;
+    expect(quote.loan_to_value_ratio).toEqual(76); // $380,000 against $500,000
+    expect(quote.interest_rate).toEqual(6.375);
+    expect(quote.price_adjustments.map(adjustment => adjustment.description)).toEqual(['Cash-out refinance']);
+    expect(quote.refinance!.cash_out).toEqual(80000);
+    expect(quote.refinance!.max_cash_out).toEqual(100000); // 80% of value less the existing balance
+
+    // Rate-and-term refinances see both rates without the adjustment
+    const rateAndTerm = await getMortgageQuotes({ ...cashOut, loan_purpose: 'refinance' });
+    expect(rateAndTerm).toHaveLength(2);
+    rateAndTerm.forEach(quote => {
+      expect(quote.interest_rate).toEqual(6);
+      expect(quote.refinance!.cash_out).toEqual(0);
+      expect(quote.refinance!.max_cash_out).toBeNull();
+    });
+
+    expect(quote.qualification.reasons.some(reason => /cash-out/i.test(reason))).toBe(false);
+
+    // Past the 80% conventional limit the rate is still quoted, flagged with the cash available
+    const [overLimit] = await getMortgageQuotes({ ...cashOut, cash_out_amount: 150000 });
+    expect(overLimit.loan_to_value_ratio).toEqual(90);
+    expect(overLimit.qualification.status).toEqual('ineligible');
+    expect(overLimit.qualification.reasons).toContain(
+      'LTV 90.00% exceeds the 80% cash-out limit; up to $100000.00 cash out is available'
+    );
+    expect(overLimit.refinance!.max_cash_out).toEqual(100000);
+
+    // USDA has no cash-out program at all
+    await db.insert(mortgageRatesTable)
+      .values({ ...baseRate, loan_type: 'usda', apr: '6.100' })
+      .execute();
+    const [usda] = await getMortgageQuotes({ ...cashOut, loan_type: 'usda' });
+    expect(usda.qualification.status).toEqual('ineligible');
+    expect(usda.qualification.reasons).toContain('USDA loans do not offer cash-out refinances');
+    expect(usda.refinance!.max_cash_out).toBeNull();
+
+    // VA cash-out goes to the full home value
+    await db.insert(mortgageRatesTable)
+      .values({ ...baseRate, loan_type: 'va', apr: '6.100', min_down_payment_percent: '0.00' })
+      .execute();
+    const [va] = await getMortgageQuotes({ ...cashOut, loan_type: 'va', cash_out_amount: 200000 });
+    expect(va.loan_to_value_ratio).toEqual(100);
+    expect(va.qualification.reasons.some(reason => /cash-out/i.test(reason))).toBe(false);
+    expect(va.refinance!.cash_out).toEqual(200000);
+    expect(va.refinance!.max_cash_out).toEqual(200000);
+    await expect(getMortgageQuotes({ ...cashOut, cash_out_amount: null }))
+      .rejects.toThrow(/require cash_out_amount/i);
+  });
+
+  it('should compare every rate/points option with par', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.600',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        price_options: [
+          { interest_rate: 6.25, points: 1 },
+          { interest_rate: 6, points: 2 },
+          { interest_rate: 6.75, points: -1 }, // Lender credit
+          { interest_rate: 6.5, points: 0 } // Same as the row itself
+        ]
+      })
+      .execute();
+
+    const [quote] = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quote.price_options.map(option => [option.interest_rate, option.points])).toEqual([
+      [6, 2],
+      [6.25, 1],
+      [6.5, 0],
+      [6.75, -1]
+    ]);
+
+    const [twoPoints, onePoint, par, credit] = quote.price_options;
+    expect(par.is_par).toBe(true);
+    expect(par.monthly_payment).toEqual(quote.monthly_payment);
+    expect(par.break_even_month).toBeNull();
+
+    // $8,000 in points saves $130.07 a month on $400,000
+    expect(twoPoints.upfront_cost).toEqual(8000);
+    expect(twoPoints.monthly_savings).toEqual(130.07);
+    expect(twoPoints.break_even_month).toEqual(62);
+    expect(onePoint.break_even_month).toEqual(62);
+
+    // A $4,000 credit is used up by $66.12 higher payments in month 61
+    expect(credit.upfront_cost).toEqual(-4000);
+    expect(credit.monthly_savings).toEqual(-66.12);
+    expect(credit.break_even_month).toEqual(61);
+  });
+
+  it('should move price options with borrower adjustments', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.600',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        price_options: [{ interest_rate: 6.25, points: 1 }]
+      })
+      .execute();
+    await db.insert(llpaAdjustmentsTable)
+      .values({ lender_id: lenderResult[0].id, description: 'All borrowers', rate_adjustment: '0.125', points_adjustment: '0.250' })
+      .execute();
+
+    const [quote] = await getMortgageQuotes(testQuoteRequest);
+
+    expect(quote.price_options.map(option => [option.interest_rate, option.points])).toEqual([
+      [6.375, 1.25],
+      [6.625, 0.25]
+    ]);
+    expect(quote.price_options[1].is_par).toBe(true);
+    expect(quote.price_options[1].monthly_payment).toEqual(quote.monthly_payment);
+  });
+
+  it('should schedule the stepped payments of a temporary buydown', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '7.000',
+        apr: '7.100',
+        points: '0.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00'
+      })
+      .execute();
+
+    const [quote] = await getMortgageQuotes({ ...testQuoteRequest, temporary_buydown: '2_1' });
+    const buydown = quote.temporary_buydown!;
+
+    // 5% then 6% before the 7% note rate on $400,000
+    expect(buydown.type).toEqual('2_1');
+    expect(buydown.years).toEqual([
+      { year: 1, interest_rate: 5, monthly_payment: 2147.29, monthly_subsidy: 513.92 },
+      { year: 2, interest_rate: 6, monthly_payment: 2398.2, monthly_subsidy: 263.01 },
+      { year: 3, interest_rate: 7, monthly_payment: 2661.21, monthly_subsidy: 0 }
+    ]);
+    expect(buydown.subsidy_escrow).toEqual(9323.16);
+    expect(buydown.effective_first_year_payment).toBeCloseTo(quote.piti_monthly.total - 513.92, 2);
+
+    // The loan itself still amortizes at the note rate
+    expect(quote.interest_rate).toEqual(7);
+    expect(quote.monthly_payment).toEqual(2661.21);
+
+    const [threeTwoOne] = await getMortgageQuotes({ ...testQuoteRequest, temporary_buydown: '3_2_1' });
+    expect(threeTwoOne.temporary_buydown!.years.map(year => year.interest_rate)).toEqual([4, 5, 6, 7]);
+    expect(threeTwoOne.temporary_buydown!.subsidy_escrow).toEqual(18341.76);
+
+    const [noBuydown] = await getMortgageQuotes(testQuoteRequest);
+    expect(noBuydown.temporary_buydown).toBeNull();
+  });
+
+  it('should only offer temporary buydowns on purchases', async () => {
+    await expect(getMortgageQuotes({
+      ...testQuoteRequest,
+      loan_purpose: 'refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300,
+      temporary_buydown: '1_0'
+    })).rejects.toThrow(/only available on purchases/i);
+  });
+
+  it('should total the cost of each quote over the borrower\'s horizon', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank' })
+      .returning()
+      .execute();
+
+    const rate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      min_credit_score: 700,
+      max_loan_amount: '500000.00',
+      min_down_payment_percent: '10.00',
+      closing_costs: '3000.00'
+    };
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...rate, interest_rate: '6.000', apr: '6.250', points: '2.00' },
+        { ...rate, interest_rate: '6.500', apr: '6.550', points: '0.00' }
+      ])
+      .execute();
+
+    const shortHorizon = await getMortgageQuotes({ ...testQuoteRequest, horizon_years: 3 });
+    const [boughtDown, par] = shortHorizon;
+    expect(boughtDown.interest_rate).toEqual(6);
+
+    const cost = boughtDown.horizon_cost!;
+    expect(cost.horizon_years).toEqual(3);
+    expect(cost.upfront_costs).toEqual(11000); // $8,000 in points plus closing costs
+    expect(cost.mortgage_insurance_paid).toEqual(0);
+    expect(cost.remaining_balance).toBeLessThan(400000);
+    expect(cost.total_cost).toBeCloseTo(cost.upfront_costs + cost.interest_paid + cost.mortgage_insurance_paid, 2);
+
+    // Points do not pay for themselves within three years, but do within ten
+    expect(par.horizon_cost!.total_cost).toBeLessThan(boughtDown.horizon_cost!.total_cost);
+
+    const [longBoughtDown, longPar] = await getMortgageQuotes({ ...testQuoteRequest, horizon_years: 10 });
+    expect(longBoughtDown.horizon_cost!.total_cost).toBeLessThan(longPar.horizon_cost!.total_cost);
+
+    const [withoutHorizon] = await getMortgageQuotes(testQuoteRequest);
+    expect(withoutHorizon.horizon_cost).toBeNull();
+  });
+});
@@ -294,4 +294,38 @@ describe('getMortgageRates', () => {
     expect(result[0].loan_type).toBe('va');
     expect(result[0].min_down_payment_percent).toBe(0.00);
   });
-});
\ No newline at end of file
+
+  it('should only return rates within their effective window', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: testLender1.name })
+      .returning()
+      .execute();
+
+    const hour = 60 * 60 * 1000;
+    const baseRate = {
+      lender_id: lenderResult[0].id,
+      loan_type: 'conventional' as const,
+      loan_term: '30' as const,
+      interest_rate: '6.500',
+      apr: '6.750',
+      points: '0.00',
+      min_credit_score: 640,
+      max_loan_amount: '1000000.00',
+      min_down_payment_percent: '20.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, expires_at: new Date(Date.now() + hour) }, // Live until later today
+        { ...baseRate, interest_rate: '6.250', effective_at: new Date(Date.now() + 12 * hour) }, // Scheduled
+        { ...baseRate, interest_rate: '6.875', expires_at: new Date(Date.now() - hour) } // Expired
+      ])
+      .execute();
+
+    const result = await getMortgageRates();
+
+    expect(result).toHaveLength(1);
+    expect(result[0].interest_rate).toEqual(6.5);
+    expect(result[0].expires_at).toBeInstanceOf(Date);
+  });
+});
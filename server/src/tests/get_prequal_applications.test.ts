@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, usersTable } from '../db/schema';
+import { type SubmitPrequalApplicationInput } from '../schema';
+import { getPrequalApplications } from '../handlers/get_prequal_applications';
+import { submitPrequalApplication } from '../handlers/submit_prequal_application';
+import { requestQuotes } from '../handlers/request_quotes';
+
+describe('getPrequalApplications', () => {
+  let userId: number;
+  let otherUserId: number;
+  let application: SubmitPrequalApplicationInput;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenders[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.00',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values([
+        { email: 'bea@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' },
+        { email: 'other@example.com', password_hash: 'unused', name: 'Other Borrower', role: 'borrower' }
+      ])
+      .returning()
+      .execute();
+    userId = users[0].id;
+    otherUserId = users[1].id;
+
+    const saved = await requestQuotes({
+      loan_amount: 300000,
+      property_value: 400000,
+      down_payment: 100000,
+      credit_score: 740,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+
+    application = {
+      share_token: saved.quote_request.share_token,
+      quote_result_id: saved.quotes[0].quote_result_id,
+      first_name: 'Bea',
+      last_name: 'Borrower',
+      email: 'bea@example.com',
+      phone: null,
+      employments: [],
+      incomes: [{ income_type: 'salary', description: null, monthly_amount: 12000 }],
+      assets: [{ asset_type: 'savings', institution: null, balance: 150000 }],
+      liabilities: []
+    };
+  });
+
+  afterEach(resetDB);
+
+  it('should return no applications for a new borrower', async () => {
+    expect(await getPrequalApplications(userId)).toEqual([]);
+  });
+
+  it("should return only the borrower's applications, newest first, with sections and letters", async () => {
+    const first = await submitPrequalApplication(userId, application);
+    const second = await submitPrequalApplication(userId, {
+      ...application,
+      liabilities: [{ liability_type: 'credit_card', creditor: null, monthly_payment: 9000, balance: 40000 }]
+    });
+    await submitPrequalApplication(otherUserId, { ...application, first_name: 'Other' });
+
+    const applications = await getPrequalApplications(userId);
+
+    expect(applications.map(result => result.id)).toEqual([second.id, first.id]);
+    expect(applications[0].status).toEqual('ineligible');
+    expect(applications[0].letter).toBeNull();
+    expect(applications[0].liabilities).toHaveLength(1);
+    expect(applications[1].letter?.loan_amount).toEqual(300000);
+    expect(applications[1].letter?.purchase_price).toEqual(400000);
+    expect(applications[1].incomes[0].monthly_amount).toEqual(12000);
+  });
+});
@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, usersTable } from '../db/schema';
+import { type SubmitPrequalApplicationInput } from '../schema';
+import { getPrequalLetterPdf } from '../handlers/get_prequal_letter_pdf';
+import { submitPrequalApplication } from '../handlers/submit_prequal_application';
+import { requestQuotes } from '../handlers/request_quotes';
+import { formatLetterDate } from '../lib/prequal_letter';
+import { deflateSync } from 'zlib';
+import { eq } from 'drizzle-orm';
+
+// Smallest JPEG the frame header parser accepts: SOI, a 64x32 RGB baseline frame header and EOI
+const JPEG_LOGO = Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03, 0x01, 0x22, 0x00, 0x02, 0x11, 0x01, 0x03, 0x11, 0x01,
+  0xff, 0xd9
+]);
+
+// 2x1 RGB PNG; chunk CRCs are not checked when embedding
+function pngLogo(colorType: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8;
+  header[9] = colorType;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(Buffer.from([0, 255, 0, 0, 0, 0, 255]))),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+const dataUrl = (type: string, bytes: Buffer) => `data:${type};base64,${bytes.toString('base64')}`;
+
+describe('getPrequalLetterPdf', () => {
+  let userId: number;
+  let lenderId: number;
+  let application: SubmitPrequalApplicationInput;
+
+  const decode = async (applicationId: number): Promise<string> => {
+    const pdf = await getPrequalLetterPdf(userId, { application_id: applicationId });
+    return Buffer.from(pdf.content, 'base64').toString('latin1');
+  };
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank', phone: '555-0199', website_url: 'https://summit.example.com' })
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'fha',
+        loan_term: '30',
+        interest_rate: '6.250',
+        apr: '6.500',
+        points: '0.00',
+        min_credit_score: 580,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '3.50'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'bea@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const saved = await requestQuotes({
+      loan_amount: 385000,
+      property_value: 400000,
+      down_payment: 15000,
+      credit_score: 700,
+      loan_type: 'fha',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+
+    application = {
+      share_token: saved.quote_request.share_token,
+      quote_result_id: saved.quotes[0].quote_result_id,
+      first_name: 'Bea',
+      last_name: "O'Borrower",
+      email: 'bea@example.com',
+      phone: null,
+      employments: [],
+      incomes: [{ income_type: 'salary', description: null, monthly_amount: 15000 }],
+      assets: [{ asset_type: 'savings', institution: null, balance: 60000 }],
+      liabilities: []
+    };
+  });
+
+  afterEach(resetDB);
+
+  it('should render the letter terms as a PDF', async () => {
+    const result = await submitPrequalApplication(userId, application);
+    const pdf = await getPrequalLetterPdf(userId, { application_id: result.id });
+
+    expect(pdf.content_type).toEqual('application/pdf');
+    expect(pdf.filename).toEqual(`prequalification-letter-${result.id}.pdf`);
+
+    const text = Buffer.from(pdf.content, 'base64').toString('latin1');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain("Dear Bea O'Borrower,");
+    expect(text).toContain('($400,000)');
+    expect(text).toContain('($385,000)');
+    expect(text).toContain('(30-year fixed-rate FHA)');
+    expect(text).toContain(`(${formatLetterDate(result.letter!.expires_at)})`);
+    expect(text).toContain('(Summit Bank)');
+    expect(text).toContain('555-0199');
+    expect(text).not.toContain('/Subtype /Image');
+  });
+
+  it('should point the cross-reference table at each object', async () => {
+    const result = await submitPrequalApplication(userId, application);
+    const text = await decode(result.id);
+
+    const startXref = parseInt(text.slice(text.lastIndexOf('startxref') + 'startxref'.length));
+    expect(text.slice(startXref, startXref + 4)).toEqual('xref');
+
+    const entries = text.slice(startXref).split('\n').slice(3).filter(line => line.endsWith(' n '));
+    entries.forEach((entry, index) => {
+      const offset = parseInt(entry.slice(0, 10));
+      expect(text.slice(offset, offset + `${index + 1} 0 obj`.length)).toEqual(`${index + 1} 0 obj`);
+    });
+  });
+
+  it('should embed a JPEG lender logo', async () => {
+    await db.update(lendersTable).set({ logo_url: dataUrl('image/jpeg', JPEG_LOGO) }).where(eq(lendersTable.id, lenderId)).execute();
+    const result = await submitPrequalApplication(userId, application);
+    const text = await decode(result.id);
+
+    expect(text).toContain('/Subtype /Image /Width 64 /Height 32 /ColorSpace /DeviceRGB');
+    expect(text).toContain('/Filter /DCTDecode');
+    expect(text).toContain('/Im1 Do');
+    expect(text).not.toContain('/F2 22 Tf'); // Text letterhead
+  });
+
+  it('should embed an RGB PNG lender logo with the PNG predictor', async () => {
+    await db.update(lendersTable).set({ logo_url: dataUrl('image/png', pngLogo(2)) }).where(eq(lendersTable.id, lenderId)).execute();
+    const result = await submitPrequalApplication(userId, application);
+    const text = await decode(result.id);
+
+    expect(text).toContain('/Width 2 /Height 1 /ColorSpace /DeviceRGB');
+    expect(text).toContain('/Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors 3 /BitsPerComponent 8 /Columns 2 >>');
+  });
+
+  it('should fall back to the lender name for logos that cannot be embedded', async () => {
+    await db.update(lendersTable).set({ logo_url: dataUrl('image/png', pngLogo(6)) }).where(eq(lendersTable.id, lenderId)).execute();
+    const result = await submitPrequalApplication(userId, application);
+    const text = await decode(result.id);
+
+    expect(text).not.toContain('/Subtype /Image');
+    expect(text).toContain('(Summit Bank)');
+  });
+
+  it('should fall back to the lender name for logos over the size limit', async () => {
+    const oversized = Buffer.concat([JPEG_LOGO, Buffer.alloc(2 * 1024 * 1024)]);
+    await db.update(lendersTable).set({ logo_url: dataUrl('image/jpeg', oversized) }).where(eq(lendersTable.id, lenderId)).execute();
+    const result = await submitPrequalApplication(userId, application);
+    const text = await decode(result.id);
+
+    expect(text).not.toContain('/Subtype /Image');
+    expect(text).toContain('(Summit Bank)');
+  });
+
+  it('should not fetch logos from plain http or internal addresses', async () => {
+    const fetchSpy = spyOn(globalThis, 'fetch');
+    try {
+      for (const logoUrl of [
+        'http://logos.example.com/summit.png',
+        'https://169.254.169.254/latest/meta-data/',
+        'https://localhost/logo.png',
+        'https://[::ffff:10.0.0.1]/logo.png'
+      ]) {
+        await db.update(lendersTable).set({ logo_url: logoUrl }).where(eq(lendersTable.id, lenderId)).execute();
+        const result = await submitPrequalApplication(userId, application);
+        const text = await decode(result.id);
+
+        expect(text).toContain('(Summit Bank)');
+      }
+      expect(fetchSpy).not.toHaveBeenCalled();
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+
+  it("should not render another borrower's letter", async () => {
+    const result = await submitPrequalApplication(userId, application);
+
+    await expect(getPrequalLetterPdf(userId + 1, { application_id: result.id })).rejects.toThrow(/not found/i);
+  });
+
+  it('should reject applications without a letter', async () => {
+    const result = await submitPrequalApplication(userId, {
+      ...application,
+      liabilities: [{ liability_type: 'auto_loan', creditor: null, monthly_payment: 9000, balance: 50000 }]
+    });
+    expect(result.letter).toBeNull();
+
+    await expect(getPrequalLetterPdf(userId, { application_id: result.id })).rejects.toThrow(/has no letter/i);
+  });
+});
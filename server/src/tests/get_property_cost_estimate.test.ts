@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, seedDB } from '../helpers';
+import { db } from '../db';
+import { propertyCostEstimatesTable } from '../db/schema';
+import {
+  getPropertyCostEstimate,
+  NATIONAL_AVERAGE_INSURANCE_RATE,
+  NATIONAL_AVERAGE_PROPERTY_TAX_RATE
+} from '../handlers/get_property_cost_estimate';
+
+describe('getPropertyCostEstimate', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should prefer an exact ZIP match over its prefix', async () => {
+    await db.insert(propertyCostEstimatesTable)
+      .values([
+        { zip_prefix: '902', county: 'Los Angeles', state: 'CA', property_tax_rate: '0.720', insurance_rate: '0.300' },
+        { zip_prefix: '90210', county: 'Los Angeles', state: 'CA', property_tax_rate: '0.710', insurance_rate: '0.280' }
+      ])
+      .execute();
+
+    const result = await getPropertyCostEstimate({ zip_code: '90210' });
+
+    expect(result.zip_code).toEqual('90210');
+    expect(result.county).toEqual('Los Angeles');
+    expect(result.state).toEqual('CA');
+    expect(result.property_tax_rate).toEqual(0.71);
+    expect(typeof result.property_tax_rate).toBe('number');
+    expect(result.insurance_rate).toEqual(0.28);
+    expect(result.source).toEqual('zip');
+  });
+
+  it('should fall back to the 3-digit prefix', async () => {
+    await db.insert(propertyCostEstimatesTable)
+      .values({ zip_prefix: '606', county: 'Cook', state: 'IL', property_tax_rate: '2.070', insurance_rate: '0.400' })
+      .execute();
+
+    const result = await getPropertyCostEstimate({ zip_code: '60614-1234' });
+
+    expect(result.zip_code).toEqual('60614');
+    expect(result.county).toEqual('Cook');
+    expect(result.property_tax_rate).toEqual(2.07);
+    expect(result.source).toEqual('zip_prefix');
+  });
+
+  it('should use national averages for unknown ZIP codes', async () => {
+    const result = await getPropertyCostEstimate({ zip_code: '59001' });
+
+    expect(result.county).toBeNull();
+    expect(result.state).toBeNull();
+    expect(result.property_tax_rate).toEqual(NATIONAL_AVERAGE_PROPERTY_TAX_RATE);
+    expect(result.insurance_rate).toEqual(NATIONAL_AVERAGE_INSURANCE_RATE);
+    expect(result.source).toEqual('national_average');
+  });
+
+  it('should read seeded reference data', async () => {
+    await seedDB();
+    // Seeding twice must not fail on the unique ZIP prefix
+    await seedDB();
+
+    const result = await getPropertyCostEstimate({ zip_code: '77002' });
+
+    expect(result.county).toEqual('Harris');
+    expect(result.state).toEqual('TX');
+    expect(result.source).toEqual('zip_prefix');
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable } from '../db/schema';
+import { type CreateMortgageRateInput } from '../schema';
+import { createMortgageRate } from '../handlers/create_mortgage_rate';
+import { updateMortgageRate } from '../handlers/update_mortgage_rate';
+import { getRateHistory } from '../handlers/get_rate_history';
+
+const testInput: Omit<CreateMortgageRateInput, 'lender_id'> = {
+  loan_type: 'conventional',
+  loan_term: '30',
+  interest_rate: 6.5,
+  apr: 6.75,
+  points: 1,
+  min_credit_score: 620,
+  max_loan_amount: 766550,
+  min_down_payment_percent: 3,
+  closing_costs: 3500,
+  is_active: true
+};
+
+const createLender = async (name: string) => {
+  const result = await db.insert(lendersTable)
+    .values({ name, is_active: true })
+    .returning()
+    .execute();
+  return result[0];
+};
+
+describe('getRateHistory', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should record an entry on create and on every update', async () => {
+    const lender = await createLender('Test Bank');
+    const rate = await createMortgageRate({ ...testInput, lender_id: lender.id });
+
+    await updateMortgageRate({ id: rate.id, interest_rate: 6.375, apr: 6.6 });
+    await updateMortgageRate({ id: rate.id, points: 0.5, closing_costs: null });
+
+    const history = await getRateHistory({ rate_id: rate.id });
+
+    expect(history).toHaveLength(3);
+    expect(history.map(entry => entry.change_type)).toEqual(['created', 'updated', 'updated']);
+    expect(history.map(entry => entry.interest_rate)).toEqual([6.5, 6.375, 6.375]);
+    expect(history[0].apr).toEqual(6.75);
+    expect(history[1].apr).toEqual(6.6);
+    expect(history[2].points).toEqual(0.5);
+    expect(history[2].closing_costs).toBeNull();
+    expect(history[0].closing_costs).toEqual(3500);
+    expect(history[0].lender_name).toEqual('Test Bank');
+    expect(history[0].recorded_at).toBeInstanceOf(Date);
+    expect(history[0].recorded_at <= history[1].recorded_at).toBe(true);
+  });
+
+  it('should record the quoting window alongside each change', async () => {
+    const lender = await createLender('Test Bank');
+    const effectiveAt = new Date('2030-01-01T13:00:00Z');
+    const rate = await createMortgageRate({ ...testInput, lender_id: lender.id, effective_at: effectiveAt });
+
+    const expiresAt = new Date('2030-01-02T13:00:00Z');
+    await updateMortgageRate({ id: rate.id, expires_at: expiresAt });
+
+    const history = await getRateHistory({ rate_id: rate.id });
+
+    expect(history.map(entry => entry.effective_at)).toEqual([effectiveAt, effectiveAt]);
+    expect(history.map(entry => entry.expires_at)).toEqual([null, expiresAt]);
+  });
+
+  it('should filter by lender, loan type and term', async () => {
+    const first = await createLender('First Bank');
+    const second = await createLender('Second Bank');
+
+    await createMortgageRate({ ...testInput, lender_id: first.id });
+    await createMortgageRate({ ...testInput, lender_id: first.id, loan_type: 'fha', loan_term: '15' });
+    await createMortgageRate({ ...testInput, lender_id: second.id });
+
+    const byLender = await getRateHistory({ lender_id: first.id });
+    expect(byLender).toHaveLength(2);
+    byLender.forEach(entry => expect(entry.lender_id).toEqual(first.id));
+
+    const byProduct = await getRateHistory({ loan_type: 'conventional', loan_term: '30' });
+    expect(byProduct).toHaveLength(2);
+    expect(byProduct.map(entry => entry.lender_name).sort()).toEqual(['First Bank', 'Second Bank']);
+
+    const all = await getRateHistory({});
+    expect(all).toHaveLength(3);
+  });
+
+  it('should filter by date range', async () => {
+    const lender = await createLender('Test Bank');
+    const rate = await createMortgageRate({ ...testInput, lender_id: lender.id });
+    const [created] = await getRateHistory({ rate_id: rate.id });
+
+    await updateMortgageRate({ id: rate.id, interest_rate: 6.25 });
+
+    const asOfCreation = await getRateHistory({ rate_id: rate.id, to: created.recorded_at });
+    expect(asOfCreation).toHaveLength(1);
+    expect(asOfCreation[0].interest_rate).toEqual(6.5);
+
+    const future = await getRateHistory({ rate_id: rate.id, from: new Date(Date.now() + 60000) });
+    expect(future).toHaveLength(0);
+  });
+
+  it('should not record history when an update fails', async () => {
+    const lender = await createLender('Test Bank');
+    const rate = await createMortgageRate({ ...testInput, lender_id: lender.id });
+
+    await expect(updateMortgageRate({ id: rate.id, lender_id: 99999 })).rejects.toThrow(/not found/i);
+
+    const history = await getRateHistory({ rate_id: rate.id });
+    expect(history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable, rateLocksTable, usersTable } from '../db/schema';
+import { getRateLocks } from '../handlers/get_rate_locks';
+import { confirmRateLock } from '../handlers/confirm_rate_lock';
+import { requestRateLock } from '../handlers/request_rate_lock';
+import { requestQuotes } from '../handlers/request_quotes';
+import { eq } from 'drizzle-orm';
+
+describe('getRateLocks', () => {
+  let lenderId: number;
+  let otherLenderId: number;
+  let lockId: number;
+  let borrowerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Summit Bank' }, { name: 'Harbor Credit Union' }])
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+    otherLenderId = lenders[1].id;
+
+    await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    const lock = await requestRateLock(users[0].id, { share_token: saved.quote_request.share_token, quote_result_id: saved.quotes[0].quote_result_id, lock_period: '45' });
+    lockId = lock.id;
+    borrowerId = users[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should filter locks by borrower, lender and status', async () => {
+    expect(await getRateLocks({ user_id: borrowerId })).toHaveLength(1);
+    expect(await getRateLocks({ user_id: borrowerId + 1 })).toHaveLength(0);
+    expect(await getRateLocks({ lender_id: lenderId })).toHaveLength(1);
+    expect(await getRateLocks({ lender_id: otherLenderId })).toHaveLength(0);
+    expect(await getRateLocks({ status: 'requested' })).toHaveLength(1);
+    expect(await getRateLocks({ status: 'locked' })).toHaveLength(0);
+
+    const locks = await getRateLocks({});
+    expect(locks[0].lender_name).toEqual('Summit Bank');
+    expect(typeof locks[0].interest_rate).toBe('number');
+  });
+
+  it('should expire locks whose lock period has passed', async () => {
+    await confirmRateLock(lenderId, { id: lockId });
+    await db.update(rateLocksTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(rateLocksTable.id, lockId))
+      .execute();
+
+    const locks = await getRateLocks({ user_id: borrowerId });
+    expect(locks[0].status).toEqual('expired');
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { type CreateMortgageQuoteRequestInput } from '../schema';
+import { requestQuotes } from '../handlers/request_quotes';
+import { getSavedQuotes } from '../handlers/get_saved_quotes';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateMortgageQuoteRequestInput = {
+  loan_amount: 400000,
+  property_value: 500000,
+  down_payment: 100000,
+  credit_score: 750,
+  loan_type: 'conventional',
+  loan_term: '30',
+  property_type: 'single_family',
+  occupancy_type: 'primary',
+  zip_code: '90210',
+  debt_to_income_ratio: null
+};
+
+describe('getSavedQuotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reopen saved quotes with identical numbers after rates change', async () => {
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const rateResult = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '1.00',
+        min_credit_score: 700,
+        max_loan_amount: '500000.00',
+        min_down_payment_percent: '10.00',
+        closing_costs: '5000.00',
+        is_active: true
+      })
+      .returning()
+      .execute();
+
+    const saved = await requestQuotes(testInput);
+
+    // Rate moves after the borrower was quoted
+    await db.update(mortgageRatesTable)
+      .set({ interest_rate: '7.250', apr: '7.500' })
+      .where(eq(mortgageRatesTable.id, rateResult[0].id))
+      .execute();
+
+    const reopened = await getSavedQuotes({ share_token: saved.quote_request.share_token });
+
+    expect(reopened).toEqual(saved);
+    expect(reopened.quotes[0].interest_rate).toEqual(6.5);
+    expect(reopened.quote_request.debt_to_income_ratio).toBeNull();
+  });
+
+  it('should throw error for unknown share token', async () => {
+    await expect(getSavedQuotes({ share_token: '00000000-0000-4000-8000-000000000000' }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRateHistoryTable, mortgageRatesTable } from '../db/schema';
+import { importRateSheet } from '../handlers/import_rate_sheet';
+import { liveRateCondition } from '../lib/rate_window';
+import { and, eq } from 'drizzle-orm';
+
+const header = 'loan_type,loan_term,interest_rate,apr,points,min_credit_score,max_loan_amount,min_down_payment_percent,closing_costs';
+
+describe('importRateSheet', () => {
+  let lenderId: number;
+  let existingRateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+    lenderId = lenders[0].id;
+
+    const rates = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '7.000',
+        apr: '7.250',
+        points: '0.00',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .returning()
+      .execute();
+    existingRateId = rates[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should import every valid row for the given lender', async () => {
+    const csv = [
+      header,
+      'conventional,30,6.5,6.75,0.5,620,766550,5,4500',
+      'fha,15,5.875,6.1,0,580,498257,3.5,'
+    ].join('\n');
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: false });
+
+    expect(result.total_rows).toEqual(2);
+    expect(result.errors).toHaveLength(0);
+    expect(result.imported_count).toEqual(2);
+    expect(result.deactivated_count).toEqual(0);
+    expect(result.valid_rows[1].rate.closing_costs).toBeNull();
+
+    const rates = await db.select().from(mortgageRatesTable).where(eq(mortgageRatesTable.lender_id, lenderId)).execute();
+    expect(rates).toHaveLength(3);
+    expect(rates.filter(rate => rate.is_active)).toHaveLength(3);
+  });
+
+  it('should report per-row errors and import only the valid rows', async () => {
+    const csv = [
+      header,
+      'conventional,30,6.5,6.75,0.5,620,766550,5,4500',
+      'conventional,40,6.5,6.75,0.5,620,766550,5,',
+      'jumbo,30,abc,6.75,0.5,900,766550,5,'
+    ].join('\n');
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: false });
+
+    expect(result.imported_count).toEqual(1);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0].row).toEqual(3);
+    expect(result.errors[0].messages[0]).toStartWith('loan_term:');
+    expect(result.errors[1].row).toEqual(4);
+    expect(result.errors[1].messages).toHaveLength(2);
+  });
+
+  it('should reject rows for unknown lenders and incomplete ARM terms', async () => {
+    const csv = [
+      `lender_id,rate_type,${header}`,
+      `99999,fixed,conventional,30,6.5,6.75,0,620,766550,5,`,
+      `${lenderId},arm_5_1,conventional,30,5.9,6.6,0,620,766550,5,`
+    ].join('\n');
+
+    const result = await importRateSheet({ csv, dry_run: false, replace_existing: false });
+
+    expect(result.imported_count).toEqual(0);
+    expect(result.errors[0].messages).toEqual(['Lender with ID 99999 not found']);
+    expect(result.errors[1].messages[0]).toContain('requires');
+  });
+
+  it('should preview without saving on a dry run', async () => {
+    const csv = `${header}\nconventional,30,6.5,6.75,0.5,620,766550,5,4500`;
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: true, replace_existing: true });
+
+    expect(result.dry_run).toBe(true);
+    expect(result.valid_rows).toHaveLength(1);
+    expect(result.imported_count).toEqual(0);
+    expect(result.deactivated_count).toEqual(1);
+
+    const rates = await db.select().from(mortgageRatesTable).execute();
+    expect(rates).toHaveLength(1);
+    expect(rates[0].is_active).toBe(true);
+  });
+
+  it('should expire the lender\'s active rates when replacing', async () => {
+    const csv = `${header}\nconventional,30,6.5,6.75,0.5,620,766550,5,4500`;
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: true });
+
+    expect(result.imported_count).toEqual(1);
+    expect(result.deactivated_count).toEqual(1);
+
+    const existing = await db.select().from(mortgageRatesTable).where(eq(mortgageRatesTable.id, existingRateId)).execute();
+    expect(existing[0].expires_at!.getTime()).toBeLessThanOrEqual(Date.now());
+
+    const live = await db.select().from(mortgageRatesTable).where(liveRateCondition()).execute();
+    expect(live.map(rate => rate.interest_rate)).toEqual(['6.500']);
+
+    const history = await db.select().from(mortgageRateHistoryTable).execute();
+    expect(history.map(entry => entry.change_type).sort()).toEqual(['created', 'updated']);
+  });
+
+  it('should keep the current sheet quotable until a scheduled replacement takes effect', async () => {
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    tomorrow.setMilliseconds(0);
+    const csv = `${header},effective_at\nconventional,30,6.5,6.75,0.5,620,766550,5,4500,${tomorrow.toISOString()}`;
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: true });
+
+    expect(result.deactivated_count).toEqual(1);
+
+    const existing = await db.select().from(mortgageRatesTable).where(eq(mortgageRatesTable.id, existingRateId)).execute();
+    expect(existing[0].is_active).toBe(true);
+    expect(existing[0].expires_at).toEqual(tomorrow);
+
+    const live = await db.select().from(mortgageRatesTable)
+      .where(and(eq(mortgageRatesTable.lender_id, lenderId), liveRateCondition()))
+      .execute();
+    expect(live.map(rate => rate.id)).toEqual([existingRateId]);
+  });
+
+  it('should withdraw scheduled rates that a replacement starts before', async () => {
+    const nextWeek = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const scheduled = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenderId,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.875',
+        apr: '7.000',
+        points: '0.00',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00',
+        effective_at: nextWeek
+      })
+      .returning()
+      .execute();
+    const csv = `${header}\nconventional,30,6.5,6.75,0.5,620,766550,5,4500`;
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: true });
+
+    expect(result.deactivated_count).toEqual(2);
+
+    const withdrawn = await db.select().from(mortgageRatesTable).where(eq(mortgageRatesTable.id, scheduled[0].id)).execute();
+    expect(withdrawn[0].is_active).toBe(false);
+    expect(withdrawn[0].expires_at).toBeNull();
+  });
+
+  it('should handle quoted fields and pipe-separated lists', async () => {
+    const csv = [
+      `${header},allowed_property_types,is_active`,
+      `conventional,30,6.5,6.75,0.5,620,"766550",5,,"single_family|condo",no`
+    ].join('\r\n');
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: false, replace_existing: false });
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.valid_rows[0].rate.allowed_property_types).toEqual(['single_family', 'condo']);
+    expect(result.valid_rows[0].rate.is_active).toBe(false);
+  });
+
+  it('should read price options as rate:points pairs', async () => {
+    const csv = [
+      `${header},price_options`,
+      'conventional,30,6.5,6.75,0,620,766550,5,,6.25:1|6.75:-1',
+      'conventional,30,6.5,6.75,0,620,766550,5,,6.25:'
+    ].join('\n');
+
+    const result = await importRateSheet({ csv, lender_id: lenderId, dry_run: true, replace_existing: false });
+
+    expect(result.valid_rows[0].rate.price_options).toEqual([
+      { interest_rate: 6.25, points: 1 },
+      { interest_rate: 6.75, points: -1 }
+    ]);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].messages[0]).toStartWith('price_options:');
+  });
+
+  it('should reject sheets with unknown or missing columns', async () => {
+    await expect(importRateSheet({ csv: `${header},teaser_rate\n`, lender_id: lenderId, dry_run: false, replace_existing: false }))
+      .rejects.toThrow(/unknown columns: teaser_rate/i);
+    await expect(importRateSheet({ csv: header, dry_run: false, replace_existing: false }))
+      .rejects.toThrow(/missing required columns: lender_id/i);
+  });
+});
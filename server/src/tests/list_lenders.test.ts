@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable } from '../db/schema';
+import { listLenders } from '../handlers/list_lenders';
+
+describe('listLenders', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(lendersTable)
+      .values([
+        { name: 'Summit Bank', is_active: true },
+        { name: 'Harbor Credit Union', is_active: false },
+        { name: 'Summit Mortgage', is_active: false }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list active and inactive lenders by name', async () => {
+    const lenders = await listLenders({});
+
+    expect(lenders.map(lender => lender.name)).toEqual(['Harbor Credit Union', 'Summit Bank', 'Summit Mortgage']);
+  });
+
+  it('should search names case-insensitively', async () => {
+    const lenders = await listLenders({ search: 'summit' });
+
+    expect(lenders.map(lender => lender.name)).toEqual(['Summit Bank', 'Summit Mortgage']);
+  });
+
+  it('should filter by active status', async () => {
+    const inactive = await listLenders({ is_active: false });
+    expect(inactive).toHaveLength(2);
+    inactive.forEach(lender => expect(lender.is_active).toBe(false));
+
+    const activeSummit = await listLenders({ search: 'Summit', is_active: true });
+    expect(activeSummit.map(lender => lender.name)).toEqual(['Summit Bank']);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { listMortgageRates } from '../handlers/list_mortgage_rates';
+
+describe('listMortgageRates', () => {
+  let summitId: number;
+  let harborId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Summit Bank' }, { name: 'Harbor Credit Union', is_active: false }])
+      .returning()
+      .execute();
+    summitId = lenders[0].id;
+    harborId = lenders[1].id;
+
+    const baseRate = {
+      interest_rate: '6.500',
+      apr: '6.750',
+      points: '1.00',
+      min_credit_score: 620,
+      max_loan_amount: '750000.00',
+      min_down_payment_percent: '5.00'
+    };
+
+    await db.insert(mortgageRatesTable)
+      .values([
+        { ...baseRate, lender_id: summitId, loan_type: 'conventional', loan_term: '30' },
+        { ...baseRate, lender_id: summitId, loan_type: 'fha', loan_term: '30', is_active: false },
+        { ...baseRate, lender_id: harborId, loan_type: 'conventional', loan_term: '15' }
+      ])
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should list every rate with its lender, including inactive ones', async () => {
+    const rates = await listMortgageRates({});
+
+    expect(rates).toHaveLength(3);
+    expect(rates[0].lender_name).toEqual('Harbor Credit Union');
+    expect(rates[0].lender_is_active).toBe(false);
+    expect(rates[1].interest_rate).toEqual(6.5);
+    expect(typeof rates[1].max_loan_amount).toBe('number');
+  });
+
+  it('should filter by lender, loan type, term and status', async () => {
+    expect(await listMortgageRates({ lender_id: summitId })).toHaveLength(2);
+    expect(await listMortgageRates({ loan_type: 'conventional' })).toHaveLength(2);
+    expect(await listMortgageRates({ loan_term: '15' })).toHaveLength(1);
+
+    const inactive = await listMortgageRates({ is_active: false });
+    expect(inactive).toHaveLength(1);
+    expect(inactive[0].loan_type).toEqual('fha');
+  });
+
+  it('should search by lender name', async () => {
+    const rates = await listMortgageRates({ search: 'harbor' });
+
+    expect(rates).toHaveLength(1);
+    expect(rates[0].lender_id).toEqual(harborId);
+  });
+});
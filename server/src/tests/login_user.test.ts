@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createUser } from '../handlers/create_user';
+import { loginUser } from '../handlers/login_user';
+import { getUserByToken } from '../handlers/get_user_by_token';
+import { eq } from 'drizzle-orm';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+describe('loginUser', () => {
+  beforeEach(async () => {
+    await createDB();
+    await createUser({
+      email: 'admin@example.com',
+      password: 'correct horse battery',
+      name: 'Admin',
+      role: 'platform_admin'
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should return a token that resolves to the user', async () => {
+    const session = await loginUser({ email: 'ADMIN@example.com', password: 'correct horse battery' });
+
+    expect(session.user.email).toEqual('admin@example.com');
+    expect(session.user.role).toEqual('platform_admin');
+
+    const user = await getUserByToken(session.token);
+    expect(user?.id).toEqual(session.user.id);
+  });
+
+  it('should reject wrong passwords and unknown emails alike', async () => {
+    await expect(loginUser({ email: 'admin@example.com', password: 'wrong password' }))
+      .rejects.toThrow(/invalid email or password/i);
+    await expect(loginUser({ email: 'nobody@example.com', password: 'correct horse battery' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject deactivated users and their existing tokens', async () => {
+    const session = await loginUser({ email: 'admin@example.com', password: 'correct horse battery' });
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, session.user.id))
+      .execute();
+
+    expect(await getUserByToken(session.token)).toBeNull();
+    await expect(loginUser({ email: 'admin@example.com', password: 'correct horse battery' }))
+      .rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject tampered tokens', async () => {
+    const session = await loginUser({ email: 'admin@example.com', password: 'correct horse battery' });
+    const [data, signature] = session.token.split('.');
+    const forged = Buffer.from(JSON.stringify({ sub: session.user.id, role: 'platform_admin', exp: 9999999999 }))
+      .toString('base64url');
+
+    expect(await getUserByToken(`${forged}.${signature}`)).toBeNull();
+    expect(await getUserByToken(`${data}.invalid`)).toBeNull();
+    expect(await getUserByToken('garbage')).toBeNull();
+  });
+
+  it('should refuse the development secret in the container configuration', async () => {
+    const root = join(import.meta.dir, '../../..');
+    const dockerfile = readFileSync(join(root, 'Dockerfile'), 'utf8');
+    const compose = readFileSync(join(root, 'docker-compose.yml'), 'utf8');
+
+    // Compose must not paper over a missing secret with an empty default
+    expect(compose).not.toMatch(/AUTH_SECRET=\$\{AUTH_SECRET:-/);
+
+    const containerNodeEnv = dockerfile.match(/^ENV NODE_ENV=(\S+)$/m)?.[1];
+    expect(containerNodeEnv).toEqual('production');
+
+    const { NODE_ENV: nodeEnv, AUTH_SECRET: authSecret } = process.env;
+    process.env['NODE_ENV'] = containerNodeEnv;
+    delete process.env['AUTH_SECRET'];
+    try {
+      await expect(loginUser({ email: 'admin@example.com', password: 'correct horse battery' }))
+        .rejects.toThrow(/AUTH_SECRET must be set/);
+    } finally {
+      process.env['NODE_ENV'] = nodeEnv;
+      if (authSecret !== undefined) process.env['AUTH_SECRET'] = authSecret;
+    }
+  });
+});
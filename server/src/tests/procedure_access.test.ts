@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable } from '../db/schema';
+import { type User } from '../schema';
+import { appRouter } from '../index';
+import { createCallerFactory } from '../trpc';
+import { createUser } from '../handlers/create_user';
+
+const createCaller = createCallerFactory(appRouter);
+
+const newUser = (role: User['role'], lenderId: number | null = null) => createUser({
+  email: `${role}@example.com`,
+  password: 'correct horse battery',
+  name: role,
+  role,
+  lender_id: lenderId
+});
+
+describe('procedure access', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should reject admin procedures for anonymous callers', async () => {
+    const caller = createCaller({ user: null });
+
+    await expect(caller.createLender({ name: 'Test Bank', logo_url: null, website_url: null, phone: null, email: null }))
+      .rejects.toThrow(/authentication required/i);
+    await expect(caller.getMortgageQuoteRequests()).rejects.toThrow(/authentication required/i);
+    await expect(caller.me()).rejects.toThrow(/authentication required/i);
+    await expect(caller.requestRateLock({ share_token: crypto.randomUUID(), quote_result_id: 1, lock_period: '30' })).rejects.toThrow(/authentication required/i);
+    await expect(caller.getMyPrequalApplications()).rejects.toThrow(/authentication required/i);
+  });
+
+  it('should reject admin procedures for borrowers and lender reps', async () => {
+    const lender = await db.insert(lendersTable).values({ name: 'Test Bank' }).returning().execute();
+    const borrower = await newUser('borrower');
+    const rep = await newUser('lender_rep', lender[0].id);
+
+    for (const user of [borrower, rep]) {
+      const caller = createCaller({ user });
+      await expect(caller.getMortgageQuoteRequests()).rejects.toThrow(/platform admin access required/i);
+      await expect(caller.createUser({ email: 'x@example.com', password: 'password123', name: 'X', role: 'platform_admin' }))
+        .rejects.toThrow(/platform admin access required/i);
+    }
+  });
+
+  it('should allow platform admins', async () => {
+    const admin = await newUser('platform_admin');
+    const caller = createCaller({ user: admin });
+
+    const lender = await caller.createLender({ name: 'Test Bank', logo_url: null, website_url: null, phone: null, email: null });
+    expect(lender.name).toEqual('Test Bank');
+    expect(await caller.getMortgageQuoteRequests()).toEqual([]);
+    expect((await caller.me()).id).toEqual(admin.id);
+  });
+
+  it('should keep borrower-facing procedures public', async () => {
+    const caller = createCaller({ user: null });
+
+    expect(await caller.getLenders()).toEqual([]);
+    const saved = await caller.requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    expect(saved.quotes).toEqual([]);
+  });
+
+  it('should scope lender procedures to the rep\'s own lender', async () => {
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Own Bank' }, { name: 'Other Bank' }])
+      .returning()
+      .execute();
+    const rep = await newUser('lender_rep', lenders[0].id);
+    const admin = await newUser('platform_admin');
+
+    const rate = await createCaller({ user: rep }).createLenderRate({
+      loan_type: 'conventional',
+      loan_term: '30',
+      interest_rate: 6.5,
+      apr: 6.75,
+      points: 0,
+      min_credit_score: 620,
+      max_loan_amount: 750000,
+      min_down_payment_percent: 5,
+      closing_costs: null,
+      is_active: true
+    });
+    expect(rate.lender_id).toEqual(lenders[0].id);
+    expect(await createCaller({ user: rep }).getLenderRates()).toHaveLength(1);
+
+    // Admins have no lender of their own to act for
+    await expect(createCaller({ user: admin }).getLenderRates()).rejects.toThrow(/lender access required/i);
+    await expect(createCaller({ user: null }).getLenderRates()).rejects.toThrow(/authentication required/i);
+  });
+});
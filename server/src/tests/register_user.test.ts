@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { type RegisterUserInput } from '../schema';
+import { registerUser } from '../handlers/register_user';
+import { getUserByToken } from '../handlers/get_user_by_token';
+
+const testInput: RegisterUserInput = {
+  email: 'borrower@example.com',
+  password: 'correct horse battery',
+  name: 'Jane Borrower'
+};
+
+describe('registerUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a borrower and return a session', async () => {
+    const session = await registerUser(testInput);
+
+    expect(session.user.role).toEqual('borrower');
+    expect(session.user.email).toEqual('borrower@example.com');
+    expect(session.expires_at.getTime()).toBeGreaterThan(Date.now());
+
+    const user = await getUserByToken(session.token);
+    expect(user?.id).toEqual(session.user.id);
+  });
+
+  it('should not allow registering an existing email', async () => {
+    await registerUser(testInput);
+
+    await expect(registerUser(testInput)).rejects.toThrow(/already exists/i);
+  });
+});
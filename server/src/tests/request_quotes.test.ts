@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageQuoteRequestsTable, mortgageRatesTable, quoteResultsTable } from '../db/schema';
+import { type CreateMortgageQuoteRequestInput } from '../schema';
+import { requestQuotes } from '../handlers/request_quotes';
+import { getMortgageQuotes } from '../handlers/get_mortgage_quotes';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateMortgageQuoteRequestInput = {
+  loan_amount: 400000,
+  property_value: 500000,
+  down_payment: 100000,
+  credit_score: 750,
+  loan_type: 'conventional',
+  loan_term: '30',
+  property_type: 'single_family',
+  occupancy_type: 'primary',
+  zip_code: '90210',
+  debt_to_income_ratio: 35.5
+};
+
+const createRates = async () => {
+  const lenderResult = await db.insert(lendersTable)
+    .values({ name: 'Test Bank', is_active: true })
+    .returning()
+    .execute();
+
+  const baseRate = {
+    lender_id: lenderResult[0].id,
+    loan_type: 'conventional' as const,
+    loan_term: '30' as const,
+    points: '0.00',
+    min_credit_score: 700,
+    max_loan_amount: '500000.00',
+    min_down_payment_percent: '10.00',
+    is_active: true
+  };
+
+  await db.insert(mortgageRatesTable)
+    .values([
+      { ...baseRate, interest_rate: '6.750', apr: '6.800' },
+      { ...baseRate, interest_rate: '6.250', apr: '6.300' }
+    ])
+    .execute();
+};
+
+describe('requestQuotes', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should save the request and return its quotes with a share token', async () => {
+    await createRates();
+
+    const result = await requestQuotes(testInput);
+
+    expect(result.quote_request.id).toBeDefined();
+    expect(result.quote_request.loan_amount).toEqual(400000);
+    expect(result.quote_request.debt_to_income_ratio).toEqual(35.5);
+    expect(result.quote_request.share_token).toMatch(/^[0-9a-f-]{36}$/);
+
+    expect(result.quotes).toHaveLength(2);
+    expect(result.quotes[0].interest_rate).toEqual(6.25);
+    expect(result.quotes[1].interest_rate).toEqual(6.75);
+    result.quotes.forEach(quote => expect(quote.quote_result_id).toBeDefined());
+
+    // Matches what the live quote engine returned
+    const live = await getMortgageQuotes(testInput);
+    expect(result.quotes.map(({ quote_result_id, ...quote }) => quote)).toEqual(live);
+  });
+
+  it('should snapshot key rate values into quote_results', async () => {
+    await createRates();
+
+    const result = await requestQuotes(testInput);
+
+    const rows = await db.select()
+      .from(quoteResultsTable)
+      .where(eq(quoteResultsTable.quote_request_id, result.quote_request.id))
+      .execute();
+
+    expect(rows).toHaveLength(2);
+    const first = rows.find(row => row.position === 0)!;
+    expect(parseFloat(first.interest_rate)).toEqual(6.25);
+    expect(parseFloat(first.apr)).toEqual(6.3);
+    expect(parseFloat(first.monthly_payment)).toEqual(result.quotes[0].monthly_payment);
+    expect(first.quote_data.lender_name).toEqual('Test Bank');
+  });
+
+  it('should save requests that return no quotes', async () => {
+    const result = await requestQuotes(testInput);
+
+    expect(result.quotes).toHaveLength(0);
+
+    const requests = await db.select()
+      .from(mortgageQuoteRequestsTable)
+      .execute();
+    expect(requests).toHaveLength(1);
+  });
+});
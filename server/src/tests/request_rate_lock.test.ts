@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, llpaAdjustmentsTable, mortgageRatesTable, quoteResultsTable, usersTable } from '../db/schema';
+import { requestRateLock } from '../handlers/request_rate_lock';
+import { requestQuotes } from '../handlers/request_quotes';
+import { updateMortgageRate } from '../handlers/update_mortgage_rate';
+import { getRateLocks } from '../handlers/get_rate_locks';
+import { eq, sql } from 'drizzle-orm';
+
+describe('requestRateLock', () => {
+  let userId: number;
+  let rateId: number;
+  let quoteResultId: number;
+  let shareToken: string;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+
+    const rates = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenders[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })
+      .returning()
+      .execute();
+    rateId = rates[0].id;
+
+    await db.insert(llpaAdjustmentsTable)
+      .values({ lender_id: lenders[0].id, description: 'Condo', property_type: 'condo', rate_adjustment: '0.125', points_adjustment: '0.250' })
+      .execute();
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'condo',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    quoteResultId = saved.quotes[0].quote_result_id;
+    shareToken = saved.quote_request.share_token;
+  });
+
+  afterEach(resetDB);
+
+  it('should snapshot the quoted pricing in a requested lock', async () => {
+    const lock = await requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '45' });
+
+    expect(lock.status).toEqual('requested');
+    expect(lock.user_id).toEqual(userId);
+    expect(lock.rate_id).toEqual(rateId);
+    expect(lock.lender_name).toEqual('Summit Bank');
+    expect(lock.lock_period).toEqual('45');
+    expect(lock.loan_amount).toEqual(400000);
+    expect(lock.interest_rate).toEqual(6.625);
+    expect(lock.points).toEqual(0.75);
+    expect(lock.monthly_payment).toBeGreaterThan(0);
+    expect(lock.price_adjustments).toHaveLength(1);
+    expect(lock.price_adjustments[0].description).toEqual('Condo');
+    expect(lock.locked_at).toBeNull();
+    expect(lock.expires_at).toBeNull();
+  });
+
+  it('should keep the locked pricing after the rate changes', async () => {
+    const lock = await requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' });
+    await updateMortgageRate({ id: rateId, interest_rate: 7.25, points: 0 });
+
+    const locks = await getRateLocks({ user_id: userId });
+    expect(locks[0].id).toEqual(lock.id);
+    expect(locks[0].interest_rate).toEqual(6.625);
+    expect(locks[0].points).toEqual(0.75);
+  });
+
+  it('should allow only one open lock per quote', async () => {
+    await requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' });
+
+    await expect(requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '60' }))
+      .rejects.toThrow(/already has an open rate lock/i);
+  });
+
+  it('should create one open lock when requests race', async () => {
+    const results = await Promise.allSettled([
+      requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' }),
+      requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '60' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await getRateLocks({ user_id: userId })).toHaveLength(1);
+  });
+
+  it('should not lock a quote without its share token', async () => {
+    await expect(requestRateLock(userId, { share_token: crypto.randomUUID(), quote_result_id: quoteResultId, lock_period: '30' }))
+      .rejects.toThrow(/Quote result with ID \d+ not found/);
+  });
+
+  it('should not lock a stale quote', async () => {
+    await db.update(quoteResultsTable)
+      .set({ created_at: sql`now() - interval '2 days'` })
+      .where(eq(quoteResultsTable.id, quoteResultId))
+      .execute();
+
+    await expect(requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' }))
+      .rejects.toThrow(/has expired; request new quotes/i);
+  });
+
+  it('should not lock a quote whose rate was withdrawn', async () => {
+    await updateMortgageRate({ id: rateId, is_active: false });
+
+    await expect(requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' }))
+      .rejects.toThrow(/no longer offered/i);
+
+    // Expired rates are withdrawn too
+    await updateMortgageRate({ id: rateId, is_active: true, expires_at: new Date(Date.now() - 60 * 1000), effective_at: new Date(Date.now() - 120 * 1000) });
+    await expect(requestRateLock(userId, { share_token: shareToken, quote_result_id: quoteResultId, lock_period: '30' }))
+      .rejects.toThrow(/no longer offered/i);
+  });
+
+  it('should throw for a missing quote result', async () => {
+    await expect(requestRateLock(userId, { share_token: shareToken, quote_result_id: 99999, lock_period: '30' }))
+      .rejects.toThrow(/Quote result with ID 99999 not found/);
+  });
+});
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  lendersTable,
+  mortgageRatesTable,
+  prequalAssetsTable,
+  prequalIncomesTable,
+  prequalLettersTable,
+  usersTable
+} from '../db/schema';
+import { type SubmitPrequalApplicationInput } from '../schema';
+import { submitPrequalApplication, PREQUAL_LETTER_VALID_DAYS } from '../handlers/submit_prequal_application';
+import { requestQuotes } from '../handlers/request_quotes';
+import { updateMortgageRate } from '../handlers/update_mortgage_rate';
+import { eq } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('submitPrequalApplication', () => {
+  let userId: number;
+  let rateId: number;
+  let quoteRequestId: number;
+  let application: SubmitPrequalApplicationInput;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values({ name: 'Summit Bank' })
+      .returning()
+      .execute();
+
+    const rates = await db.insert(mortgageRatesTable)
+      .values({
+        lender_id: lenders[0].id,
+        loan_type: 'conventional',
+        loan_term: '30',
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '0.50',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00',
+        closing_costs: '3000.00'
+      })
+      .returning()
+      .execute();
+    rateId = rates[0].id;
+
+    const users = await db.insert(usersTable)
+      .values({ email: 'borrower@example.com', password_hash: 'unused', name: 'Bea Borrower', role: 'borrower' })
+      .returning()
+      .execute();
+    userId = users[0].id;
+
+    const saved = await requestQuotes({
+      loan_amount: 400000,
+      property_value: 500000,
+      down_payment: 100000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null
+    });
+    quoteRequestId = saved.quote_request.id;
+
+    application = {
+      share_token: saved.quote_request.share_token,
+      quote_result_id: saved.quotes[0].quote_result_id,
+      first_name: 'Bea',
+      last_name: 'Borrower',
+      email: 'Bea@Example.com',
+      phone: '555-0100',
+      employments: [
+        { employer_name: 'Acme Corp', job_title: 'Engineer', years_employed: 4, is_current: true, is_self_employed: false }
+      ],
+      incomes: [
+        { income_type: 'salary', description: null, monthly_amount: 14000 },
+        { income_type: 'rental', description: 'Duplex', monthly_amount: 1000 }
+      ],
+      assets: [
+        { asset_type: 'checking', institution: 'Summit Bank', balance: 30000 },
+        { asset_type: 'investment', institution: null, balance: 120000 }
+      ],
+      liabilities: [
+        { liability_type: 'auto_loan', creditor: 'Auto Finance', monthly_payment: 450, balance: 12000 }
+      ]
+    };
+  });
+
+  afterEach(resetDB);
+
+  it('should save the application and issue a letter for an eligible borrower', async () => {
+    const before = Date.now();
+    const result = await submitPrequalApplication(userId, application);
+
+    expect(result.status).toEqual('eligible');
+    expect(result.reasons).toEqual([]);
+    expect(result.user_id).toEqual(userId);
+    expect(result.quote_request_id).toEqual(quoteRequestId);
+    expect(result.rate_id).toEqual(rateId);
+    expect(result.email).toEqual('bea@example.com');
+    expect(result.gross_monthly_income).toEqual(15000);
+    expect(result.monthly_debts).toEqual(450);
+    expect(result.total_assets).toEqual(150000);
+    expect(result.funds_to_close).toEqual(105000); // Down payment, closing costs and 0.5 points
+    expect(result.loan_to_value_ratio).toEqual(80);
+    expect(result.back_end_dti).toBeGreaterThan(result.front_end_dti!);
+    expect(result.employments).toHaveLength(1);
+    expect(result.incomes).toHaveLength(2);
+    expect(result.assets).toHaveLength(2);
+    expect(result.liabilities[0].creditor).toEqual('Auto Finance');
+
+    const letter = result.letter!;
+    expect(letter.borrower_name).toEqual('Bea Borrower');
+    expect(letter.lender_name).toEqual('Summit Bank');
+    expect(letter.loan_amount).toEqual(400000);
+    expect(letter.purchase_price).toEqual(500000);
+    expect(letter.loan_type).toEqual('conventional');
+    expect(letter.loan_term).toEqual('30');
+    expect(letter.interest_rate).toEqual(6.5);
+    expect(letter.expires_at.getTime() - letter.issued_at.getTime()).toEqual(PREQUAL_LETTER_VALID_DAYS * DAY_MS);
+    expect(letter.issued_at.getTime()).toBeGreaterThanOrEqual(before - 1000);
+  });
+
+  it('should persist every section in its own table', async () => {
+    const result = await submitPrequalApplication(userId, application);
+
+    const incomes = await db.select().from(prequalIncomesTable).where(eq(prequalIncomesTable.application_id, result.id)).execute();
+    expect(incomes).toHaveLength(2);
+    expect(parseFloat(incomes[0].monthly_amount)).toEqual(14000);
+
+    const assets = await db.select().from(prequalAssetsTable).where(eq(prequalAssetsTable.application_id, result.id)).execute();
+    expect(assets.map(asset => asset.asset_type)).toEqual(['checking', 'investment']);
+  });
+
+  it('should not issue a letter when debts push DTI past the maximum', async () => {
+    const result = await submitPrequalApplication(userId, {
+      ...application,
+      liabilities: [{ liability_type: 'student_loan', creditor: null, monthly_payment: 6000, balance: 90000 }]
+    });
+
+    expect(result.status).toEqual('ineligible');
+    expect(result.letter).toBeNull();
+    expect(result.reasons.some(reason => reason.startsWith('Back-end DTI'))).toBe(true);
+
+    const letters = await db.select().from(prequalLettersTable).execute();
+    expect(letters).toHaveLength(0);
+  });
+
+  it('should check credit score against the rate minimum at submission', async () => {
+    await updateMortgageRate({ id: rateId, min_credit_score: 760 });
+
+    const result = await submitPrequalApplication(userId, application);
+
+    expect(result.status).toEqual('ineligible');
+    expect(result.reasons).toContain('Credit score 750 is below the program minimum of 760');
+  });
+
+  it('should check LTV against the rate minimum down payment', async () => {
+    await updateMortgageRate({ id: rateId, min_down_payment_percent: 25 });
+
+    const result = await submitPrequalApplication(userId, application);
+
+    expect(result.status).toEqual('ineligible');
+    expect(result.reasons).toContain('LTV 80.00% exceeds the maximum of 75%');
+  });
+
+  it('should add conditions for short funds and employment history but still issue a letter', async () => {
+    const result = await submitPrequalApplication(userId, {
+      ...application,
+      employments: [{ employer_name: 'Startup Inc', job_title: null, years_employed: 1.5, is_current: true, is_self_employed: false }],
+      assets: [{ asset_type: 'savings', institution: null, balance: 50000 }]
+    });
+
+    expect(result.status).toEqual('eligible_with_conditions');
+    expect(result.reasons).toHaveLength(2);
+    expect(result.reasons[0]).toContain('needed to close');
+    expect(result.reasons[1]).toContain('under two years');
+    expect(result.letter).not.toBeNull();
+  });
+
+  it('should count concurrent jobs as the longest one rather than their total', async () => {
+    const result = await submitPrequalApplication(userId, {
+      ...application,
+      employments: [
+        { employer_name: 'Acme Corp', job_title: 'Engineer', years_employed: 1, is_current: true, is_self_employed: false },
+        { employer_name: 'Side Gig LLC', job_title: null, years_employed: 1, is_current: true, is_self_employed: true }
+      ]
+    });
+
+    expect(result.status).toEqual('eligible_with_conditions');
+    expect(result.reasons).toEqual([
+      '1 years of employment history is under two years; an explanation of gaps is required'
+    ]);
+  });
+
+  it('should skip the employment check without employment', async () => {
+    const result = await submitPrequalApplication(userId, {
+      ...application,
+      employments: [],
+      incomes: [{ income_type: 'retirement', description: 'Pension', monthly_amount: 15000 }]
+    });
+
+    expect(result.status).toEqual('eligible');
+    expect(result.employments).toEqual([]);
+  });
+
+  it('should reject refinance quotes', async () => {
+    const refinance = await requestQuotes({
+      loan_amount: 300000,
+      property_value: 500000,
+      down_payment: 200000,
+      credit_score: 750,
+      loan_type: 'conventional',
+      loan_term: '30',
+      property_type: 'single_family',
+      occupancy_type: 'primary',
+      zip_code: '90210',
+      debt_to_income_ratio: null,
+      loan_purpose: 'refinance',
+      current_loan_balance: 300000,
+      current_interest_rate: 7.5,
+      current_remaining_term_months: 300
+    });
+
+    await expect(submitPrequalApplication(userId, {
+      ...application,
+      share_token: refinance.quote_request.share_token,
+      quote_result_id: refinance.quotes[0].quote_result_id
+    }))
+      .rejects.toThrow(/not a purchase quote/i);
+  });
+
+  it('should not apply against a quote without its share token', async () => {
+    await expect(submitPrequalApplication(userId, { ...application, share_token: crypto.randomUUID() }))
+      .rejects.toThrow(/Quote result with ID \d+ not found/);
+  });
+
+  it('should reject an unknown quote result', async () => {
+    await expect(submitPrequalApplication(userId, { ...application, quote_result_id: 99999 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { lendersTable, mortgageRatesTable } from '../db/schema';
+import { updateLenderRate } from '../handlers/update_lender_rate';
+import { eq } from 'drizzle-orm';
+
+describe('updateLenderRate', () => {
+  let ownLenderId: number;
+  let otherLenderId: number;
+  let ownRateId: number;
+  let otherRateId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenders = await db.insert(lendersTable)
+      .values([{ name: 'Own Bank' }, { name: 'Other Bank' }])
+      .returning()
+      .execute();
+    ownLenderId = lenders[0].id;
+    otherLenderId = lenders[1].id;
+
+    const rates = await db.insert(mortgageRatesTable)
+      .values([ownLenderId, otherLenderId].map(lenderId => ({
+        lender_id: lenderId,
+        loan_type: 'conventional' as const,
+        loan_term: '30' as const,
+        interest_rate: '6.500',
+        apr: '6.750',
+        points: '1.00',
+        min_credit_score: 620,
+        max_loan_amount: '750000.00',
+        min_down_payment_percent: '5.00'
+      })))
+      .returning()
+      .execute();
+    ownRateId = rates[0].id;
+    otherRateId = rates[1].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update the lender\'s own rate', async () => {
+    const result = await updateLenderRate(ownLenderId, { id: ownRateId, interest_rate: 6.25, apr: 6.5 });
+
+    expect(result.interest_rate).toEqual(6.25);
+    expect(result.apr).toEqual(6.5);
+    expect(result.lender_id).toEqual(ownLenderId);
+  });
+
+  it('should not touch another lender\'s rate', async () => {
+    await expect(updateLenderRate(ownLenderId, { id: otherRateId, interest_rate: 1 }))
+      .rejects.toThrow(/not found/i);
+
+    const rates = await db.select()
+      .from(mortgageRatesTable)
+      .where(eq(mortgageRatesTable.id, otherRateId))
+      .execute();
+    expect(parseFloat(rates[0].interest_rate)).toEqual(6.5);
+  });
+
+  it('should throw error for non-existent rate', async () => {
+    await expect(updateLenderRate(ownLenderId, { id: 99999, interest_rate: 6 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { llpaAdjustmentsTable, lendersTable } from '../db/schema';
+import { updateLlpaAdjustment } from '../handlers/update_llpa_adjustment';
+import { eq } from 'drizzle-orm';
+
+describe('updateLlpaAdjustment', () => {
+  let adjustmentId: number;
+
+  beforeEach(async () => {
+    await createDB();
+
+    const lenderResult = await db.insert(lendersTable)
+      .values({ name: 'Test Bank', is_active: true })
+      .returning()
+      .execute();
+
+    const adjustmentResult = await db.insert(llpaAdjustmentsTable)
+      .values({
+        lender_id: lenderResult[0].id,
+        description: '700-719 credit',
+        min_credit_score: 700,
+        max_credit_score: 719,
+        rate_adjustment: '0.125',
+        points_adjustment: '0.500'
+      })
+      .returning()
+      .execute();
+
+    adjustmentId = adjustmentResult[0].id;
+  });
+
+  afterEach(resetDB);
+
+  it('should update only specified fields', async () => {
+    const result = await updateLlpaAdjustment({
+      id: adjustmentId,
+      points_adjustment: 0.75,
+      max_ltv: 95
+    });
+
+    expect(result.points_adjustment).toEqual(0.75);
+    expect(result.max_ltv).toEqual(95);
+    expect(result.rate_adjustment).toEqual(0.125);
+    expect(result.description).toEqual('700-719 credit');
+    expect(result.min_credit_score).toEqual(700);
+  });
+
+  it('should clear criteria and deactivate', async () => {
+    await updateLlpaAdjustment({ id: adjustmentId, max_credit_score: null, is_active: false });
+
+    const saved = await db.select()
+      .from(llpaAdjustmentsTable)
+      .where(eq(llpaAdjustmentsTable.id, adjustmentId))
+      .execute();
+
+    expect(saved[0].max_credit_score).toBeNull();
+    expect(saved[0].is_active).toBe(false);
+    expect(saved[0].updated_at > saved[0].created_at).toBe(true);
+  });
+
+  it('should throw error when adjustment does not exist', async () => {
+    await expect(updateLlpaAdjustment({ id: 99999, rate_adjustment: 0.5 }))
+      .rejects.toThrow(/not found/i);
+  });
+});
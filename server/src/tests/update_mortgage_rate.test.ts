@@ -235,4 +235,55 @@ describe('updateMortgageRate', () => {
     expect(result.updated_at).toBeInstanceOf(Date);
     expect(result.updated_at.getTime()).toBeGreaterThan(originalUpdatedAt.getTime());
   });
-});
\ No newline at end of file
+
+  it('should update eligibility restrictions', async () => {
+    const result = await updateMortgageRate({
+      id: testRateId,
+      allowed_property_types: ['condo'],
+      allowed_occupancy_types: ['primary', 'secondary'],
+      allowed_loan_purposes: ['purchase'],
+      max_units: 1
+    });
+
+    expect(result.allowed_property_types).toEqual(['condo']);
+    expect(result.allowed_occupancy_types).toEqual(['primary', 'secondary']);
+    expect(result.allowed_loan_purposes).toEqual(['purchase']);
+    expect(result.max_units).toEqual(1);
+    expect(result.interest_rate).toEqual(6.5); // Unchanged
+  });
+
+  it('should convert a fixed rate to an ARM only with full ARM terms', async () => {
+    await expect(updateMortgageRate({ id: testRateId, rate_type: 'arm_10_1' }))
+      .rejects.toThrow(/requires/i);
+
+    const result = await updateMortgageRate({
+      id: testRateId,
+      rate_type: 'arm_10_1',
+      arm_index: 'sofr',
+      arm_index_value: 4,
+      arm_margin: 2.5,
+      arm_initial_cap: 5,
+      arm_periodic_cap: 2,
+      arm_lifetime_cap: 5
+    });
+    expect(result.rate_type).toEqual('arm_10_1');
+    expect(result.arm_margin).toEqual(2.5);
+
+    // Existing terms carry over when only one is changed
+    const updated = await updateMortgageRate({ id: testRateId, arm_index_value: 4.25 });
+    expect(updated.arm_index_value).toEqual(4.25);
+    expect(updated.arm_initial_cap).toEqual(5);
+  });
+
+  it('should update the effective window against the stored dates', async () => {
+    const expiresAt = new Date('2030-06-01T00:00:00Z');
+    const result = await updateMortgageRate({ id: testRateId, expires_at: expiresAt });
+    expect(result.expires_at).toEqual(expiresAt);
+
+    await expect(updateMortgageRate({ id: testRateId, effective_at: new Date('2030-07-01T00:00:00Z') }))
+      .rejects.toThrow(/expires_at must be after effective_at/i);
+
+    const cleared = await updateMortgageRate({ id: testRateId, expires_at: null });
+    expect(cleared.expires_at).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+import superjson from 'superjson';
+import { type User } from './schema';
+import { getUserByToken } from './handlers/get_user_by_token';
+
+export interface Context {
+  user: User | null;
+}
+
+// Resolve the caller from an "Authorization: Bearer <token>" header
+export async function createContext({ req }: CreateHTTPContextOptions): Promise<Context> {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+  return { user: token ? await getUserByToken(token) : null };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+export const publicProcedure = t.procedure;
+
+// Any signed-in user
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+  return next({ ctx: { user: ctx.user } });
+});
+
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'platform_admin') {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Platform admin access required' });
+  }
+  return next({ ctx });
+});
+
+// Lender reps, scoped to the lender on their account
+export const lenderProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== 'lender_rep' || ctx.user.lender_id === null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Lender access required' });
+  }
+  return next({ ctx: { user: ctx.user, lenderId: ctx.user.lender_id } });
+});